@@ -1,10 +1,12 @@
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
+import { BrowserRouter } from 'react-router-dom';
 import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
 import { TokenApp } from './components/TokenApp';
+import { DecryptionSessionProvider } from './components/DecryptionSessionProvider';
 
 const queryClient = new QueryClient();
 
@@ -13,9 +15,13 @@ function App() {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
-          <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb' }}>
-            <TokenApp />
-          </div>
+          <DecryptionSessionProvider>
+            <BrowserRouter>
+              <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb' }}>
+                <TokenApp />
+              </div>
+            </BrowserRouter>
+          </DecryptionSessionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
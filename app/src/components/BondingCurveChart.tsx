@@ -0,0 +1,46 @@
+import { formatEther, formatUnits } from 'viem';
+import { TOKEN_DECIMALS } from '../config/contracts';
+import { quoteLinearWei } from '../utils/bondingCurve';
+import '../styles/BondingCurveChart.css';
+
+type Props = {
+  startPriceWei: bigint;
+  endPriceWei: bigint;
+  supply: bigint;
+};
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = 8;
+
+export function BondingCurveChart({ startPriceWei, endPriceWei, supply }: Props) {
+  const maxPrice = endPriceWei > 0n ? endPriceWei : 1n;
+  const toY = (price: bigint) =>
+    HEIGHT - PADDING - (Number((price * 1000n) / maxPrice) / 1000) * (HEIGHT - 2 * PADDING);
+  const startY = toY(startPriceWei);
+  const endY = toY(endPriceWei);
+  const baseline = HEIGHT - PADDING;
+  const totalRaisedWei = supply > 0n ? quoteLinearWei(startPriceWei, endPriceWei, supply, 0n, supply) : 0n;
+
+  return (
+    <div className="curve-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Price per token as the supply sells">
+        <polygon
+          className="curve-chart-area"
+          points={`${PADDING},${baseline} ${PADDING},${startY} ${WIDTH - PADDING},${endY} ${WIDTH - PADDING},${baseline}`}
+        />
+        <line className="curve-chart-line" x1={PADDING} y1={startY} x2={WIDTH - PADDING} y2={endY} />
+        <line className="curve-chart-axis" x1={PADDING} y1={baseline} x2={WIDTH - PADDING} y2={baseline} />
+      </svg>
+      <div className="curve-chart-legend">
+        <span>First token: {formatEther(startPriceWei)} ETH</span>
+        <span>Last token: {formatEther(endPriceWei)} ETH</span>
+      </div>
+      <div className="curve-chart-legend">
+        <span>
+          Selling all {formatUnits(supply, TOKEN_DECIMALS)} tokens raises {formatEther(totalRaisedWei)} ETH
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { Contract } from 'ethers';
+import { formatUnits, type Hex } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { CONFIDENTIAL_USDT_ABI, getCusdtAddress, TOKEN_DECIMALS } from '../config/contracts';
+import { isZeroHandle } from '../utils/tokenRows';
+import { formatCountdown } from '../utils/saleSchedule';
+import '../styles/TokenMarketplace.css';
+import '../styles/TokenCard.css';
+
+type FaucetState = {
+  amount: bigint;
+  cooldown: bigint;
+  cap: bigint;
+  claimed: bigint;
+  nextClaimAt: bigint;
+  balance: Hex | null;
+};
+
+function currentUnixSeconds() {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+export function CusdtFaucet() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { userDecrypt, isReady: decryptionReady } = useDecryptionSession();
+  const cusdtAddress = getCusdtAddress(chainId);
+
+  const [state, setState] = useState<FaucetState | null>(null);
+  const [nowSeconds, setNowSeconds] = useState(currentUnixSeconds);
+  const [decryptedBalance, setDecryptedBalance] = useState<bigint | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!publicClient || !cusdtAddress) return;
+    const read = (functionName: string, args: readonly unknown[] = []) =>
+      publicClient.readContract({ address: cusdtAddress, abi: CONFIDENTIAL_USDT_ABI, functionName, args } as never);
+    try {
+      const [amount, cooldown, cap, claimed, nextClaimAt, balance] = (await Promise.all([
+        read('faucetAmount'),
+        read('faucetCooldown'),
+        read('faucetCap'),
+        address ? read('claimedClear', [address]) : Promise.resolve(0n),
+        address ? read('nextClaimAt', [address]) : Promise.resolve(0n),
+        address ? read('confidentialBalanceOf', [address]) : Promise.resolve(null),
+      ])) as [bigint, bigint, bigint, bigint, bigint, Hex | null];
+      setState({ amount, cooldown, cap, claimed, nextClaimAt, balance });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the faucet.');
+    }
+  }, [publicClient, cusdtAddress, address]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    setDecryptedBalance(null);
+  }, [address]);
+
+  const coolingDown = state !== null && nowSeconds < state.nextClaimAt;
+  useEffect(() => {
+    if (!coolingDown) return;
+    const timer = window.setInterval(() => setNowSeconds(currentUnixSeconds()), 1000);
+    return () => window.clearInterval(timer);
+  }, [coolingDown]);
+
+  const claim = async () => {
+    setError(null);
+    setLastTx(null);
+    if (!signerPromise || !cusdtAddress) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setError('Signer not available.');
+        return;
+      }
+      const tx = await new Contract(cusdtAddress, CONFIDENTIAL_USDT_ABI, signer).faucet();
+      setLastTx(tx.hash);
+      await tx.wait();
+      setNowSeconds(currentUnixSeconds());
+      setDecryptedBalance(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Claim failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const decryptBalance = async () => {
+    setError(null);
+    if (!cusdtAddress || !state?.balance || isZeroHandle(state.balance)) {
+      setDecryptedBalance(0n);
+      return;
+    }
+    if (!decryptionReady) {
+      setError('Encryption service not ready.');
+      return;
+    }
+    try {
+      const result = await userDecrypt([{ handle: state.balance, contractAddress: cusdtAddress }]);
+      setDecryptedBalance(BigInt(result[state.balance] ?? 0));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Decrypt failed.');
+    }
+  };
+
+  if (!cusdtAddress) {
+    return (
+      <div className="marketplace">
+        <div className="marketplace-empty">
+          No ConfidentialUSDT deployment is configured for this network.
+          <div className="marketplace-empty-hint">
+            Deploy it with <code className="token-code">npx hardhat deploy --tags ConfidentialUSDT</code>.
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const capReached = state !== null && state.claimed >= state.cap;
+  const format = (amount: bigint) => `${formatUnits(amount, TOKEN_DECIMALS)} cUSDT`;
+
+  return (
+    <div className="marketplace">
+      <div className="marketplace-header">
+        <div>
+          <h2 className="marketplace-title">cUSDT Faucet</h2>
+          <p className="marketplace-subtitle">
+            Test stablecoin for tokens priced in cUSDT. Claims are public; your balance stays encrypted.
+          </p>
+        </div>
+      </div>
+
+      <div className="token-card">
+        <div className="token-card-stats">
+          <div className="token-stat">
+            <div className="token-stat-label">Per claim</div>
+            <div className="token-stat-value">{state ? format(state.amount) : '…'}</div>
+            {state ? <div className="token-muted">Once every {formatCountdown(state.cooldown)}</div> : null}
+          </div>
+          <div className="token-stat">
+            <div className="token-stat-label">Claimed</div>
+            <div className="token-stat-value">
+              {state ? `${formatUnits(state.claimed, TOKEN_DECIMALS)} / ${format(state.cap)}` : '…'}
+            </div>
+          </div>
+          <div className="token-stat">
+            <div className="token-stat-label">Contract</div>
+            <div className="token-stat-value">
+              <code className="token-code">{cusdtAddress}</code>
+            </div>
+          </div>
+        </div>
+
+        <div className="token-card-section">
+          <div className="token-balance-actions">
+            <button
+              className="token-primary"
+              onClick={() => void claim()}
+              disabled={isBusy || !address || !state || coolingDown || capReached}
+            >
+              {isBusy ? 'Claiming…' : state ? `Claim ${format(state.amount)}` : 'Claim'}
+            </button>
+            {coolingDown && state ? (
+              <span className="token-muted">Next claim in {formatCountdown(state.nextClaimAt - nowSeconds)}</span>
+            ) : null}
+            {capReached ? <span className="token-muted">You have claimed the faucet's cap.</span> : null}
+          </div>
+          <div className="token-balance-actions">
+            <button className="token-secondary" onClick={() => void decryptBalance()} disabled={isBusy || !address}>
+              Decrypt balance
+            </button>
+            {decryptedBalance !== null ? (
+              <span className="token-muted">Balance: {format(decryptedBalance)}</span>
+            ) : null}
+          </div>
+          {error ? <div className="token-error">{error}</div> : null}
+          {lastTx ? (
+            <div className="token-result">
+              Transaction: <code className="token-code">{lastTx}</code>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import type { Address } from '../config/contracts';
+import {
+  DecryptionSessionContext,
+  type DecryptionSessionValue,
+  type HandleContractPair,
+} from '../hooks/useDecryptionSession';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+
+const DURATION_DAYS = 10;
+// The relayer rejects user-decrypt permits naming more than 10 contracts, so larger lists get several permits.
+const MAX_CONTRACTS_PER_PERMIT = 10;
+// Permits this close to expiry count as expired, so a request never races the deadline.
+const EXPIRY_MARGIN_SECONDS = 60;
+const STORAGE_KEY = 'confidential-token-decryption-session';
+
+type Permit = {
+  contractAddresses: Address[];
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+// One keypair per wallet and chain; each permit is one EIP-712 signature over a set of contracts.
+type Session = {
+  userAddress: Address;
+  chainId: number;
+  publicKey: string;
+  privateKey: string;
+  permits: Permit[];
+};
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function permitExpiry(permit: Permit) {
+  return permit.startTimestamp + permit.durationDays * 86400;
+}
+
+function isLive(permit: Permit) {
+  return permitExpiry(permit) - EXPIRY_MARGIN_SECONDS > nowSeconds();
+}
+
+function sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function findPermit(session: Session | null, contractAddress: Address): Permit | undefined {
+  return session?.permits.find(
+    (permit) => isLive(permit) && permit.contractAddresses.some((c) => sameAddress(c, contractAddress)),
+  );
+}
+
+function loadStoredSession(userAddress: Address, chainId: number): Session | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Session;
+    if (!sameAddress(stored.userAddress, userAddress) || stored.chainId !== chainId) return null;
+    const permits = stored.permits.filter(isLive);
+    return permits.length ? { ...stored, permits } : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(session: Session | null) {
+  try {
+    if (session) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (e.g. disabled by the browser); the session simply lives in memory.
+  }
+}
+
+type DecryptionSessionProviderProps = {
+  children: ReactNode;
+  /** Keep the session in sessionStorage so a reload in the same tab does not ask for a new signature. */
+  persist?: boolean;
+};
+
+export function DecryptionSessionProvider({ children, persist = true }: DecryptionSessionProviderProps) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+
+  const [session, setSession] = useState<Session | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  const identityRef = useRef<string | null>(null);
+  const knownContractsRef = useRef<Address[]>([]);
+  const pendingPermitRef = useRef<Promise<void> | null>(null);
+
+  const updateSession = useCallback(
+    (next: Session | null) => {
+      sessionRef.current = next;
+      setSession(next);
+      if (persist) storeSession(next);
+    },
+    [persist],
+  );
+
+  // A keypair or permit is never reused across wallets or chains. While disconnected the stored session is kept,
+  // so reconnecting the same wallet restores it.
+  useEffect(() => {
+    identityRef.current = address ? `${chainId}:${address.toLowerCase()}` : null;
+    knownContractsRef.current = [];
+    pendingPermitRef.current = null;
+
+    let restored: Session | null = null;
+    if (persist && address) {
+      restored = loadStoredSession(address as Address, chainId);
+      if (!restored) storeSession(null);
+    }
+    sessionRef.current = restored;
+    setSession(restored);
+  }, [address, chainId, persist]);
+
+  const expiresAt = useMemo(
+    () => (session && session.permits.length ? Math.min(...session.permits.map(permitExpiry)) : null),
+    [session],
+  );
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+    const timer = setTimeout(
+      () => {
+        const current = sessionRef.current;
+        if (!current) return;
+        const permits = current.permits.filter(isLive);
+        updateSession(permits.length ? { ...current, permits } : null);
+      },
+      Math.max(0, (expiresAt - EXPIRY_MARGIN_SECONDS - nowSeconds()) * 1000),
+    );
+    return () => clearTimeout(timer);
+  }, [expiresAt, updateSession]);
+
+  const registerContracts = useCallback((contractAddresses: Address[]) => {
+    const known = knownContractsRef.current;
+    knownContractsRef.current = [
+      ...known,
+      ...contractAddresses.filter(
+        (c, i) => !known.some((k) => sameAddress(k, c)) && contractAddresses.indexOf(c) === i,
+      ),
+    ];
+  }, []);
+
+  const signPermits = useCallback(
+    async (missing: Address[]) => {
+      if (!address) throw new Error('Connect your wallet to decrypt.');
+      if (!instance || zamaLoading || zamaError) throw new Error(zamaError ?? 'Encryption service not ready.');
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Signer not available.');
+
+      const identity = identityRef.current;
+      const current = sessionRef.current;
+      const keypair: { publicKey: string; privateKey: string } = current ?? instance.generateKeypair();
+
+      // Requested contracts come first; the rest of the permit is filled with other tokens on screen so later
+      // decrypts do not prompt again.
+      const toCover = [
+        ...missing,
+        ...knownContractsRef.current.filter((c) => !missing.some((m) => sameAddress(m, c)) && !findPermit(current, c)),
+      ];
+      const permits: Permit[] = [];
+      for (let i = 0; i < missing.length; i += MAX_CONTRACTS_PER_PERMIT) {
+        const contractAddresses = toCover.slice(i, i + MAX_CONTRACTS_PER_PERMIT);
+        const startTimestamp = nowSeconds();
+        const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, DURATION_DAYS);
+        const signature = await signer.signTypedData(
+          eip712.domain,
+          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+          eip712.message,
+        );
+        permits.push({
+          contractAddresses,
+          signature: signature.replace('0x', ''),
+          startTimestamp,
+          durationDays: DURATION_DAYS,
+        });
+      }
+
+      if (identityRef.current !== identity) {
+        throw new Error('Wallet or network changed while signing. Please try again.');
+      }
+      updateSession({
+        userAddress: address as Address,
+        chainId,
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        permits: [...(current?.permits.filter(isLive) ?? []), ...permits],
+      });
+    },
+    [address, chainId, instance, signerPromise, updateSession, zamaError, zamaLoading],
+  );
+
+  const userDecrypt = useCallback(
+    async (pairs: HandleContractPair[]) => {
+      if (!pairs.length) return {};
+
+      // Concurrent decrypts wait for the same wallet prompt instead of opening one each.
+      for (;;) {
+        const missing = Array.from(
+          new Set(pairs.map((p) => p.contractAddress).filter((c) => !findPermit(sessionRef.current, c))),
+        );
+        if (!missing.length) break;
+        if (!pendingPermitRef.current) {
+          pendingPermitRef.current = signPermits(missing).finally(() => {
+            pendingPermitRef.current = null;
+          });
+        }
+        await pendingPermitRef.current;
+      }
+
+      const current = sessionRef.current as Session;
+      const groups = new Map<Permit, HandleContractPair[]>();
+      for (const pair of pairs) {
+        const permit = findPermit(current, pair.contractAddress) as Permit;
+        groups.set(permit, [...(groups.get(permit) ?? []), pair]);
+      }
+
+      const results = await Promise.all(
+        Array.from(
+          groups,
+          ([permit, group]) =>
+            instance.userDecrypt(
+              group,
+              current.privateKey,
+              current.publicKey,
+              permit.signature,
+              permit.contractAddresses,
+              current.userAddress,
+              permit.startTimestamp,
+              permit.durationDays,
+            ) as Promise<Record<string, bigint | boolean | string>>,
+        ),
+      );
+      return Object.assign({}, ...results) as Record<string, bigint | boolean | string>;
+    },
+    [instance, signPermits],
+  );
+
+  const clear = useCallback(() => {
+    pendingPermitRef.current = null;
+    updateSession(null);
+  }, [updateSession]);
+
+  const value = useMemo<DecryptionSessionValue>(
+    () => ({
+      userDecrypt,
+      registerContracts,
+      clear,
+      isReady: Boolean(address && instance && !zamaLoading && !zamaError),
+      expiresAt,
+    }),
+    [address, clear, expiresAt, instance, registerContracts, userDecrypt, zamaError, zamaLoading],
+  );
+
+  return <DecryptionSessionContext.Provider value={value}>{children}</DecryptionSessionContext.Provider>;
+}
@@ -10,7 +10,7 @@ export function Header() {
             <h1 className="header-title">
               Shadow Pad
             </h1>
-            <p className="header-subtitle">Create and trade confidential ERC7984 tokens on Sepolia</p>
+            <p className="header-subtitle">Create and trade confidential ERC7984 tokens on Sepolia or a local Hardhat node</p>
           </div>
           <ConnectButton />
         </div>
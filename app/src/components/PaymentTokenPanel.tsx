@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
+import { formatUnits, type Hex } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import {
+  CONFIDENTIAL_CREDIT_VAULT_ABI,
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  TOKEN_DECIMALS,
+  type Address,
+} from '../config/contracts';
+import { isZeroHandle } from '../utils/tokenRows';
+import { formatPrice, type PaymentUnit } from '../utils/paymentToken';
+import type { TokenRow } from './TokenCard';
+
+type Props = {
+  token: TokenRow;
+  paymentToken: Address;
+  unit: PaymentUnit;
+  disabled: boolean;
+  onRefresh: () => void;
+};
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+// How long the credit vault stays an operator of the buyer's payment token balance after a purchase.
+const OPERATOR_SECONDS = 24 * 60 * 60;
+
+export function PaymentTokenPanel({ token, paymentToken, unit, disabled, onRefresh }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const { userDecrypt, isReady: decryptionReady } = useDecryptionSession();
+
+  const [vault, setVault] = useState<Address | null>(null);
+  const [paymentBalance, setPaymentBalance] = useState<Hex | null>(null);
+  const [decryptedBalance, setDecryptedBalance] = useState<bigint | null>(null);
+  const [buyAmountTokens, setBuyAmountTokens] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!publicClient) return;
+    try {
+      setVault(
+        (await publicClient.readContract({
+          address: token.address,
+          abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+          functionName: 'creditVault',
+        })) as Address,
+      );
+      setPaymentBalance(
+        address
+          ? ((await publicClient.readContract({
+              address: paymentToken,
+              abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+              functionName: 'confidentialBalanceOf',
+              args: [address],
+            })) as Hex)
+          : null,
+      );
+    } catch {
+      setVault(null);
+    }
+  }, [publicClient, token.address, paymentToken, address]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    setDecryptedBalance(null);
+  }, [address]);
+
+  const runTx = async (send: (signer: ethers.Signer) => Promise<ContractTransactionResponse>) => {
+    setError(null);
+    setLastTx(null);
+    if (!signerPromise) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setError('Signer not available.');
+        return;
+      }
+      const tx = await send(signer);
+      setLastTx(tx.hash);
+      await tx.wait();
+      await load();
+      onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // The vault pulls the payment as the buyer's operator, so a first purchase also approves it.
+  const buy = async () => {
+    let amount: bigint;
+    try {
+      amount = ethers.parseUnits(buyAmountTokens.trim(), TOKEN_DECIMALS);
+    } catch {
+      amount = 0n;
+    }
+    if (amount <= 0n || amount > MAX_UINT64) {
+      setError('Enter an amount in tokens that fits in uint64.');
+      return;
+    }
+    if (!vault || !address || !instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Connect your wallet and wait for the encryption service.');
+      return;
+    }
+    await runTx(async (signer) => {
+      const payment = new Contract(paymentToken, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      if (!(await payment.isOperator(address, vault))) {
+        const until = Math.floor(Date.now() / 1000) + OPERATOR_SECONDS;
+        await (await payment.setOperator(vault, until)).wait();
+      }
+      const input = await instance.createEncryptedInput(vault, address).add64(amount).encrypt();
+      return new Contract(vault, CONFIDENTIAL_CREDIT_VAULT_ABI, signer).buyWithPaymentToken(
+        token.address,
+        input.handles[0],
+        input.inputProof,
+      );
+    });
+    setBuyAmountTokens('');
+    setDecryptedBalance(null);
+  };
+
+  const decryptBalance = async () => {
+    setError(null);
+    if (!paymentBalance || isZeroHandle(paymentBalance)) {
+      setDecryptedBalance(0n);
+      return;
+    }
+    if (!decryptionReady) {
+      setError('Encryption service not ready.');
+      return;
+    }
+    try {
+      const result = await userDecrypt([{ handle: paymentBalance, contractAddress: paymentToken }]);
+      setDecryptedBalance(BigInt(result[paymentBalance] ?? 0));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Decrypt failed.');
+    }
+  };
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Buy with {unit.symbol}</div>
+      <div className="token-muted">
+        Both the amount you buy and the {unit.symbol} you pay stay encrypted. The first purchase also approves the sale
+        vault to move your {unit.symbol}. A purchase your balance or the remaining supply cannot cover buys nothing and
+        costs nothing.
+      </div>
+      <div className="token-buy-row">
+        <input
+          className="token-input"
+          value={buyAmountTokens}
+          onChange={(e) => setBuyAmountTokens(e.target.value)}
+          placeholder="Amount (tokens)"
+        />
+        <button
+          className="token-primary"
+          onClick={() => void buy()}
+          disabled={isBusy || disabled || !address || !vault}
+        >
+          {isBusy ? 'Buying…' : 'Buy'}
+        </button>
+      </div>
+      <div className="token-balance-actions">
+        <button className="token-secondary" onClick={() => void decryptBalance()} disabled={isBusy || !address}>
+          Decrypt {unit.symbol} balance
+        </button>
+        {decryptedBalance !== null ? (
+          <span className="token-muted">
+            {unit.symbol} balance: {formatUnits(decryptedBalance, unit.decimals)}
+          </span>
+        ) : null}
+      </div>
+      <div className="token-muted">
+        Price: {formatPrice(token.currentPricePerTokenWei ?? token.pricePerTokenWei, unit)} per token, rounded up to the
+        smallest {unit.symbol} unit.
+      </div>
+
+      {error ? <div className="token-error">{error}</div> : null}
+      {lastTx ? (
+        <div className="token-result">
+          Transaction: <code className="token-code">{lastTx}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
+import { formatEther, formatUnits, type Hex } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import {
+  CONFIDENTIAL_CREDIT_VAULT_ABI,
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  TOKEN_DECIMALS,
+  type Address,
+} from '../config/contracts';
+import { isZeroHandle } from '../utils/tokenRows';
+import { creditToWei, supportsPrivateSale } from '../utils/privateSale';
+import type { TokenRow } from './TokenCard';
+
+type Props = {
+  token: TokenRow;
+  isOwner: boolean;
+  onRefresh: () => void;
+};
+
+type PrivateSaleState = {
+  vault: Address;
+  privateSupplyClear: bigint;
+  credit: Hex;
+  pendingWithdrawal: Hex;
+  pendingProceeds: Hex;
+};
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+export function PrivateSalePanel({ token, isOwner, onRefresh }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const { userDecrypt, isReady: decryptionReady } = useDecryptionSession();
+
+  const [state, setState] = useState<PrivateSaleState | null>(null);
+  const [depositEth, setDepositEth] = useState('');
+  const [buyAmountTokens, setBuyAmountTokens] = useState('');
+  const [allocateTokens, setAllocateTokens] = useState('');
+  const [decryptedCreditWei, setDecryptedCreditWei] = useState<bigint | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!publicClient) return;
+    try {
+      const readToken = (functionName: 'creditVault' | 'privateSupplyClear') =>
+        publicClient.readContract({ address: token.address, abi: CONFIDENTIAL_ERC7984_TOKEN_ABI, functionName });
+      const [vault, privateSupplyClear] = (await Promise.all([
+        readToken('creditVault'),
+        readToken('privateSupplyClear'),
+      ])) as [Address, bigint];
+      if (vault.toLowerCase() === ZERO_ADDRESS) {
+        setState(null);
+        return;
+      }
+
+      const readVault = (functionName: string, arg: Address) =>
+        publicClient.readContract({
+          address: vault,
+          abi: CONFIDENTIAL_CREDIT_VAULT_ABI,
+          functionName,
+          args: [arg],
+        } as never) as Promise<Hex>;
+      const user = (address ?? ZERO_ADDRESS) as Address;
+      const [credit, pendingWithdrawal, pendingProceeds] = await Promise.all([
+        readVault('creditOf', user),
+        readVault('pendingWithdrawalOf', user),
+        readVault('pendingProceedsOf', token.address),
+      ]);
+      setState({ vault, privateSupplyClear, credit, pendingWithdrawal, pendingProceeds });
+    } catch {
+      // Tokens deployed before private sales existed have no credit vault.
+      setState(null);
+    }
+  }, [publicClient, token.address, address]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    setDecryptedCreditWei(null);
+  }, [address]);
+
+  if (!state) return null;
+  const canAllocate = isOwner && supportsPrivateSale(token) && token.remainingForSaleClear > 0n;
+  if (state.privateSupplyClear === 0n && !canAllocate) return null;
+
+  const runTx = async (send: (signer: ethers.Signer) => Promise<ContractTransactionResponse>) => {
+    setError(null);
+    setLastTx(null);
+    if (!signerPromise) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setError('Signer not available.');
+        return;
+      }
+      const tx = await send(signer);
+      setLastTx(tx.hash);
+      await tx.wait();
+      await load();
+      onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const vaultContract = (signer: ethers.Signer) => new Contract(state.vault, CONFIDENTIAL_CREDIT_VAULT_ABI, signer);
+
+  // Public decryption of a handle the vault marked as decryptable, with the KMS proof it verifies.
+  const publicDecrypt = async (handle: Hex) => {
+    const { clearValues, decryptionProof } = await instance.publicDecrypt([handle]);
+    return { value: BigInt(clearValues[handle]), decryptionProof: decryptionProof as Hex };
+  };
+
+  const parseTokens = (value: string) => {
+    try {
+      const amount = ethers.parseUnits(value.trim(), TOKEN_DECIMALS);
+      return amount > 0n && amount <= MAX_UINT64 ? amount : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const deposit = async () => {
+    let valueWei: bigint;
+    try {
+      valueWei = ethers.parseEther(depositEth.trim());
+    } catch {
+      setError('Enter the ETH amount to deposit.');
+      return;
+    }
+    if (valueWei <= 0n) {
+      setError('Enter the ETH amount to deposit.');
+      return;
+    }
+    await runTx((signer) => vaultContract(signer).deposit({ value: valueWei }));
+    setDepositEth('');
+    setDecryptedCreditWei(null);
+  };
+
+  const buyPrivately = async () => {
+    const amount = parseTokens(buyAmountTokens);
+    if (amount === null) {
+      setError('Enter an amount in tokens that fits in uint64.');
+      return;
+    }
+    if (!address || !instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Connect your wallet and wait for the encryption service.');
+      return;
+    }
+    await runTx(async (signer) => {
+      const input = await instance.createEncryptedInput(state.vault, address).add64(amount).encrypt();
+      return vaultContract(signer).buy(token.address, input.handles[0], input.inputProof);
+    });
+    setBuyAmountTokens('');
+    setDecryptedCreditWei(null);
+  };
+
+  const decryptCredit = async () => {
+    setError(null);
+    if (isZeroHandle(state.credit)) {
+      setDecryptedCreditWei(0n);
+      return;
+    }
+    if (!decryptionReady) {
+      setError('Encryption service not ready.');
+      return;
+    }
+    try {
+      const result = await userDecrypt([{ handle: state.credit, contractAddress: state.vault }]);
+      setDecryptedCreditWei(creditToWei(BigInt(result[state.credit] ?? 0)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Decrypt failed.');
+    }
+  };
+
+  // Both payouts first make the encrypted amount publicly decryptable, then submit it with its proof.
+  const withdrawCredit = async () => {
+    if (!address || !instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Encryption service not ready.');
+      return;
+    }
+    await runTx(async (signer) => {
+      const vault = vaultContract(signer);
+      if (isZeroHandle(state.pendingWithdrawal)) {
+        await (await vault.requestWithdrawal()).wait();
+      }
+      const pending = (await vault.pendingWithdrawalOf(address)) as Hex;
+      const credit = await publicDecrypt(pending);
+      return vault.withdraw(credit.value, credit.decryptionProof);
+    });
+    setDecryptedCreditWei(null);
+  };
+
+  const releaseProceeds = async () => {
+    if (!address || !instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Encryption service not ready.');
+      return;
+    }
+    await runTx(async (signer) => {
+      const vault = vaultContract(signer);
+      if (isZeroHandle(state.pendingProceeds)) {
+        await (await vault.revealProceeds(token.address)).wait();
+      }
+      const pending = (await vault.pendingProceedsOf(token.address)) as Hex;
+      const proceeds = await publicDecrypt(pending);
+      return vault.releaseProceeds(token.address, address, proceeds.value, proceeds.decryptionProof);
+    });
+  };
+
+  const allocate = async () => {
+    const amount = parseTokens(allocateTokens);
+    if (amount === null || amount > token.remainingForSaleClear) {
+      setError('Enter an amount in tokens, at most the remaining public supply.');
+      return;
+    }
+    await runTx((signer) =>
+      new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer).allocatePrivateSupply(amount),
+    );
+    setAllocateTokens('');
+  };
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Private purchase</div>
+      <div className="token-muted">
+        {formatUnits(state.privateSupplyClear, TOKEN_DECIMALS)} tokens are sold privately from an encrypted ETH credit:
+        the amounts you buy and your remaining credit stay encrypted. A purchase your credit or the pool cannot cover
+        buys nothing and costs nothing.
+      </div>
+
+      {state.privateSupplyClear > 0n ? (
+        <>
+          <div className="token-buy-row">
+            <input
+              className="token-input"
+              value={depositEth}
+              onChange={(e) => setDepositEth(e.target.value)}
+              placeholder="Deposit (ETH)"
+            />
+            <button className="token-secondary" onClick={() => void deposit()} disabled={isBusy || !address}>
+              Deposit credit
+            </button>
+          </div>
+          <div className="token-buy-row">
+            <input
+              className="token-input"
+              value={buyAmountTokens}
+              onChange={(e) => setBuyAmountTokens(e.target.value)}
+              placeholder="Amount (tokens)"
+            />
+            <button className="token-primary" onClick={() => void buyPrivately()} disabled={isBusy || !address}>
+              {isBusy ? 'Working…' : 'Buy privately'}
+            </button>
+          </div>
+          <div className="token-balance-actions">
+            <button className="token-secondary" onClick={() => void decryptCredit()} disabled={isBusy || !address}>
+              Decrypt credit
+            </button>
+            <button className="token-secondary" onClick={() => void withdrawCredit()} disabled={isBusy || !address}>
+              Withdraw credit
+            </button>
+            {decryptedCreditWei !== null ? (
+              <span className="token-muted">Credit: {formatEther(decryptedCreditWei)} ETH</span>
+            ) : null}
+          </div>
+          <div className="token-muted">
+            Credit is shared by every token of this factory. Withdrawing it reveals the amount withdrawn.
+          </div>
+        </>
+      ) : null}
+
+      {isOwner ? (
+        <div className="token-balance-actions">
+          {canAllocate ? (
+            <>
+              <input
+                className="token-input token-input-small"
+                value={allocateTokens}
+                onChange={(e) => setAllocateTokens(e.target.value)}
+                placeholder="Tokens"
+              />
+              <button className="token-secondary" onClick={() => void allocate()} disabled={isBusy}>
+                Move to private pool
+              </button>
+            </>
+          ) : null}
+          {state.privateSupplyClear > 0n ? (
+            <button className="token-secondary" onClick={() => void releaseProceeds()} disabled={isBusy}>
+              Release private proceeds
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {error ? <div className="token-error">{error}</div> : null}
+      {lastTx ? (
+        <div className="token-result">
+          Transaction: <code className="token-code">{lastTx}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
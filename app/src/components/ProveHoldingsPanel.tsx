@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
+import type { Hex } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import {
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  CONFIDENTIAL_HOLDINGS_VERIFIER_ABI,
+  getHoldingsVerifierAddress,
+} from '../config/contracts';
+import type { TokenRow } from './TokenCard';
+
+type Props = {
+  token: TokenRow;
+  decimals: number;
+  disabled: boolean;
+};
+
+type Attestation = {
+  id: Hex;
+  threshold: string;
+  blockNumber: number;
+  held: boolean;
+};
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+// The verifier only needs to be the holder's operator for the transaction that requests the proof.
+const OPERATOR_SECONDS = 60 * 60;
+
+export function ProveHoldingsPanel({ token, decimals, disabled }: Props) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const verifierAddress = getHoldingsVerifierAddress(chainId);
+
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [attestation, setAttestation] = useState<Attestation | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const runTx = async (send: (signer: ethers.Signer) => Promise<ContractTransactionResponse | null>) => {
+    setError(null);
+    setLastTx(null);
+    if (!signerPromise) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setError('Signer not available.');
+        return;
+      }
+      const tx = await send(signer);
+      if (tx) {
+        setLastTx(tx.hash);
+        await tx.wait();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Requests the proof, publicly decrypts its result and records it on-chain as the attestation.
+  const prove = async () => {
+    let threshold: bigint;
+    try {
+      threshold = ethers.parseUnits(thresholdInput.trim(), decimals);
+    } catch {
+      threshold = 0n;
+    }
+    if (threshold <= 0n || threshold > MAX_UINT64) {
+      setError('Enter a threshold in tokens that fits in uint64.');
+      return;
+    }
+    if (!verifierAddress || !address || !instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Connect your wallet and wait for the encryption service.');
+      return;
+    }
+    const thresholdLabel = thresholdInput.trim();
+    setAttestation(null);
+    await runTx(async (signer) => {
+      const tokenContract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      if (!(await tokenContract.isOperator(address, verifierAddress))) {
+        const until = Math.floor(Date.now() / 1000) + OPERATOR_SECONDS;
+        await (await tokenContract.setOperator(verifierAddress, until)).wait();
+      }
+      const verifier = new Contract(verifierAddress, CONFIDENTIAL_HOLDINGS_VERIFIER_ABI, signer);
+      const tx = await verifier.requestProof(token.address, threshold);
+      setLastTx(tx.hash);
+      const receipt = await tx.wait();
+      const requested = receipt?.logs
+        .map((log: ethers.Log) => verifier.interface.parseLog(log))
+        .find((parsed: ethers.LogDescription | null) => parsed?.name === 'ProofRequested');
+      if (!requested) throw new Error('Proof request not found in the transaction receipt.');
+      const id = requested.args.id as Hex;
+      const result = requested.args.result as Hex;
+
+      const { clearValues, decryptionProof } = await instance.publicDecrypt([result]);
+      const held = Boolean(clearValues[result]);
+      const revealTx = await verifier.revealProof(id, held, decryptionProof);
+      setLastTx(revealTx.hash);
+      await revealTx.wait();
+      setAttestation({ id, threshold: thresholdLabel, blockNumber: receipt.blockNumber, held });
+      return null;
+    });
+  };
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Prove holdings</div>
+      {!verifierAddress ? (
+        <div className="token-muted">No ConfidentialHoldingsVerifier deployment is configured for this network.</div>
+      ) : disabled ? (
+        <div className="token-muted">Holdings can be proven once transfers are unlocked.</div>
+      ) : (
+        <>
+          <div className="token-muted">
+            Prove you hold at least an amount, for a gated community or allowlist. Only whether you meet it is made
+            public and recorded with the block number; your balance stays encrypted.
+          </div>
+          <div className="token-buy-row">
+            <input
+              className="token-input"
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+              placeholder={`At least (${token.symbol})`}
+            />
+            <button className="token-primary" onClick={() => void prove()} disabled={isBusy || !address}>
+              {isBusy ? 'Proving…' : 'Prove'}
+            </button>
+          </div>
+          {attestation ? (
+            <div className="token-result">
+              {attestation.held
+                ? `Proven: you held at least ${attestation.threshold} ${token.symbol} at block ${attestation.blockNumber}.`
+                : `Not proven: you held less than ${attestation.threshold} ${token.symbol} at block ${attestation.blockNumber}.`}{' '}
+              Proof id <code className="token-code">{attestation.id}</code>
+            </div>
+          ) : null}
+        </>
+      )}
+
+      {error ? <div className="token-error">{error}</div> : null}
+      {lastTx ? (
+        <div className="token-result">
+          Transaction: <code className="token-code">{lastTx}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
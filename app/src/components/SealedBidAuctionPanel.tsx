@@ -0,0 +1,495 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
+import { formatEther, formatUnits, type Hex } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import {
+  CONFIDENTIAL_CREDIT_VAULT_ABI,
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  CONFIDENTIAL_SEALED_BID_AUCTION_ABI,
+  TOKEN_DECIMALS,
+  type Address,
+} from '../config/contracts';
+import { formatCountdown } from '../utils/saleSchedule';
+import { creditToWei } from '../utils/privateSale';
+import { isZeroHandle } from '../utils/tokenRows';
+import {
+  AUCTION_PHASE_LABELS,
+  auctionPhaseFromContract,
+  requiredDepositWei,
+  SETTLE_BATCH_STEPS,
+  type AuctionPhase,
+} from '../utils/sealedBidAuction';
+
+type Props = {
+  auction: Address;
+  onRefresh: () => void;
+};
+
+type Bid = {
+  quantity: Hex;
+  maxPricePerTokenWei: Hex;
+  filled: Hex;
+  depositWei: bigint;
+  claimed: boolean;
+};
+
+// Where claims settle deposits: the token's credit vault, with the account's credit and the token's pending proceeds.
+type VaultState = {
+  address: Address;
+  token: Address;
+  credit: Hex;
+  pendingWithdrawal: Hex;
+  pendingProceeds: Hex;
+};
+
+type AuctionState = {
+  phase: AuctionPhase;
+  owner: Address;
+  endTime: bigint;
+  reservePricePerTokenWei: bigint;
+  supply: bigint;
+  bidCount: bigint;
+  stepsRemaining: bigint;
+  clearingPricePerTokenWei: bigint;
+  unsoldWithdrawn: boolean;
+  bid: Bid | null;
+  vault: VaultState;
+};
+
+type DecryptedBid = {
+  quantity: bigint;
+  maxPricePerTokenWei: bigint;
+  filled: bigint | null;
+};
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+function currentUnixSeconds() {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+export function SealedBidAuctionPanel({ auction, onRefresh }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const { userDecrypt, isReady: decryptionReady } = useDecryptionSession();
+
+  const [state, setState] = useState<AuctionState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [nowSeconds, setNowSeconds] = useState(currentUnixSeconds);
+
+  const [quantityTokens, setQuantityTokens] = useState('');
+  const [maxPriceEth, setMaxPriceEth] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+  const [decryptedBid, setDecryptedBid] = useState<DecryptedBid | null>(null);
+  const [decryptedCreditWei, setDecryptedCreditWei] = useState<bigint | null>(null);
+
+  const load = useCallback(async () => {
+    if (!publicClient) return;
+    const read = (functionName: string, args: readonly unknown[] = []) =>
+      publicClient.readContract({
+        address: auction,
+        abi: CONFIDENTIAL_SEALED_BID_AUCTION_ABI,
+        functionName,
+        args,
+      } as never);
+
+    try {
+      const [
+        phase,
+        owner,
+        endTime,
+        reservePricePerTokenWei,
+        supply,
+        bidCount,
+        stepsRemaining,
+        clearingPricePerTokenWei,
+        unsoldWithdrawn,
+        token,
+        hasBid,
+      ] = (await Promise.all([
+        read('phase'),
+        read('owner'),
+        read('endTime'),
+        read('reservePricePerTokenWei'),
+        read('supply'),
+        read('bidCount'),
+        read('stepsRemaining'),
+        read('clearingPricePerTokenWei'),
+        read('unsoldWithdrawn'),
+        read('token'),
+        address ? read('hasBid', [address]) : Promise.resolve(false),
+      ])) as [number, Address, bigint, bigint, bigint, bigint, bigint, bigint, boolean, Address, boolean];
+      const bid = hasBid && address ? ((await read('bidOf', [address])) as Bid) : null;
+
+      const vaultAddress = (await publicClient.readContract({
+        address: token,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'creditVault',
+      })) as Address;
+      const readVault = (functionName: string, arg: Address) =>
+        publicClient.readContract({
+          address: vaultAddress,
+          abi: CONFIDENTIAL_CREDIT_VAULT_ABI,
+          functionName,
+          args: [arg],
+        } as never) as Promise<Hex>;
+      const user = (address ?? ZERO_ADDRESS) as Address;
+      const [credit, pendingWithdrawal, pendingProceeds] = await Promise.all([
+        readVault('creditOf', user),
+        readVault('pendingWithdrawalOf', user),
+        readVault('pendingProceedsOf', token),
+      ]);
+
+      setState({
+        phase: auctionPhaseFromContract(phase),
+        owner,
+        endTime,
+        reservePricePerTokenWei,
+        supply,
+        bidCount,
+        stepsRemaining,
+        clearingPricePerTokenWei,
+        unsoldWithdrawn,
+        bid,
+        vault: { address: vaultAddress, token, credit, pendingWithdrawal, pendingProceeds },
+      });
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load the auction.');
+    }
+  }, [publicClient, auction, address]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    setDecryptedBid(null);
+    setDecryptedCreditWei(null);
+  }, [address]);
+
+  const biddingOpen = state?.phase === 'bidding' && nowSeconds < state.endTime;
+
+  useEffect(() => {
+    if (!biddingOpen) return;
+    const timer = window.setInterval(() => setNowSeconds(currentUnixSeconds()), 1000);
+    return () => window.clearInterval(timer);
+  }, [biddingOpen]);
+
+  let quantity: bigint | null = null;
+  let maxPriceWei: bigint | null = null;
+  try {
+    quantity = quantityTokens.trim() ? ethers.parseUnits(quantityTokens.trim(), TOKEN_DECIMALS) : null;
+    maxPriceWei = maxPriceEth.trim() ? ethers.parseEther(maxPriceEth.trim()) : null;
+  } catch {
+    quantity = null;
+    maxPriceWei = null;
+  }
+  const depositWei = quantity !== null && maxPriceWei !== null ? requiredDepositWei(quantity, maxPriceWei) : null;
+
+  const runTx = async (send: (contract: Contract, signer: ethers.Signer) => Promise<ContractTransactionResponse>) => {
+    setActionError(null);
+    setLastTx(null);
+    if (!signerPromise) {
+      setActionError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setActionError('Signer not available.');
+        return;
+      }
+      const tx = await send(new Contract(auction, CONFIDENTIAL_SEALED_BID_AUCTION_ABI, signer), signer);
+      setLastTx(tx.hash);
+      await tx.wait();
+      await load();
+      onRefresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Public decryption of a handle the auction or the vault marked as decryptable, with the KMS proof it verifies.
+  const publicDecrypt = async (handle: Hex) => {
+    const { clearValues, decryptionProof } = await instance.publicDecrypt([handle]);
+    return { value: BigInt(clearValues[handle]), decryptionProof: decryptionProof as Hex };
+  };
+
+  const placeBid = async () => {
+    if (!address || !instance || zamaLoading || zamaError) {
+      setActionError(zamaError ?? 'Connect your wallet and wait for the encryption service.');
+      return;
+    }
+    if (quantity === null || maxPriceWei === null || depositWei === null) {
+      setActionError('Enter a quantity in tokens and a maximum price in ETH.');
+      return;
+    }
+    if (quantity <= 0n || quantity > MAX_UINT64 || maxPriceWei > MAX_UINT64) {
+      setActionError('Quantity and maximum price must fit in uint64 and the quantity must be greater than 0.');
+      return;
+    }
+    if (state && maxPriceWei < state.reservePricePerTokenWei) {
+      setActionError('The maximum price is below the reserve price, so the bid would count as zero.');
+      return;
+    }
+
+    await runTx(async (contract) => {
+      const input = await instance.createEncryptedInput(auction, address).add64(quantity).add64(maxPriceWei).encrypt();
+      return contract.bid(input.handles[0], input.handles[1], input.inputProof, { value: depositWei });
+    });
+    setQuantityTokens('');
+    setMaxPriceEth('');
+  };
+
+  const settleStep = async () => {
+    if (!state) return;
+    if (state.phase === 'awaiting-reveal') {
+      if (!instance || zamaLoading || zamaError) {
+        setActionError(zamaError ?? 'Encryption service not ready.');
+        return;
+      }
+      await runTx(async (contract) => {
+        const handle = (await contract.clearingPriceHandle()) as Hex;
+        const clearingPrice = await publicDecrypt(handle);
+        return contract.revealClearingPrice(clearingPrice.value, clearingPrice.decryptionProof);
+      });
+      return;
+    }
+    await runTx((contract) =>
+      state.phase === 'allocating'
+        ? contract.allocate(SETTLE_BATCH_STEPS)
+        : contract.computeClearingPrice(SETTLE_BATCH_STEPS),
+    );
+  };
+
+  const claim = async () => {
+    if (!address) return;
+    await runTx((contract) => contract.claim(address));
+  };
+
+  // Both vault payouts first make the encrypted amount publicly decryptable, then submit it with its proof.
+  const withdrawCredit = async () => {
+    if (!state || !address || !instance || zamaLoading || zamaError) {
+      setActionError(zamaError ?? 'Encryption service not ready.');
+      return;
+    }
+    const { vault } = state;
+    await runTx(async (_, signer) => {
+      const vaultContract = new Contract(vault.address, CONFIDENTIAL_CREDIT_VAULT_ABI, signer);
+      if (isZeroHandle(vault.pendingWithdrawal)) {
+        await (await vaultContract.requestWithdrawal()).wait();
+      }
+      const credit = await publicDecrypt((await vaultContract.pendingWithdrawalOf(address)) as Hex);
+      return vaultContract.withdraw(credit.value, credit.decryptionProof);
+    });
+    setDecryptedCreditWei(null);
+  };
+
+  const releaseProceeds = async () => {
+    if (!state || !address || !instance || zamaLoading || zamaError) {
+      setActionError(zamaError ?? 'Encryption service not ready.');
+      return;
+    }
+    const { vault } = state;
+    await runTx(async (_, signer) => {
+      const vaultContract = new Contract(vault.address, CONFIDENTIAL_CREDIT_VAULT_ABI, signer);
+      if (isZeroHandle(vault.pendingProceeds)) {
+        await (await vaultContract.revealProceeds(vault.token)).wait();
+      }
+      const proceeds = await publicDecrypt((await vaultContract.pendingProceedsOf(vault.token)) as Hex);
+      return vaultContract.releaseProceeds(vault.token, address, proceeds.value, proceeds.decryptionProof);
+    });
+  };
+
+  const decryptCredit = async () => {
+    if (!state) return;
+    setActionError(null);
+    const { credit, address: vaultAddress } = state.vault;
+    if (isZeroHandle(credit)) {
+      setDecryptedCreditWei(0n);
+      return;
+    }
+    if (!decryptionReady) {
+      setActionError('Encryption service not ready.');
+      return;
+    }
+    try {
+      const result = await userDecrypt([{ handle: credit, contractAddress: vaultAddress }]);
+      setDecryptedCreditWei(creditToWei(BigInt(result[credit] ?? 0)));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Decrypt failed.');
+    }
+  };
+
+  const decryptBid = async () => {
+    if (!state?.bid) return;
+    setActionError(null);
+    if (!decryptionReady) {
+      setActionError('Encryption service not ready.');
+      return;
+    }
+    const { bid } = state;
+    const settled = state.phase === 'settled';
+    try {
+      const handles = [bid.quantity, bid.maxPricePerTokenWei, ...(settled ? [bid.filled] : [])];
+      const result = await userDecrypt(handles.map((handle) => ({ handle, contractAddress: auction })));
+      setDecryptedBid({
+        quantity: BigInt(result[bid.quantity] ?? 0),
+        maxPricePerTokenWei: BigInt(result[bid.maxPricePerTokenWei] ?? 0),
+        filled: settled ? BigInt(result[bid.filled] ?? 0) : null,
+      });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Decrypt failed.');
+    }
+  };
+
+  if (!state) {
+    return (
+      <div className="token-card-section">
+        <div className="token-section-title">Sealed-bid auction</div>
+        {loadError ? <div className="token-error">{loadError}</div> : <div className="token-muted">Loading…</div>}
+      </div>
+    );
+  }
+
+  const isSeller = !!address && address.toLowerCase() === state.owner.toLowerCase();
+  const canSettle = state.phase !== 'settled' && !biddingOpen;
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Sealed-bid auction</div>
+      <div className="token-card-sale">
+        <span className={`token-sale-phase ${biddingOpen ? 'token-sale-phase-public' : ''}`}>
+          {biddingOpen ? AUCTION_PHASE_LABELS.bidding : AUCTION_PHASE_LABELS[state.phase]}
+        </span>
+        {biddingOpen ? (
+          <span className="token-muted">Closes in {formatCountdown(state.endTime - nowSeconds)}</span>
+        ) : null}
+        <span className="token-muted">
+          {state.bidCount.toString()} sealed {state.bidCount === 1n ? 'bid' : 'bids'}
+        </span>
+      </div>
+      <div className="token-muted">
+        {formatUnits(state.supply, TOKEN_DECIMALS)} tokens at one clearing price, reserve{' '}
+        {formatEther(state.reservePricePerTokenWei)} ETH / token. Quantities and prices stay encrypted; only the
+        clearing price is revealed.
+      </div>
+      {state.phase === 'allocating' || state.phase === 'settled' ? (
+        <div className="token-muted">Clearing price: {formatEther(state.clearingPricePerTokenWei)} ETH / token</div>
+      ) : null}
+
+      {biddingOpen && !state.bid ? (
+        <>
+          <div className="token-buy-row">
+            <input
+              className="token-input"
+              value={quantityTokens}
+              onChange={(e) => setQuantityTokens(e.target.value)}
+              placeholder="Quantity (tokens)"
+            />
+            <input
+              className="token-input"
+              value={maxPriceEth}
+              onChange={(e) => setMaxPriceEth(e.target.value)}
+              placeholder="Max price per token (ETH)"
+            />
+            <button className="token-primary" onClick={() => void placeBid()} disabled={isBusy || !address}>
+              {isBusy ? 'Bidding…' : 'Place sealed bid'}
+            </button>
+          </div>
+          <div className="token-muted">
+            {depositWei !== null
+              ? `Deposit: ${formatEther(depositWei)} ETH. You pay the clearing price for what you win; the rest becomes your credit.`
+              : 'The deposit covers quantity × max price; it is the only public part of your bid.'}
+          </div>
+        </>
+      ) : null}
+
+      {state.bid ? (
+        <div className="token-muted">
+          Your bid is sealed with a {formatEther(state.bid.depositWei)} ETH deposit.
+          {decryptedBid
+            ? ` ${formatUnits(decryptedBid.quantity, TOKEN_DECIMALS)} tokens at up to ${formatEther(decryptedBid.maxPricePerTokenWei)} ETH` +
+              (decryptedBid.quantity === 0n
+                ? ' (not covered by the deposit or below the reserve, so it counts as zero)'
+                : '') +
+              (decryptedBid.filled !== null
+                ? `; filled ${formatUnits(decryptedBid.filled, TOKEN_DECIMALS)} tokens.`
+                : '.')
+            : null}
+        </div>
+      ) : null}
+
+      <div className="token-balance-actions">
+        {state.bid ? (
+          <button className="token-secondary" onClick={() => void decryptBid()} disabled={isBusy}>
+            Decrypt my bid
+          </button>
+        ) : null}
+        {canSettle ? (
+          <button className="token-secondary" onClick={() => void settleStep()} disabled={isBusy || !address}>
+            {state.phase === 'awaiting-reveal'
+              ? 'Reveal clearing price'
+              : `Settle (${state.stepsRemaining.toString()} steps left)`}
+          </button>
+        ) : null}
+        {state.phase === 'settled' && state.bid && !state.bid.claimed ? (
+          <button className="token-primary" onClick={() => void claim()} disabled={isBusy}>
+            Claim tokens
+          </button>
+        ) : null}
+        {state.bid?.claimed ? (
+          <>
+            <button className="token-secondary" onClick={() => void decryptCredit()} disabled={isBusy}>
+              Decrypt credit
+            </button>
+            <button className="token-secondary" onClick={() => void withdrawCredit()} disabled={isBusy}>
+              Withdraw credit
+            </button>
+          </>
+        ) : null}
+        {isSeller && state.phase === 'settled' ? (
+          <button className="token-secondary" onClick={() => void releaseProceeds()} disabled={isBusy}>
+            Release proceeds
+          </button>
+        ) : null}
+        {isSeller && state.phase === 'settled' && !state.unsoldWithdrawn ? (
+          <button
+            className="token-secondary"
+            onClick={() => void runTx((contract) => contract.withdrawUnsold(state.owner))}
+            disabled={isBusy}
+          >
+            Withdraw unsold tokens
+          </button>
+        ) : null}
+      </div>
+      {decryptedCreditWei !== null ? (
+        <div className="token-muted">Credit: {formatEther(decryptedCreditWei)} ETH</div>
+      ) : null}
+      {state.bid?.claimed ? (
+        <div className="token-muted">
+          Your unspent deposit was added to your encrypted credit in the credit vault, shared by every token of this
+          factory. Withdrawing it reveals the amount withdrawn, and so how much you won if nothing else was added.
+        </div>
+      ) : null}
+      {actionError ? <div className="token-error">{actionError}</div> : null}
+      {lastTx ? (
+        <div className="token-result">
+          Transaction: <code className="token-code">{lastTx}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,12 +1,25 @@
-import { useState } from 'react';
+import { Navigate, NavLink, Route, Routes } from 'react-router-dom';
+import { useChainId } from 'wagmi';
 import { Header } from './Header';
 import { TokenCreate } from './TokenCreate';
 import { TokenMarketplace } from './TokenMarketplace';
+import { TokenPortfolio } from './TokenPortfolio';
+import { CusdtFaucet } from './CusdtFaucet';
+import { TokenAudit } from './TokenAudit';
+import { TokenDetail } from './TokenDetail';
 import '../styles/TokenCommon.css';
 import '../styles/TokenApp.css';
 
+const TABS = [
+  { path: '/create', label: 'Create Token' },
+  { path: '/market', label: 'Marketplace' },
+  { path: '/portfolio', label: 'Portfolio' },
+  { path: '/faucet', label: 'cUSDT Faucet' },
+  { path: '/audit', label: 'Audit' },
+];
+
 export function TokenApp() {
-  const [activeTab, setActiveTab] = useState<'create' | 'market'>('create');
+  const chainId = useChainId();
 
   return (
     <div className="token-app">
@@ -14,22 +27,28 @@ export function TokenApp() {
       <main className="token-main">
         <div className="token-tabs">
           <nav className="token-tab-nav">
-            <button
-              onClick={() => setActiveTab('create')}
-              className={`token-tab-button ${activeTab === 'create' ? 'active' : 'inactive'}`}
-            >
-              Create Token
-            </button>
-            <button
-              onClick={() => setActiveTab('market')}
-              className={`token-tab-button ${activeTab === 'market' ? 'active' : 'inactive'}`}
-            >
-              Marketplace
-            </button>
+            {TABS.map((tab) => (
+              <NavLink
+                key={tab.path}
+                to={tab.path}
+                className={({ isActive }) => `token-tab-button ${isActive ? 'active' : 'inactive'}`}
+              >
+                {tab.label}
+              </NavLink>
+            ))}
           </nav>
         </div>
 
-        {activeTab === 'create' ? <TokenCreate /> : <TokenMarketplace />}
+        {/* Remount on chain switch so the factory address resets to the new chain's deployment */}
+        <Routes>
+          <Route path="/create" element={<TokenCreate key={chainId} />} />
+          <Route path="/market" element={<TokenMarketplace key={chainId} />} />
+          <Route path="/token/:address" element={<TokenDetail key={chainId} />} />
+          <Route path="/portfolio" element={<TokenPortfolio key={chainId} />} />
+          <Route path="/faucet" element={<CusdtFaucet key={chainId} />} />
+          <Route path="/audit" element={<TokenAudit key={chainId} />} />
+          <Route path="*" element={<Navigate to="/create" replace />} />
+        </Routes>
       </main>
     </div>
   );
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { formatUnits, isAddress, type Hex } from 'viem';
+import {
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  getFactoryAddress,
+  getLensAddress,
+  TOKEN_DECIMALS,
+  type Address,
+} from '../config/contracts';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { isZeroHandle, loadFactoryTokenRows, loadFactoryWrapperRows } from '../utils/tokenRows';
+import type { TokenRow } from './TokenCard';
+import '../styles/TokenMarketplace.css';
+import '../styles/TokenPortfolio.css';
+
+type AuditedBalance = {
+  token: TokenRow;
+  // null when the holder has not named the connected wallet as viewer of this token.
+  balance: bigint | null;
+};
+
+export function TokenAudit() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { userDecrypt, registerContracts, isReady } = useDecryptionSession();
+
+  const factoryAddress = getFactoryAddress(chainId);
+  const lensAddress = getLensAddress(chainId);
+
+  const [holderInput, setHolderInput] = useState('');
+  const [audited, setAudited] = useState<{ holder: Address; balances: AuditedBalance[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const audit = async () => {
+    setError(null);
+    const holder = holderInput.trim();
+    if (!isAddress(holder)) {
+      setError('Enter the holder address to audit.');
+      return;
+    }
+    if (!address) {
+      setError('Connect the wallet the holder named as viewer.');
+      return;
+    }
+    if (!publicClient) {
+      setError('Public client not available.');
+      return;
+    }
+    if (!factoryAddress) {
+      setError('No ConfidentialTokenFactory deployment is configured for this network.');
+      return;
+    }
+    if (!isReady) {
+      setError('Encryption service not ready.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const rows = [
+        ...(await loadFactoryTokenRows(publicClient, factoryAddress, lensAddress, holder)),
+        ...(await loadFactoryWrapperRows(publicClient, factoryAddress, holder)),
+      ];
+      const held = rows.filter((row) => row.encryptedBalance && !isZeroHandle(row.encryptedBalance));
+      const observers = await Promise.all(
+        held.map((row) =>
+          (
+            publicClient.readContract({
+              address: row.address,
+              abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+              functionName: 'observer',
+              args: [holder],
+            }) as Promise<Address>
+          ).catch(() => null),
+        ),
+      );
+      const granted = held.filter((_, i) => observers[i]?.toLowerCase() === address.toLowerCase());
+
+      let results: Record<string, bigint | boolean | string> = {};
+      if (granted.length) {
+        registerContracts(granted.map((row) => row.address));
+        results = await userDecrypt(
+          granted.map((row) => ({ handle: row.encryptedBalance as Hex, contractAddress: row.address })),
+        );
+      }
+      setAudited({
+        holder,
+        balances: held.map((row) => ({
+          token: row,
+          balance: granted.includes(row) ? BigInt(results[row.encryptedBalance as Hex] ?? 0) : null,
+        })),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Audit failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const grantedCount = audited?.balances.filter((entry) => entry.balance !== null).length ?? 0;
+
+  return (
+    <div className="marketplace">
+      <div className="marketplace-header">
+        <div>
+          <h2 className="marketplace-title">Audit</h2>
+          <p className="marketplace-subtitle">
+            {audited
+              ? `${audited.holder} · Tokens held: ${audited.balances.length} · Viewable by you: ${grantedCount}`
+              : 'Decrypt the balances of a holder who named your wallet as viewer.'}
+          </p>
+        </div>
+
+        <div className="marketplace-controls">
+          <input
+            className="marketplace-input"
+            placeholder="Holder address 0x..."
+            value={holderInput}
+            onChange={(e) => setHolderInput(e.target.value)}
+          />
+          <button className="marketplace-button" onClick={() => void audit()} disabled={isLoading || !address}>
+            {isLoading ? 'Decrypting…' : 'Audit'}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="marketplace-error">{error}</div> : null}
+
+      {audited && audited.balances.length === 0 && !isLoading ? (
+        <div className="marketplace-empty">
+          <div>This address holds none of the factory's tokens.</div>
+        </div>
+      ) : null}
+
+      {audited?.balances.length ? (
+        <table className="portfolio-table">
+          <thead>
+            <tr>
+              <th>Token</th>
+              <th className="portfolio-number">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {audited.balances.map(({ token, balance }) => (
+              <tr key={token.address}>
+                <td>
+                  <div className="portfolio-token-name">
+                    {token.name} <span className="portfolio-token-symbol">({token.symbol})</span>
+                  </div>
+                  <code className="portfolio-token-address">{token.address}</code>
+                </td>
+                <td className="portfolio-number">
+                  {balance === null ? 'Not shared' : formatUnits(balance, token.wrapper?.decimals ?? TOKEN_DECIMALS)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div className="marketplace-footnote">
+        <div>
+          A holder shares a token's balances with one viewer from the token card. The viewer can decrypt the balance
+          held when access was granted and every later one; after the holder revokes access, new balances stay private.
+        </div>
+      </div>
+    </div>
+  );
+}
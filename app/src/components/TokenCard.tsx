@@ -1,11 +1,41 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAccount, usePublicClient } from 'wagmi';
-import { sepolia } from 'wagmi/chains';
 import { Contract, ethers } from 'ethers';
-import { formatEther, formatUnits, type Hex } from 'viem';
+import { formatEther, formatUnits, isAddress, type Hex } from 'viem';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
 import { CONFIDENTIAL_ERC7984_TOKEN_ABI, TOKEN_DECIMALS, type Address } from '../config/contracts';
+import { TokenOwnerPanel } from './TokenOwnerPanel';
+import { SealedBidAuctionPanel } from './SealedBidAuctionPanel';
+import { PrivateSalePanel } from './PrivateSalePanel';
+import { PaymentTokenPanel } from './PaymentTokenPanel';
+import { WrapperPanel } from './WrapperPanel';
+import { ViewerAccessPanel } from './ViewerAccessPanel';
+import { ProveHoldingsPanel } from './ProveHoldingsPanel';
+import { usePaymentUnit } from '../hooks/usePaymentUnit';
+import { formatPrice, paymentTokenOf } from '../utils/paymentToken';
+import { auctionAddressOf, isZeroHandle } from '../utils/tokenRows';
+import { parseContractURI } from '../utils/tokenMetadata';
+import {
+  dutchPriceWei,
+  isDutchAuction,
+  isLinearCurve,
+  pricingCurveName,
+  type PricingCurveName,
+} from '../utils/bondingCurve';
+import {
+  findAllowlistProof,
+  formatCountdown,
+  getSalePhase,
+  nextPhaseChange,
+  OPEN_SALE,
+  SALE_PHASE_LABELS,
+  type CrowdsaleState,
+  type SaleConfig,
+  type SalePhase,
+} from '../utils/saleSchedule';
 import '../styles/TokenCard.css';
 
 export type TokenRow = {
@@ -17,6 +47,26 @@ export type TokenRow = {
   totalSupplyClear: bigint;
   pricePerTokenWei: bigint;
   encryptedBalance?: Hex;
+  contractURI?: string;
+  saleConfig?: SaleConfig;
+  remainingAllowance?: bigint;
+  crowdsaleState?: CrowdsaleState;
+  totalRaisedWei?: bigint;
+  contributedWei?: bigint;
+  currentPricePerTokenWei?: bigint;
+  // Set for tokens sold by a sealed-bid auction instead of `buy`.
+  distributor?: Address;
+  // Set for ERC20 wrappers, which have no sale: their supply comes from wrapping the underlying ERC20.
+  wrapper?: WrapperInfo;
+};
+
+export type WrapperInfo = {
+  underlying: Address;
+  underlyingSymbol: string;
+  underlyingDecimals: number;
+  decimals: number;
+  // Underlying base units per wrapped base unit.
+  rate: bigint;
 };
 
 type Props = {
@@ -25,37 +75,161 @@ type Props = {
   onRefresh: () => void;
 };
 
+// The sale price kept by the token and the protocol fee added on top of it by the factory.
+type BuyQuote = {
+  costWei: bigint;
+  feeWei: bigint;
+};
+
 const MAX_UINT64 = (1n << 64n) - 1n;
-const ZERO_HANDLE = `0x${'0'.repeat(64)}` as Hex;
+const MAX_SLIPPAGE_PERCENT = 50;
+const BPS_DENOMINATOR = 10_000n;
+
+const COUNTDOWN_LABELS: Record<SalePhase, string> = {
+  'not-started': 'Starts in',
+  allowlist: 'Public sale in',
+  public: 'Ends in',
+  ended: '',
+};
+
+const PRICE_LABELS: Record<PricingCurveName, string> = {
+  flat: 'Price',
+  linear: 'Current price (bonding curve)',
+  dutch: 'Current price (Dutch auction)',
+};
+
+const CROWDSALE_STATUS: Record<CrowdsaleState, string> = {
+  none: '',
+  active: 'Proceeds stay in escrow and tokens cannot be transferred until the sale is finalized.',
+  succeeded: 'Soft cap met: proceeds were released to the owner and transfers are unlocked.',
+  failed: 'Soft cap missed: buyers can reclaim their ETH and purchased tokens return to inventory.',
+};
 
-function isZeroHandle(value: Hex) {
-  return value.toLowerCase() === ZERO_HANDLE;
+function currentUnixSeconds() {
+  return BigInt(Math.floor(Date.now() / 1000));
 }
 
 export function TokenCard({ token, isMine, onRefresh }: Props) {
   const { address } = useAccount();
-  const publicClient = usePublicClient({ chainId: sepolia.id });
+  const publicClient = usePublicClient();
   const signerPromise = useEthersSigner();
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const { userDecrypt, isReady: decryptionReady } = useDecryptionSession();
 
   const [buyAmountTokens, setBuyAmountTokens] = useState('1');
+  const [slippagePercent, setSlippagePercent] = useState('1');
+  const [deadlineMinutes, setDeadlineMinutes] = useState('20');
   const [isBuying, setIsBuying] = useState(false);
   const [buyError, setBuyError] = useState<string | null>(null);
   const [lastBuyTx, setLastBuyTx] = useState<string | null>(null);
+  const [allowlistProof, setAllowlistProof] = useState<Hex[] | null>(null);
+  const [allowlistError, setAllowlistError] = useState<string | null>(null);
+  const [buyQuote, setBuyQuote] = useState<BuyQuote | null>(null);
+
+  const [isSettling, setIsSettling] = useState(false);
+  const [settleError, setSettleError] = useState<string | null>(null);
+  const [lastSettleTx, setLastSettleTx] = useState<string | null>(null);
+
+  const [transferTo, setTransferTo] = useState('');
+  const [transferAmountTokens, setTransferAmountTokens] = useState('');
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [transferError, setTransferError] = useState<string | null>(null);
+  const [lastTransferTx, setLastTransferTx] = useState<string | null>(null);
 
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [decryptError, setDecryptError] = useState<string | null>(null);
   const [decryptedBalance, setDecryptedBalance] = useState<bigint | null>(null);
 
+  const wrapper = token.wrapper;
+  const decimals = wrapper?.decimals ?? TOKEN_DECIMALS;
   const saleRemainingDisplay = useMemo(
     () => formatUnits(token.remainingForSaleClear, TOKEN_DECIMALS),
     [token.remainingForSaleClear],
   );
   const totalSupplyDisplay = useMemo(
-    () => formatUnits(token.totalSupplyClear, TOKEN_DECIMALS),
-    [token.totalSupplyClear],
+    () => formatUnits(token.totalSupplyClear, decimals),
+    [token.totalSupplyClear, decimals],
   );
-  const priceDisplay = useMemo(() => formatEther(token.pricePerTokenWei), [token.pricePerTokenWei]);
+  const { metadata, externalUri } = useMemo(() => parseContractURI(token.contractURI), [token.contractURI]);
+  const isOwner = !!address && address.toLowerCase() === token.owner.toLowerCase();
+  const auction = auctionAddressOf(token);
+
+  const sale = token.saleConfig ?? OPEN_SALE;
+  const crowdsale = token.crowdsaleState ?? 'none';
+  const [nowSeconds, setNowSeconds] = useState(currentUnixSeconds);
+  const phase = getSalePhase(sale, nowSeconds, crowdsale);
+  // A Dutch auction's price moves every second, so it is derived from the local clock rather than the last load.
+  const currentPriceWei = isDutchAuction(sale)
+    ? dutchPriceWei(token.pricePerTokenWei, sale, nowSeconds)
+    : (token.currentPricePerTokenWei ?? token.pricePerTokenWei);
+  // Tokens sold for an ERC-7984 payment token quote prices in its units and sell their whole supply encrypted.
+  const paymentToken = paymentTokenOf(sale);
+  const unit = usePaymentUnit(paymentToken);
+  const priceDisplay = useMemo(() => (unit ? formatPrice(currentPriceWei, unit) : '…'), [currentPriceWei, unit]);
+  const transfersLocked = crowdsale === 'active' || crowdsale === 'failed';
+  const canFinalize = crowdsale === 'active' && (nowSeconds >= sale.endTime || token.remainingForSaleClear === 0n);
+  const raisedWei = token.totalRaisedWei ?? 0n;
+  const softCapPercent = sale.softCapWei > 0n ? Number((raisedWei * 100n) / sale.softCapWei) : 0;
+  const phaseEndsAt = nextPhaseChange(sale, phase);
+
+  useEffect(() => {
+    if (phaseEndsAt === null) return;
+    const timer = window.setInterval(() => setNowSeconds(currentUnixSeconds()), 1000);
+    return () => window.clearInterval(timer);
+  }, [phaseEndsAt]);
+
+  useEffect(() => {
+    setAllowlistProof(null);
+    setAllowlistError(null);
+  }, [address]);
+
+  const sellsForEth = !auction && !paymentToken && !wrapper;
+  useEffect(() => {
+    setBuyQuote(null);
+    if (!sellsForEth || !publicClient) return;
+    let amountBase: bigint;
+    try {
+      amountBase = ethers.parseUnits(buyAmountTokens, TOKEN_DECIMALS);
+    } catch {
+      return;
+    }
+    if (amountBase <= 0n || amountBase > token.remainingForSaleClear) return;
+
+    let cancelled = false;
+    publicClient
+      .readContract({
+        address: token.address,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'quoteBuyWithFee',
+        args: [amountBase],
+      })
+      .then((result) => {
+        const [costWei, feeWei] = result as readonly [bigint, bigint];
+        if (!cancelled) setBuyQuote({ costWei, feeWei });
+      })
+      .catch(() => {
+        // Tokens launched before protocol fees have no fee breakdown; the buy still quotes them.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    sellsForEth,
+    publicClient,
+    token.address,
+    token.remainingForSaleClear,
+    token.currentPricePerTokenWei,
+    buyAmountTokens,
+  ]);
+
+  const loadAllowlistFile = async (file: File | undefined) => {
+    setAllowlistError(null);
+    setAllowlistProof(null);
+    if (!file || !address) return;
+    const result = findAllowlistProof(await file.text(), sale.allowlistRoot, address);
+    if ('error' in result) setAllowlistError(result.error);
+    else setAllowlistProof(result.proof);
+  };
 
   const buy = async () => {
     setBuyError(null);
@@ -89,6 +263,31 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
       setBuyError('Not enough remaining supply for sale.');
       return;
     }
+    if (phase === 'not-started' || phase === 'ended') {
+      setBuyError(phase === 'ended' ? 'The sale has ended.' : 'The sale has not started yet.');
+      return;
+    }
+    if (phase === 'allowlist' && !allowlistProof) {
+      setBuyError('Only allowlisted wallets can buy right now; load the allowlist file to continue.');
+      return;
+    }
+    if (token.remainingAllowance !== undefined && amountBase > token.remainingAllowance) {
+      setBuyError(
+        `Amount exceeds your remaining allowance (${formatUnits(token.remainingAllowance, TOKEN_DECIMALS)}).`,
+      );
+      return;
+    }
+
+    const slippage = Number(slippagePercent);
+    if (!Number.isFinite(slippage) || slippage < 0 || slippage > MAX_SLIPPAGE_PERCENT) {
+      setBuyError(`Slippage must be between 0 and ${MAX_SLIPPAGE_PERCENT}%.`);
+      return;
+    }
+    const deadlineMins = Number(deadlineMinutes);
+    if (!Number.isInteger(deadlineMins) || deadlineMins <= 0) {
+      setBuyError('Deadline must be a whole number of minutes.');
+      return;
+    }
 
     setIsBuying(true);
     try {
@@ -105,8 +304,18 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
         return;
       }
 
+      // Send the slippage-adjusted maximum; the contract charges only the quote at execution and refunds the rest.
+      const slippageBps = BigInt(Math.round(slippage * 100));
+      const maxWei = (requiredWei * (BPS_DENOMINATOR + slippageBps) + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineMins * 60);
+
       const contract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
-      const tx = await contract.buy(amountBase, { value: requiredWei });
+      const tx =
+        phase === 'allowlist' && allowlistProof
+          ? await contract['buy(uint64,uint256,uint256,bytes32[])'](amountBase, maxWei, deadline, allowlistProof, {
+              value: maxWei,
+            })
+          : await contract['buy(uint64,uint256,uint256)'](amountBase, maxWei, deadline, { value: maxWei });
       setLastBuyTx(tx.hash);
       await tx.wait();
       onRefresh();
@@ -117,6 +326,103 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
     }
   };
 
+  const settleCrowdsale = async (action: 'finalize' | 'refund') => {
+    setSettleError(null);
+    setLastSettleTx(null);
+
+    if (!signerPromise) {
+      setSettleError('Connect your wallet first.');
+      return;
+    }
+
+    setIsSettling(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setSettleError('Signer not available.');
+        return;
+      }
+
+      const contract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      const tx = action === 'finalize' ? await contract.finalizeSale() : await contract.claimRefund();
+      setLastSettleTx(tx.hash);
+      await tx.wait();
+      setDecryptedBalance(null);
+      onRefresh();
+    } catch (err) {
+      setSettleError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  const transfer = async () => {
+    setTransferError(null);
+    setLastTransferTx(null);
+
+    if (!address) {
+      setTransferError('Connect your wallet to send tokens.');
+      return;
+    }
+    if (!instance || zamaLoading || zamaError) {
+      setTransferError(zamaError ?? 'Encryption service not ready.');
+      return;
+    }
+    if (!signerPromise) {
+      setTransferError('Signer not available.');
+      return;
+    }
+
+    const recipient = transferTo.trim();
+    if (!isAddress(recipient)) {
+      setTransferError('Enter a valid recipient address.');
+      return;
+    }
+    if (recipient.toLowerCase() === address.toLowerCase()) {
+      setTransferError('Recipient must be a different address.');
+      return;
+    }
+
+    let amountBase: bigint;
+    try {
+      amountBase = ethers.parseUnits(transferAmountTokens, decimals);
+    } catch {
+      setTransferError('Amount must be a number.');
+      return;
+    }
+    if (amountBase <= 0n || amountBase > MAX_UINT64) {
+      setTransferError('Amount must fit in uint64 and be greater than 0.');
+      return;
+    }
+
+    setIsTransferring(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setTransferError('Signer not available.');
+        return;
+      }
+
+      const encryptedInput = await instance.createEncryptedInput(token.address, address).add64(amountBase).encrypt();
+
+      const contract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      const tx = await contract['confidentialTransfer(address,bytes32,bytes)'](
+        recipient,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+      );
+      setLastTransferTx(tx.hash);
+      await tx.wait();
+      setTransferAmountTokens('');
+      setDecryptedBalance(null);
+      onRefresh();
+    } catch (err) {
+      setTransferError(err instanceof Error ? err.message : 'Transfer failed.');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
   const decryptBalance = async () => {
     setDecryptError(null);
     setDecryptedBalance(null);
@@ -129,12 +435,8 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
       setDecryptError('Public client not available.');
       return;
     }
-    if (!instance || zamaLoading || zamaError) {
-      setDecryptError(zamaError ?? 'Encryption service not ready.');
-      return;
-    }
-    if (!signerPromise) {
-      setDecryptError('Signer not available.');
+    if (!decryptionReady) {
+      setDecryptError('Encryption service not ready.');
       return;
     }
 
@@ -152,35 +454,8 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
         return;
       }
 
-      const signer = await signerPromise;
-      if (!signer) throw new Error('Signer not available.');
-
-      const keypair = instance.generateKeypair();
-      const handleContractPairs = [{ handle: encryptedBalance, contractAddress: token.address }];
-      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '10';
-      const contractAddresses = [token.address];
-
-      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message,
-      );
-
-      const result = await instance.userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
-        address,
-        startTimeStamp,
-        durationDays,
-      );
-
-      const clearValue = result[encryptedBalance] ?? '0';
-      setDecryptedBalance(BigInt(clearValue));
+      const result = await userDecrypt([{ handle: encryptedBalance, contractAddress: token.address }]);
+      setDecryptedBalance(BigInt(result[encryptedBalance] ?? 0));
     } catch (err) {
       setDecryptError(err instanceof Error ? err.message : 'Decrypt failed.');
     } finally {
@@ -191,55 +466,263 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
   return (
     <div className="token-card-shell">
       <div className="token-card-head">
-        <div>
+        {metadata?.image ? <img className="token-card-logo" src={metadata.image} alt="" /> : null}
+        <div className="token-card-heading">
           <div className="token-card-name">
             {token.name} <span className="token-card-symbol">({token.symbol})</span>
           </div>
           <div className="token-card-address">
-            <code className="token-code">{token.address}</code>
+            <Link to={`/token/${token.address}`} title="Open the token page">
+              <code className="token-code">{token.address}</code>
+            </Link>
           </div>
         </div>
         {isMine ? <span className="token-badge">Created by you</span> : null}
       </div>
 
-      <div className="token-card-stats">
-        <div className="token-stat">
-          <div className="token-stat-label">Price</div>
-          <div className="token-stat-value">{priceDisplay} ETH / token</div>
+      {metadata?.description || metadata?.website || externalUri ? (
+        <div className="token-card-metadata">
+          {metadata?.description ? <p className="token-card-description">{metadata.description}</p> : null}
+          {metadata?.website ? (
+            <a className="token-card-link" href={metadata.website} target="_blank" rel="noopener noreferrer nofollow">
+              {metadata.website}
+            </a>
+          ) : null}
+          {externalUri ? (
+            <div className="token-muted">
+              Metadata: <code className="token-code">{externalUri}</code>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {wrapper ? (
+        <div className="token-card-stats">
+          <div className="token-stat">
+            <div className="token-stat-label">Wraps</div>
+            <div className="token-stat-value">{wrapper.underlyingSymbol}</div>
+            <div className="token-muted">
+              <code className="token-code">{wrapper.underlying}</code>
+            </div>
+          </div>
+          <div className="token-stat">
+            <div className="token-stat-label">Wrapped in total</div>
+            <div className="token-stat-value">
+              {totalSupplyDisplay} {token.symbol}
+            </div>
+          </div>
+          <div className="token-stat">
+            <div className="token-stat-label">Created by</div>
+            <div className="token-stat-value">
+              <code className="token-code">{token.owner}</code>
+            </div>
+          </div>
         </div>
-        <div className="token-stat">
-          <div className="token-stat-label">For sale</div>
-          <div className="token-stat-value">
-            {saleRemainingDisplay} / {totalSupplyDisplay}
+      ) : (
+        <div className="token-card-stats">
+          <div className="token-stat">
+            <div className="token-stat-label">{PRICE_LABELS[pricingCurveName(sale)]}</div>
+            <div className="token-stat-value">{priceDisplay} / token</div>
+            {isLinearCurve(sale) ? (
+              <div className="token-muted">
+                Rises from {formatEther(token.pricePerTokenWei)} to {formatEther(sale.endPricePerTokenWei)} ETH as the
+                supply sells
+              </div>
+            ) : null}
+            {isDutchAuction(sale) && unit ? (
+              <div className="token-muted">
+                Falls from {formatUnits(token.pricePerTokenWei, unit.decimals)} to{' '}
+                {formatPrice(sale.endPricePerTokenWei, unit)} by{' '}
+                {new Date(Number(sale.endTime) * 1000).toLocaleString()}
+              </div>
+            ) : null}
           </div>
+          <div className="token-stat">
+            <div className="token-stat-label">For sale</div>
+            <div className="token-stat-value">
+              {paymentToken ? 'Encrypted' : saleRemainingDisplay} / {totalSupplyDisplay}
+            </div>
+          </div>
+          <div className="token-stat">
+            <div className="token-stat-label">Owner</div>
+            <div className="token-stat-value">
+              <code className="token-code">{token.owner}</code>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {auction || wrapper ? null : (
+        <div className="token-card-sale">
+          <span className={`token-sale-phase token-sale-phase-${phase}`}>{SALE_PHASE_LABELS[phase]}</span>
+          {phaseEndsAt !== null ? (
+            <span className="token-muted">
+              {COUNTDOWN_LABELS[phase]} {formatCountdown(phaseEndsAt - nowSeconds)}
+            </span>
+          ) : null}
+          {sale.maxPerWallet > 0n ? (
+            <span className="token-muted">
+              {token.remainingAllowance !== undefined
+                ? `Your allowance: ${formatUnits(token.remainingAllowance, TOKEN_DECIMALS)} of ${formatUnits(sale.maxPerWallet, TOKEN_DECIMALS)}`
+                : `Limit: ${formatUnits(sale.maxPerWallet, TOKEN_DECIMALS)} per wallet`}
+            </span>
+          ) : null}
         </div>
-        <div className="token-stat">
-          <div className="token-stat-label">Owner</div>
-          <div className="token-stat-value">
-            <code className="token-code">{token.owner}</code>
+      )}
+
+      {crowdsale !== 'none' ? (
+        <div className="token-card-section">
+          <div className="token-section-title">Soft-cap sale</div>
+          <div className="token-progress">
+            <div className="token-progress-bar" style={{ width: `${Math.min(softCapPercent, 100)}%` }} />
+          </div>
+          <div className="token-muted">
+            Raised {formatEther(raisedWei)} of {formatEther(sale.softCapWei)} ETH ({softCapPercent}%)
           </div>
+          <div className="token-muted">{CROWDSALE_STATUS[crowdsale]}</div>
+          <div className="token-balance-actions">
+            {canFinalize ? (
+              <button
+                className="token-secondary"
+                onClick={() => void settleCrowdsale('finalize')}
+                disabled={isSettling}
+              >
+                {isSettling ? 'Finalizing…' : 'Finalize sale'}
+              </button>
+            ) : null}
+            {crowdsale === 'failed' && (token.contributedWei ?? 0n) > 0n ? (
+              <button className="token-secondary" onClick={() => void settleCrowdsale('refund')} disabled={isSettling}>
+                {isSettling ? 'Claiming…' : `Claim refund (${formatEther(token.contributedWei ?? 0n)} ETH)`}
+              </button>
+            ) : null}
+          </div>
+          {settleError ? <div className="token-error">{settleError}</div> : null}
+          {lastSettleTx ? (
+            <div className="token-result">
+              Transaction: <code className="token-code">{lastSettleTx}</code>
+            </div>
+          ) : null}
         </div>
-      </div>
+      ) : null}
 
-      <div className="token-card-section">
-        <div className="token-section-title">Buy with ETH</div>
-        <div className="token-buy-row">
-          <input
-            className="token-input"
-            value={buyAmountTokens}
-            onChange={(e) => setBuyAmountTokens(e.target.value)}
-            placeholder="Amount (tokens)"
+      {wrapper ? (
+        <WrapperPanel token={token} wrapper={wrapper} onRefresh={onRefresh} />
+      ) : auction ? (
+        <SealedBidAuctionPanel auction={auction} onRefresh={onRefresh} />
+      ) : paymentToken ? (
+        unit ? (
+          <PaymentTokenPanel
+            token={token}
+            paymentToken={paymentToken}
+            unit={unit}
+            disabled={phase === 'not-started' || phase === 'ended'}
+            onRefresh={onRefresh}
           />
-          <button className="token-primary" onClick={() => void buy()} disabled={isBuying}>
-            {isBuying ? 'Buying…' : 'Buy'}
-          </button>
+        ) : null
+      ) : (
+        <div className="token-card-section">
+          <div className="token-section-title">Buy with ETH</div>
+          {phase === 'allowlist' && address ? (
+            <label className="token-setting">
+              Allowlist file (JSON from the token creator)
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => void loadAllowlistFile(e.target.files?.[0])}
+              />
+              {allowlistProof ? <span className="token-muted">Your address is on the allowlist.</span> : null}
+            </label>
+          ) : null}
+          {allowlistError ? <div className="token-error">{allowlistError}</div> : null}
+          <div className="token-buy-row">
+            <input
+              className="token-input"
+              value={buyAmountTokens}
+              onChange={(e) => setBuyAmountTokens(e.target.value)}
+              placeholder="Amount (tokens)"
+            />
+            <button
+              className="token-primary"
+              onClick={() => void buy()}
+              disabled={isBuying || phase === 'not-started' || phase === 'ended'}
+            >
+              {isBuying ? 'Buying…' : 'Buy'}
+            </button>
+          </div>
+          {buyQuote ? (
+            <div className="token-muted">
+              {buyQuote.feeWei > 0n
+                ? `${formatEther(buyQuote.costWei)} ETH + ${formatEther(buyQuote.feeWei)} ETH protocol fee = ${formatEther(buyQuote.costWei + buyQuote.feeWei)} ETH`
+                : `${formatEther(buyQuote.costWei)} ETH, no protocol fee`}
+            </div>
+          ) : null}
+          <div className="token-buy-settings">
+            <label className="token-setting">
+              Max slippage (%)
+              <input
+                className="token-input token-input-small"
+                value={slippagePercent}
+                onChange={(e) => setSlippagePercent(e.target.value)}
+              />
+            </label>
+            <label className="token-setting">
+              Deadline (min)
+              <input
+                className="token-input token-input-small"
+                value={deadlineMinutes}
+                onChange={(e) => setDeadlineMinutes(e.target.value)}
+              />
+            </label>
+          </div>
+          {buyError ? <div className="token-error">{buyError}</div> : null}
+          {lastBuyTx ? (
+            <div className="token-result">
+              Transaction: <code className="token-code">{lastBuyTx}</code>
+            </div>
+          ) : null}
         </div>
-        {buyError ? <div className="token-error">{buyError}</div> : null}
-        {lastBuyTx ? (
-          <div className="token-result">
-            Transaction: <code className="token-code">{lastBuyTx}</code>
+      )}
+
+      {auction || paymentToken || wrapper ? null : (
+        <PrivateSalePanel token={token} isOwner={isOwner} onRefresh={onRefresh} />
+      )}
+
+      <div className="token-card-section">
+        <div className="token-section-title">Send (confidential transfer)</div>
+        {transfersLocked ? (
+          <div className="token-muted">Transfers are locked until the soft cap is met.</div>
+        ) : address ? (
+          <div className="token-transfer">
+            <input
+              className="token-input"
+              value={transferTo}
+              onChange={(e) => setTransferTo(e.target.value)}
+              placeholder="Recipient 0x..."
+            />
+            <div className="token-buy-row">
+              <input
+                className="token-input"
+                value={transferAmountTokens}
+                onChange={(e) => setTransferAmountTokens(e.target.value)}
+                placeholder="Amount (tokens)"
+              />
+              <button className="token-primary" onClick={() => void transfer()} disabled={isTransferring}>
+                {isTransferring ? 'Sending…' : 'Send'}
+              </button>
+            </div>
+            <div className="token-muted">
+              The amount is encrypted in your browser. Sending more than your balance transfers 0.
+            </div>
+            {transferError ? <div className="token-error">{transferError}</div> : null}
+            {lastTransferTx ? (
+              <div className="token-result">
+                Transaction: <code className="token-code">{lastTransferTx}</code>
+              </div>
+            ) : null}
           </div>
-        ) : null}
+        ) : (
+          <div className="token-muted">Connect your wallet to send tokens.</div>
+        )}
       </div>
 
       <div className="token-card-section">
@@ -256,7 +739,7 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
               </button>
               {decryptedBalance !== null ? (
                 <div className="token-balance-clear">
-                  Clear: <strong>{formatUnits(decryptedBalance, TOKEN_DECIMALS)}</strong>
+                  Clear: <strong>{formatUnits(decryptedBalance, decimals)}</strong>
                 </div>
               ) : null}
             </div>
@@ -266,7 +749,12 @@ export function TokenCard({ token, isMine, onRefresh }: Props) {
           <div className="token-muted">Connect your wallet to view and decrypt your balance.</div>
         )}
       </div>
+
+      {address ? <ViewerAccessPanel token={token} /> : null}
+
+      {address ? <ProveHoldingsPanel token={token} decimals={decimals} disabled={transfersLocked} /> : null}
+
+      {isOwner && !wrapper ? <TokenOwnerPanel token={token} onRefresh={onRefresh} /> : null}
     </div>
   );
 }
-
@@ -1,16 +1,51 @@
 import { useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
-import { useAccount } from 'wagmi';
-import { Contract, ethers } from 'ethers';
+import { Link } from 'react-router-dom';
+import { useAccount, useChainId } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
 import { isAddress } from 'viem';
 import { useEthersSigner } from '../hooks/useEthersSigner';
-import { CONFIDENTIAL_TOKEN_FACTORY_ABI, DEFAULT_FACTORY_ADDRESS, type Address } from '../config/contracts';
+import { usePaymentUnit } from '../hooks/usePaymentUnit';
+import { useFactoryFees } from '../hooks/useFactoryFees';
+import { CONFIDENTIAL_TOKEN_FACTORY_ABI, getFactoryAddress, TOKEN_DECIMALS, type Address } from '../config/contracts';
+import {
+  buildContractURI,
+  byteLength,
+  MAX_CONTRACT_URI_BYTES,
+  validateMetadata,
+  type TokenMetadata,
+} from '../utils/tokenMetadata';
+import { isBytes32, parseLocalDateTime, validateSaleConfig, ZERO_ROOT, type SaleConfig } from '../utils/saleSchedule';
+import { PRICING_CURVE, type PricingCurveName } from '../utils/bondingCurve';
+import { ZERO_ADDRESS } from '../utils/paymentToken';
+import { TokenMetadataFields } from './TokenMetadataFields';
+import { BondingCurveChart } from './BondingCurveChart';
 import '../styles/TokenCreate.css';
 
 const DEFAULT_TOTAL_SUPPLY = '100000000000';
 const DEFAULT_PRICE_PER_TOKEN_ETH = '0.0001';
 const MAX_UINT64 = (1n << 64n) - 1n;
 
+type SaleType = 'fixed' | 'auction';
+
+const INCOMPATIBLE_FACTORY =
+  'This address is not a current ConfidentialTokenFactory: it has no protocol fees, so it predates the createToken ' +
+  'and createAuction this form sends and cannot create tokens. Deploy a current factory (npm run deploy:sepolia) ' +
+  'and enter its address.';
+
+function parseEtherOrNull(value: string): bigint | null {
+  try {
+    return ethers.parseEther(value.trim());
+  } catch {
+    return null;
+  }
+}
+
+// Basis points as a percentage, e.g. 250 -> "2.5".
+function formatBps(bps: bigint): string {
+  return (Number(bps) / 100).toString();
+}
+
 function normalizeAddress(value: string): Address | null {
   if (!value) return null;
   if (!isAddress(value)) return null;
@@ -19,25 +54,59 @@ function normalizeAddress(value: string): Address | null {
 
 export function TokenCreate() {
   const { address } = useAccount();
+  const chainId = useChainId();
   const signerPromise = useEthersSigner();
 
-  const [factoryAddressInput, setFactoryAddressInput] = useState<string>(DEFAULT_FACTORY_ADDRESS ?? '');
+  const [factoryAddressInput, setFactoryAddressInput] = useState<string>(getFactoryAddress(chainId) ?? '');
   const factoryAddress = useMemo(() => normalizeAddress(factoryAddressInput.trim()), [factoryAddressInput]);
+  const factoryFees = useFactoryFees(factoryAddress);
+  const fees = factoryFees.status === 'ready' ? factoryFees.fees : null;
+  const factoryIncompatible = factoryFees.status === 'incompatible';
 
   const [name, setName] = useState('');
   const [symbol, setSymbol] = useState('');
   const [totalSupply, setTotalSupply] = useState(DEFAULT_TOTAL_SUPPLY);
   const [priceEth, setPriceEth] = useState(DEFAULT_PRICE_PER_TOKEN_ETH);
+  const [saleType, setSaleType] = useState<SaleType>('fixed');
+  const [curve, setCurve] = useState<PricingCurveName>('flat');
+  const [endPriceEth, setEndPriceEth] = useState('');
+  const [metadata, setMetadata] = useState<TokenMetadata>({});
+
+  const [saleStart, setSaleStart] = useState('');
+  const [saleEnd, setSaleEnd] = useState('');
+  const [publicStart, setPublicStart] = useState('');
+  const [maxPerWalletTokens, setMaxPerWalletTokens] = useState('');
+  const [allowlistRoot, setAllowlistRoot] = useState('');
+  const [softCapEth, setSoftCapEth] = useState('');
+  const [paymentTokenInput, setPaymentTokenInput] = useState('');
+  const paymentToken = useMemo(() => normalizeAddress(paymentTokenInput.trim()), [paymentTokenInput]);
+  const paymentUnit = usePaymentUnit(saleType === 'fixed' ? paymentToken : null);
+  const priceSymbol = paymentUnit?.symbol ?? '…';
+
+  const curvePreview = useMemo(() => {
+    const startPriceWei = parseEtherOrNull(priceEth);
+    const endPriceWei = parseEtherOrNull(endPriceEth);
+    let supply: bigint;
+    try {
+      supply = BigInt(totalSupply.trim());
+    } catch {
+      return null;
+    }
+    if (startPriceWei === null || endPriceWei === null || endPriceWei < startPriceWei || supply <= 0n) return null;
+    return { startPriceWei, endPriceWei, supply };
+  }, [priceEth, endPriceEth, totalSupply]);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [createdToken, setCreatedToken] = useState<Address | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
+  const [createdAuction, setCreatedAuction] = useState<Address | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const submit = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
     setCreatedToken(null);
+    setCreatedAuction(null);
     setTxHash(null);
 
     if (!address || !signerPromise) {
@@ -48,6 +117,10 @@ export function TokenCreate() {
       setError('Enter a valid factory address.');
       return;
     }
+    if (!fees) {
+      setError(factoryIncompatible ? INCOMPATIBLE_FACTORY : 'Still reading the factory, try again in a moment.');
+      return;
+    }
     const trimmedName = name.trim();
     const trimmedSymbol = symbol.trim();
     if (!trimmedName || !trimmedSymbol) {
@@ -67,14 +140,144 @@ export function TokenCreate() {
       return;
     }
 
+    if (saleType === 'fixed' && paymentTokenInput.trim() && !paymentToken) {
+      setError('Enter a valid payment token address, or leave it empty to sell for ETH.');
+      return;
+    }
+    if (!paymentUnit) {
+      setError('The payment token could not be read; it must be an ERC-7984 token.');
+      return;
+    }
+    const parsePrice = (value: string) => ethers.parseUnits(value.trim(), paymentUnit.decimals);
+
     let priceWei: bigint;
     try {
-      priceWei = ethers.parseEther(priceEth);
+      priceWei = parsePrice(priceEth);
     } catch {
-      setError('Price must be a valid ETH value (example: 0.0001).');
+      setError(`Price must be a valid ${paymentUnit.symbol} value (example: 0.0001).`);
+      return;
+    }
+
+    const metadataError = validateMetadata(metadata);
+    if (metadataError) {
+      setError(metadataError);
+      return;
+    }
+    const contractURI = buildContractURI(trimmedName, metadata);
+    if (byteLength(contractURI) > MAX_CONTRACT_URI_BYTES) {
+      setError('Metadata is too large; shorten the description or use a logo URL instead of a file.');
+      return;
+    }
+
+    if (saleType === 'auction') {
+      const biddingEnd = parseLocalDateTime(saleEnd);
+      if (!biddingEnd) {
+        setError('A sealed-bid auction needs a bidding end.');
+        return;
+      }
+      if (biddingEnd <= BigInt(Math.floor(Date.now() / 1000))) {
+        setError('The bidding end must be in the future.');
+        return;
+      }
+      if (priceWei > MAX_UINT64) {
+        setError('Reserve price must fit in uint64 wei.');
+        return;
+      }
+      await sendCreate(
+        (factory, value) =>
+          factory.createAuction(trimmedName, trimmedSymbol, supply, contractURI, biddingEnd, priceWei, { value }),
+        'AuctionCreated',
+      );
       return;
     }
 
+    let endPricePerTokenWei = 0n;
+    if (curve !== 'flat') {
+      let parsed: bigint;
+      try {
+        parsed = parsePrice(endPriceEth);
+      } catch {
+        setError(`${curve === 'dutch' ? 'Floor' : 'End'} price must be a valid ${paymentUnit.symbol} value.`);
+        return;
+      }
+      if (curve === 'linear' && parsed < priceWei) {
+        setError('End price must not be below the start price.');
+        return;
+      }
+      if (curve === 'dutch' && parsed > priceWei) {
+        setError('Floor price must not be above the start price.');
+        return;
+      }
+      endPricePerTokenWei = parsed;
+    }
+
+    const startTime = parseLocalDateTime(saleStart);
+    const endTime = parseLocalDateTime(saleEnd);
+    const publicStartTime = allowlistRoot.trim() ? parseLocalDateTime(publicStart) : 0n;
+    if (startTime === null || endTime === null || publicStartTime === null) {
+      setError('Sale dates must be valid dates.');
+      return;
+    }
+    const root = allowlistRoot.trim() || ZERO_ROOT;
+    if (!isBytes32(root)) {
+      setError('Allowlist root must be a 32-byte hex value (0x + 64 hex characters).');
+      return;
+    }
+    let maxPerWallet = 0n;
+    if (maxPerWalletTokens.trim()) {
+      try {
+        maxPerWallet = ethers.parseUnits(maxPerWalletTokens.trim(), TOKEN_DECIMALS);
+      } catch {
+        setError('Per-wallet cap must be a number of tokens.');
+        return;
+      }
+      if (maxPerWallet <= 0n || maxPerWallet > MAX_UINT64) {
+        setError('Per-wallet cap must fit in uint64 and be greater than 0.');
+        return;
+      }
+    }
+    let softCapWei = 0n;
+    if (softCapEth.trim()) {
+      try {
+        softCapWei = ethers.parseEther(softCapEth.trim());
+      } catch {
+        setError('Soft cap must be a valid ETH value.');
+        return;
+      }
+    }
+    const saleConfig: SaleConfig = {
+      startTime,
+      endTime,
+      publicStartTime,
+      maxPerWallet,
+      allowlistRoot: root,
+      softCapWei,
+      curve: PRICING_CURVE[curve],
+      endPricePerTokenWei,
+      paymentToken: paymentToken ?? ZERO_ADDRESS,
+    };
+    if (curve === 'dutch' && (startTime === 0n || endTime === 0n)) {
+      setError('A Dutch auction needs a sale start and end to decay the price over.');
+      return;
+    }
+    const saleError = validateSaleConfig(saleConfig);
+    if (saleError) {
+      setError(saleError);
+      return;
+    }
+
+    await sendCreate(
+      (factory, value) =>
+        factory.createToken(trimmedName, trimmedSymbol, supply, priceWei, contractURI, saleConfig, { value }),
+      'TokenCreated',
+    );
+  };
+
+  const sendCreate = async (
+    send: (factory: Contract, value: bigint) => Promise<ContractTransactionResponse>,
+    eventName: 'TokenCreated' | 'AuctionCreated',
+  ) => {
+    if (!signerPromise || !factoryAddress) return;
     setIsSubmitting(true);
     try {
       const signer = await signerPromise;
@@ -84,7 +287,9 @@ export function TokenCreate() {
       }
 
       const factory = new Contract(factoryAddress, CONFIDENTIAL_TOKEN_FACTORY_ABI, signer);
-      const tx = await factory.createToken(trimmedName, trimmedSymbol, supply, priceWei);
+      // Read at submission so a fee change since the page loaded is paid.
+      const creationFeeWei: bigint = await factory.creationFeeWei();
+      const tx = await send(factory, creationFeeWei);
       setTxHash(tx.hash);
       const receipt = await tx.wait();
 
@@ -97,10 +302,11 @@ export function TokenCreate() {
             return null;
           }
         })
-        .find((parsed: any) => parsed?.name === 'TokenCreated');
+        .find((parsed: any) => parsed?.name === eventName);
 
       const tokenAddress = created?.args?.token as Address | undefined;
       setCreatedToken(tokenAddress ?? null);
+      setCreatedAuction((created?.args?.auction as Address | undefined) ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create token.');
     } finally {
@@ -113,12 +319,12 @@ export function TokenCreate() {
       <div className="token-card">
         <h2 className="token-card-title">Create a confidential token</h2>
         <p className="token-card-subtitle">
-          Creates an ERC7984 token and mints the full supply to the token contract for sale.
+          Creates an ERC7984 token and mints the full supply to the token contract for sale, or to a sealed-bid auction.
         </p>
 
         <form onSubmit={submit} className="token-form">
           <label className="token-label">
-            Factory address (Sepolia)
+            Factory address
             <input
               className="token-input"
               placeholder="0x..."
@@ -126,6 +332,7 @@ export function TokenCreate() {
               onChange={(e) => setFactoryAddressInput(e.target.value)}
             />
           </label>
+          {factoryIncompatible ? <div className="token-error">{INCOMPATIBLE_FACTORY}</div> : null}
 
           <div className="token-grid">
             <label className="token-label">
@@ -147,13 +354,191 @@ export function TokenCreate() {
             </label>
 
             <label className="token-label">
-              Price per 1 token (ETH)
+              {saleType === 'auction'
+                ? 'Reserve price per 1 token (ETH)'
+                : curve === 'flat'
+                  ? `Price per 1 token (${priceSymbol})`
+                  : `Start price per 1 token (${priceSymbol})`}
               <input className="token-input" value={priceEth} onChange={(e) => setPriceEth(e.target.value)} />
-              <span className="token-hint">This price is for 1 token (1e6 base units).</span>
+              <span className="token-hint">
+                {saleType === 'auction'
+                  ? 'Lowest clearing price; bids below it count as zero.'
+                  : 'This price is for 1 token (1e6 base units).'}
+              </span>
             </label>
           </div>
 
-          <button className="token-primary" type="submit" disabled={isSubmitting}>
+          <label className="token-label">
+            Sale type
+            <select className="token-input" value={saleType} onChange={(e) => setSaleType(e.target.value as SaleType)}>
+              <option value="fixed">Fixed-price sale</option>
+              <option value="auction">Sealed-bid auction</option>
+            </select>
+            <span className="token-hint">
+              A sealed-bid auction collects encrypted bids until the bidding end, then sells the whole supply at one
+              clearing price; only that price is ever revealed.
+            </span>
+          </label>
+
+          {saleType === 'fixed' ? (
+            <div className="token-grid">
+              <label className="token-label">
+                Pricing
+                <select
+                  className="token-input"
+                  value={curve}
+                  onChange={(e) => setCurve(e.target.value as PricingCurveName)}
+                >
+                  <option value="flat">Flat price</option>
+                  <option value="linear">Linear bonding curve</option>
+                  <option value="dutch">Dutch auction</option>
+                </select>
+                <span className="token-hint">
+                  A bonding curve raises the price linearly from the start price to the end price as the supply sells; a
+                  Dutch auction lowers it from the start price to a floor between the sale start and end.
+                </span>
+              </label>
+
+              <label className="token-label">
+                Payment token (optional)
+                <input
+                  className="token-input"
+                  placeholder="0x... (empty: ETH)"
+                  value={paymentTokenInput}
+                  onChange={(e) => setPaymentTokenInput(e.target.value)}
+                />
+                <span className="token-hint">
+                  An ERC-7984 token such as cUSDT. Buyers then pay in it with encrypted amounts and the payment goes
+                  straight to you; bonding curves, per-wallet caps and soft caps are not available.
+                </span>
+              </label>
+
+              {curve === 'linear' ? (
+                <label className="token-label">
+                  End price per 1 token ({priceSymbol})
+                  <input className="token-input" value={endPriceEth} onChange={(e) => setEndPriceEth(e.target.value)} />
+                  <span className="token-hint">Price of the last token; must not be below the start price.</span>
+                </label>
+              ) : null}
+              {curve === 'dutch' ? (
+                <label className="token-label">
+                  Floor price per 1 token ({priceSymbol})
+                  <input className="token-input" value={endPriceEth} onChange={(e) => setEndPriceEth(e.target.value)} />
+                  <span className="token-hint">
+                    Price reached at the sale end; requires a sale start and end and must not be above the start price.
+                  </span>
+                </label>
+              ) : null}
+            </div>
+          ) : null}
+
+          {saleType === 'fixed' && curve === 'linear' && curvePreview ? <BondingCurveChart {...curvePreview} /> : null}
+
+          <TokenMetadataFields value={metadata} onChange={setMetadata} disabled={isSubmitting} />
+
+          {saleType === 'auction' ? (
+            <label className="token-label">
+              Bidding end
+              <input
+                className="token-input"
+                type="datetime-local"
+                value={saleEnd}
+                onChange={(e) => setSaleEnd(e.target.value)}
+              />
+              <span className="token-hint">
+                After it anyone can settle the auction in batches; winners then claim their tokens and unspent deposits.
+              </span>
+            </label>
+          ) : (
+            <>
+              <div className="token-grid">
+                <label className="token-label">
+                  Sale start (optional)
+                  <input
+                    className="token-input"
+                    type="datetime-local"
+                    value={saleStart}
+                    onChange={(e) => setSaleStart(e.target.value)}
+                  />
+                  <span className="token-hint">Empty: the sale opens immediately.</span>
+                </label>
+
+                <label className="token-label">
+                  Sale end (optional)
+                  <input
+                    className="token-input"
+                    type="datetime-local"
+                    value={saleEnd}
+                    onChange={(e) => setSaleEnd(e.target.value)}
+                  />
+                  <span className="token-hint">Empty: the sale never closes.</span>
+                </label>
+              </div>
+
+              <div className="token-grid">
+                <label className="token-label">
+                  Per-wallet cap (tokens, optional)
+                  <input
+                    className="token-input"
+                    value={maxPerWalletTokens}
+                    onChange={(e) => setMaxPerWalletTokens(e.target.value)}
+                  />
+                  <span className="token-hint">Maximum amount a single wallet can buy.</span>
+                </label>
+
+                <label className="token-label">
+                  Allowlist Merkle root (optional)
+                  <input
+                    className="token-input"
+                    placeholder="0x..."
+                    value={allowlistRoot}
+                    onChange={(e) => setAllowlistRoot(e.target.value)}
+                  />
+                  <span className="token-hint">
+                    Build it from a CSV with <code className="token-code">npx hardhat task:allowlist:build</code> and
+                    share the proofs file with allowlisted buyers.
+                  </span>
+                </label>
+              </div>
+
+              <label className="token-label">
+                Soft cap (ETH, optional)
+                <input className="token-input" value={softCapEth} onChange={(e) => setSoftCapEth(e.target.value)} />
+                <span className="token-hint">
+                  Requires a sale end. Proceeds stay in escrow and tokens cannot be transferred until the sale is
+                  finalized; if the soft cap is missed, buyers can reclaim their ETH.
+                </span>
+              </label>
+
+              {allowlistRoot.trim() ? (
+                <label className="token-label">
+                  Public sale start
+                  <input
+                    className="token-input"
+                    type="datetime-local"
+                    value={publicStart}
+                    onChange={(e) => setPublicStart(e.target.value)}
+                  />
+                  <span className="token-hint">Until then only allowlisted wallets can buy.</span>
+                </label>
+              ) : null}
+            </>
+          )}
+
+          {fees ? (
+            <div className="token-hint">
+              {fees.creationFeeWei > 0n
+                ? `Creation fee: ${ethers.formatEther(fees.creationFeeWei)} ETH, paid with this transaction.`
+                : 'No creation fee.'}{' '}
+              {fees.purchaseFeeBps === 0n
+                ? 'No protocol fee on sales.'
+                : saleType === 'fixed' && !paymentToken
+                ? `Buyers pay a ${formatBps(fees.purchaseFeeBps)}% protocol fee on top of your price; it goes to the platform, not to you. Private sales pay it out of your proceeds.`
+                : `A ${formatBps(fees.purchaseFeeBps)}% protocol fee on each sale goes to the platform, out of your proceeds.`}
+            </div>
+          ) : null}
+
+          <button className="token-primary" type="submit" disabled={isSubmitting || factoryIncompatible}>
             {isSubmitting ? 'Creating…' : 'Create Token'}
           </button>
         </form>
@@ -173,6 +558,14 @@ export function TokenCreate() {
             <div>
               Token address: <code className="token-code">{createdToken}</code>
             </div>
+            <Link className="token-card-link" to={`/token/${createdToken}`}>
+              Open the token page →
+            </Link>
+            {createdAuction ? (
+              <div>
+                Auction address: <code className="token-code">{createdAuction}</code>
+              </div>
+            ) : null}
           </div>
         ) : null}
       </div>
@@ -0,0 +1,351 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { formatEther, formatUnits, isAddress } from 'viem';
+import QRCode from 'qrcode';
+import {
+  getFactoryAddress,
+  getFactoryDeploymentBlock,
+  getLensAddress,
+  TOKEN_DECIMALS,
+  type Address,
+} from '../config/contracts';
+import { INDEXER_URL } from '../config/indexer';
+import { TokenCard, type TokenRow } from './TokenCard';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import {
+  auctionAddressOf,
+  factoryListingOf,
+  loadTokenRow,
+  loadWrapperRow,
+  type FactoryListing,
+} from '../utils/tokenRows';
+import { fetchSalesFromIndexer, loadSalesFromLogs, SALES_HISTORY_LIMIT, type Sale } from '../utils/salesHistory';
+import { tokenCreationBlock } from '../utils/tokenLogs';
+import { paymentTokenOf } from '../utils/paymentToken';
+import { parseContractURI } from '../utils/tokenMetadata';
+import { pricingCurveName, type PricingCurveName } from '../utils/bondingCurve';
+import '../styles/TokenMarketplace.css';
+import '../styles/TokenPortfolio.css';
+import '../styles/TokenDetail.css';
+
+const PRICING_LABELS: Record<PricingCurveName, string> = {
+  flat: 'fixed price',
+  linear: 'linear bonding curve',
+  dutch: 'Dutch auction',
+};
+
+function shortHash(hash: string) {
+  return `${hash.slice(0, 10)}…${hash.slice(-8)}`;
+}
+
+function saleKind(token: TokenRow): string {
+  if (token.wrapper) return 'ERC20 wrapper';
+  if (auctionAddressOf(token)) return 'Sealed-bid auction';
+  if (token.saleConfig && paymentTokenOf(token.saleConfig)) return 'Sold for a payment token';
+  return token.saleConfig ? `Sold for ETH, ${PRICING_LABELS[pricingCurveName(token.saleConfig)]}` : 'Sold for ETH';
+}
+
+/**
+ * Page for a single token at `/token/:address`. Only addresses the chain's factory launched are shown, so a shared
+ * link cannot pass off a look-alike contract as a listed token.
+ */
+export function TokenDetail() {
+  const params = useParams();
+  const tokenAddress = params.address && isAddress(params.address) ? (params.address as Address) : null;
+
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const factoryAddress = getFactoryAddress(chainId);
+  const lensAddress = getLensAddress(chainId);
+  const { registerContracts } = useDecryptionSession();
+
+  // Undefined until the factory was asked; null when it did not launch the address.
+  const [listing, setListing] = useState<FactoryListing | null | undefined>(undefined);
+  const [token, setToken] = useState<TokenRow | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [sales, setSales] = useState<Sale[] | null>(null);
+  const [salesSource, setSalesSource] = useState<'indexer' | 'logs'>('logs');
+  const [salesError, setSalesError] = useState<string | null>(null);
+
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadIdRef = useRef(0);
+
+  const loadToken = useCallback(async () => {
+    setError(null);
+    if (!publicClient || !tokenAddress || !factoryAddress) return;
+
+    const loadId = ++loadIdRef.current;
+    setIsLoading(true);
+    try {
+      const account = address ? (address as Address) : undefined;
+      const tokenListing = await factoryListingOf(publicClient, factoryAddress, tokenAddress);
+      const row =
+        tokenListing === 'token'
+          ? await loadTokenRow(publicClient, tokenAddress, lensAddress, account)
+          : tokenListing === 'wrapper'
+          ? await loadWrapperRow(publicClient, tokenAddress, account)
+          : null;
+
+      if (loadId !== loadIdRef.current) return;
+      setListing(tokenListing);
+      setToken(row);
+    } catch (err) {
+      if (loadId !== loadIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load the token.');
+    } finally {
+      if (loadId === loadIdRef.current) setIsLoading(false);
+    }
+  }, [address, factoryAddress, lensAddress, publicClient, tokenAddress]);
+
+  const loadSales = useCallback(async () => {
+    setSalesError(null);
+    if (!publicClient || !tokenAddress || !factoryAddress || listing !== 'token') return;
+
+    if (INDEXER_URL) {
+      try {
+        setSales(await fetchSalesFromIndexer(INDEXER_URL, tokenAddress));
+        setSalesSource('indexer');
+        return;
+      } catch (err) {
+        console.warn('Indexer unavailable, reading the sales history from logs:', err);
+      }
+    }
+    try {
+      const fromBlock = await tokenCreationBlock(
+        publicClient,
+        factoryAddress,
+        getFactoryDeploymentBlock(chainId),
+        tokenAddress,
+        INDEXER_URL,
+      );
+      setSales(await loadSalesFromLogs(publicClient, tokenAddress, fromBlock));
+      setSalesSource('logs');
+    } catch (err) {
+      setSalesError(err instanceof Error ? err.message : 'Failed to load the sales history.');
+    }
+  }, [chainId, factoryAddress, listing, publicClient, tokenAddress]);
+
+  useEffect(() => {
+    setListing(undefined);
+    setToken(null);
+    setSales(null);
+    void loadToken();
+  }, [loadToken]);
+
+  useEffect(() => {
+    void loadSales();
+  }, [loadSales]);
+
+  useEffect(() => {
+    if (token) registerContracts([token.address]);
+  }, [registerContracts, token]);
+
+  const shareUrl = tokenAddress ? `${window.location.origin}/token/${tokenAddress}` : null;
+
+  useEffect(() => {
+    setQrDataUrl(null);
+    if (!shareUrl) return;
+    let cancelled = false;
+    QRCode.toDataURL(shareUrl, { margin: 1, width: 176 })
+      .then((dataUrl) => {
+        if (!cancelled) setQrDataUrl(dataUrl);
+      })
+      .catch((err) => console.warn('QR code generation failed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [shareUrl]);
+
+  const copyShareUrl = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const refresh = () => {
+    void loadToken();
+    void loadSales();
+  };
+
+  const { metadata, externalUri } = useMemo(() => parseContractURI(token?.contractURI), [token?.contractURI]);
+  const isMine = !!token && !!address && token.owner.toLowerCase() === address.toLowerCase();
+
+  if (!tokenAddress) {
+    return (
+      <div className="marketplace">
+        <div className="marketplace-error">“{params.address}” is not a valid token address.</div>
+        <Link className="token-detail-back" to="/market">
+          ← Back to the marketplace
+        </Link>
+      </div>
+    );
+  }
+
+  if (!factoryAddress) {
+    return (
+      <div className="marketplace">
+        <div className="marketplace-warning">
+          No `ConfidentialTokenFactory` is configured for this network, so the token cannot be checked. Switch to a
+          network with a deployment.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="marketplace">
+      <div className="marketplace-header">
+        <div>
+          <Link className="token-detail-back" to="/market">
+            ← Marketplace
+          </Link>
+          <h2 className="marketplace-title">{token ? `${token.name} (${token.symbol})` : 'Token'}</h2>
+          <p className="marketplace-subtitle">
+            <code className="token-code">{tokenAddress}</code>
+          </p>
+        </div>
+        <div className="marketplace-controls">
+          <button className="marketplace-button" onClick={refresh} disabled={isLoading}>
+            {isLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="marketplace-error">{error}</div> : null}
+
+      {listing === null ? (
+        <div className="marketplace-empty">
+          <div>This address was not launched by the factory on this network.</div>
+          <div className="marketplace-empty-hint">
+            It may be a token on another network, or a contract imitating a listed token. Only tokens and wrappers
+            created through <code className="token-code">{factoryAddress}</code> are shown here.
+          </div>
+        </div>
+      ) : null}
+
+      {token ? (
+        <div className="token-detail-layout">
+          <div className="token-detail-main">
+            <TokenCard token={token} isMine={isMine} onRefresh={refresh} />
+
+            {listing === 'token' ? (
+              <section className="token-detail-section">
+                <h3 className="token-detail-heading">Sales history</h3>
+                {salesError ? <div className="marketplace-error">{salesError}</div> : null}
+                {sales === null && !salesError ? <div className="token-muted">Loading sales…</div> : null}
+                {sales?.length === 0 ? (
+                  <div className="token-muted">
+                    No purchases through <code className="token-code">buy</code> yet.
+                    {auctionAddressOf(token) || (token.saleConfig && paymentTokenOf(token.saleConfig))
+                      ? ' This token is not sold for ETH, so its sales are not listed here.'
+                      : null}
+                  </div>
+                ) : null}
+                {sales && sales.length > 0 ? (
+                  <>
+                    <table className="portfolio-table">
+                      <thead>
+                        <tr>
+                          <th>Buyer</th>
+                          <th className="portfolio-number">Amount</th>
+                          <th className="portfolio-number">Cost (ETH)</th>
+                          <th className="portfolio-number">Block</th>
+                          <th>Transaction</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sales.map((sale) => (
+                          <tr key={sale.key}>
+                            <td>
+                              <code className="portfolio-token-address">{sale.buyer}</code>
+                            </td>
+                            <td className="portfolio-number">{formatUnits(sale.amount, TOKEN_DECIMALS)}</td>
+                            <td className="portfolio-number">{formatEther(sale.requiredWei)}</td>
+                            <td className="portfolio-number">{sale.blockNumber.toString()}</td>
+                            <td>
+                              <code className="portfolio-token-address">{shortHash(sale.txHash)}</code>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="token-muted">
+                      Latest {Math.min(sales.length, SALES_HISTORY_LIMIT)} purchases ·{' '}
+                      {salesSource === 'indexer' ? 'via indexer' : 'read from logs'} · Cost excludes the protocol fee.
+                    </div>
+                  </>
+                ) : null}
+              </section>
+            ) : null}
+          </div>
+
+          <aside className="token-detail-side">
+            <section className="token-detail-section">
+              <h3 className="token-detail-heading">Details</h3>
+              <dl className="token-detail-facts">
+                <dt>Type</dt>
+                <dd>{saleKind(token)}</dd>
+                <dt>{token.wrapper ? 'Creator' : 'Owner'}</dt>
+                <dd>
+                  <code className="token-code">{token.owner}</code>
+                </dd>
+                <dt>Factory</dt>
+                <dd>
+                  <code className="token-code">{factoryAddress}</code>
+                </dd>
+                {auctionAddressOf(token) ? (
+                  <>
+                    <dt>Auction</dt>
+                    <dd>
+                      <code className="token-code">{auctionAddressOf(token)}</code>
+                    </dd>
+                  </>
+                ) : null}
+                <dt>Metadata</dt>
+                <dd>
+                  {externalUri ? (
+                    <code className="token-code">{externalUri}</code>
+                  ) : metadata ? (
+                    'Stored on-chain'
+                  ) : (
+                    'None'
+                  )}
+                </dd>
+                {metadata?.website ? (
+                  <>
+                    <dt>Website</dt>
+                    <dd>
+                      <a href={metadata.website} target="_blank" rel="noopener noreferrer nofollow">
+                        {metadata.website}
+                      </a>
+                    </dd>
+                  </>
+                ) : null}
+              </dl>
+            </section>
+
+            <section className="token-detail-section">
+              <h3 className="token-detail-heading">Share</h3>
+              {qrDataUrl ? <img className="token-detail-qr" src={qrDataUrl} alt={`QR code for ${shareUrl}`} /> : null}
+              <code className="token-code token-detail-share-url">{shareUrl}</code>
+              <button className="token-secondary" onClick={() => void copyShareUrl()}>
+                {copied ? 'Copied' : 'Copy link'}
+              </button>
+            </section>
+          </aside>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,9 +1,38 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useAccount, usePublicClient } from 'wagmi';
-import { isAddress, type Hex, formatEther, formatUnits } from 'viem';
-import { sepolia } from 'wagmi/chains';
-import { DEFAULT_FACTORY_ADDRESS, type Address, CONFIDENTIAL_TOKEN_FACTORY_ABI, CONFIDENTIAL_ERC7984_TOKEN_ABI, TOKEN_DECIMALS } from '../config/contracts';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { isAddress, formatEther, formatUnits, parseEther } from 'viem';
+import {
+  CONFIDENTIAL_TOKEN_FACTORY_ABI,
+  getFactoryAddress,
+  getLensAddress,
+  type Address,
+  TOKEN_DECIMALS,
+} from '../config/contracts';
+import { INDEXER_URL } from '../config/indexer';
 import { TokenCard, type TokenRow } from './TokenCard';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import {
+  fetchTokenPageFromIndexer,
+  loadFactoryTokenAddresses,
+  loadFactoryWrapperAddresses,
+  loadNewestFactoryTokens,
+  loadRowPerToken,
+  loadRowsForTokens,
+  loadRowsViaLens,
+  loadWrapperRow,
+  type TokenReadClient,
+} from '../utils/tokenRows';
+import {
+  DEFAULT_MARKETPLACE_QUERY,
+  MARKETPLACE_PAGE_SIZE,
+  MARKETPLACE_SORT_LABELS,
+  queryMarketplace,
+  queryNeedsAllRows,
+  SALE_STATUS_LABELS,
+  splitMarketplacePage,
+  type MarketplaceSort,
+  type SaleStatusFilter,
+} from '../utils/marketplace';
 import '../styles/TokenMarketplace.css';
 
 function normalizeAddress(value: string): Address | null {
@@ -12,134 +41,279 @@ function normalizeAddress(value: string): Address | null {
   return value as Address;
 }
 
+// An empty or invalid bound means no limit.
+function parseEtherOrNull(value: string): bigint | null {
+  if (!value.trim()) return null;
+  try {
+    return parseEther(value.trim());
+  } catch {
+    return null;
+  }
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Addresses only, in factory order; enough to count the listing and mark your own cards.
+async function loadListing(publicClient: TokenReadClient, factoryAddress: Address, account: Address | undefined) {
+  const [tokenCount, wrappers, myTokens, myWrappers] = await Promise.all([
+    publicClient.readContract({
+      address: factoryAddress,
+      abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+      functionName: 'allTokensLength',
+    }),
+    loadFactoryWrapperAddresses(publicClient, factoryAddress),
+    account ? loadFactoryTokenAddresses(publicClient, factoryAddress, account) : [],
+    account ? loadFactoryWrapperAddresses(publicClient, factoryAddress, account) : [],
+  ]);
+  return { tokenCount: Number(tokenCount), wrappers, myTokens, myWrappers };
+}
+
 export function TokenMarketplace() {
   const { address } = useAccount();
-  const publicClient = usePublicClient({ chainId: sepolia.id });
+  const publicClient = usePublicClient();
+
+  const chainId = useChainId();
+  const decryptionSession = useDecryptionSession();
+  const lensAddress = getLensAddress(chainId);
 
-  const [factoryAddressInput, setFactoryAddressInput] = useState<string>(DEFAULT_FACTORY_ADDRESS ?? '');
+  const [factoryAddressInput, setFactoryAddressInput] = useState<string>(getFactoryAddress(chainId) ?? '');
   const factoryAddress = useMemo(() => normalizeAddress(factoryAddressInput.trim()), [factoryAddressInput]);
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [tokens, setTokens] = useState<TokenRow[]>([]);
+  // Every row when the query needs them all, otherwise null and only the rows on the page are loaded.
+  const [allRows, setAllRows] = useState<TokenRow[] | null>(null);
+  const [pageRows, setPageRows] = useState<TokenRow[]>([]);
+  const [pageTotal, setPageTotal] = useState(0);
+  const [listedCount, setListedCount] = useState(0);
   const [myTokenAddresses, setMyTokenAddresses] = useState<Set<Address>>(new Set());
+  const [listSource, setListSource] = useState<'factory' | 'indexer'>('factory');
+  const [indexerReachable, setIndexerReachable] = useState(!!INDEXER_URL);
+
+  const [search, setSearch] = useState(DEFAULT_MARKETPLACE_QUERY.search);
+  const [pagedSearch, setPagedSearch] = useState(DEFAULT_MARKETPLACE_QUERY.search);
+  const [sort, setSort] = useState<MarketplaceSort>(DEFAULT_MARKETPLACE_QUERY.sort);
+  const [onlyMine, setOnlyMine] = useState(DEFAULT_MARKETPLACE_QUERY.onlyMine);
+  const [status, setStatus] = useState<SaleStatusFilter>(DEFAULT_MARKETPLACE_QUERY.status);
+  const [minPriceEth, setMinPriceEth] = useState('');
+  const [maxPriceEth, setMaxPriceEth] = useState('');
+  const [page, setPage] = useState(0);
+
+  const minPriceWei = useMemo(() => parseEtherOrNull(minPriceEth), [minPriceEth]);
+  const maxPriceWei = useMemo(() => parseEtherOrNull(maxPriceEth), [maxPriceEth]);
+  const query = useMemo(
+    () => ({ search, sort, onlyMine, status, minPriceWei, maxPriceWei }),
+    [search, sort, onlyMine, status, minPriceWei, maxPriceWei],
+  );
+  // Only the indexer can search without reading every token.
+  const readsAllRows = queryNeedsAllRows(query) || (!!search.trim() && !indexerReachable);
 
   const loadIdRef = useRef(0);
 
-  const loadTokens = useCallback(async () => {
+  // Reports a missing client or factory address; returns the load id to check results against otherwise.
+  const startLoad = useCallback(() => {
     setError(null);
     if (!publicClient) {
       setError('Public client not available.');
-      return;
+      return null;
     }
     if (!factoryAddress) {
       setError('Enter a valid factory address.');
-      return;
+      return null;
     }
-
-    const loadId = ++loadIdRef.current;
     setIsLoading(true);
+    return ++loadIdRef.current;
+  }, [factoryAddress, publicClient]);
+
+  const finishLoad = useCallback((loadId: number, err?: unknown) => {
+    if (loadId !== loadIdRef.current) return;
+    if (err !== undefined) setError(err instanceof Error ? err.message : 'Failed to load tokens.');
+    setIsLoading(false);
+  }, []);
+
+  // Reads every token and wrapper, for queries that filter or sort on live sale state.
+  const loadAllTokens = useCallback(async () => {
+    const loadId = startLoad();
+    if (loadId === null || !publicClient || !factoryAddress) return;
     try {
-      const [allTokens, myTokens] = await Promise.all([
-        publicClient.readContract({
-          address: factoryAddress,
-          abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
-          functionName: 'getAllTokens',
-        }) as Promise<Address[]>,
-        address
-          ? (publicClient.readContract({
-              address: factoryAddress,
-              abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
-              functionName: 'getTokensByCreator',
-              args: [address as Address],
-            }) as Promise<Address[]>)
-          : Promise.resolve([] as Address[]),
-      ]);
-
-      const mySet = new Set<Address>(myTokens);
-      const unique = Array.from(new Set<Address>([...allTokens, ...myTokens]));
-
-      const rows = await Promise.all(
-        unique.map(async (tokenAddress) => {
-          const [tokenName, tokenSymbol, tokenOwner, remainingForSaleClear, totalSupplyClear, pricePerTokenWei, encryptedBalance] =
-            await Promise.all([
-              publicClient.readContract({
-                address: tokenAddress,
-                abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                functionName: 'name',
-              }) as Promise<string>,
-              publicClient.readContract({
-                address: tokenAddress,
-                abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                functionName: 'symbol',
-              }) as Promise<string>,
-              publicClient.readContract({
-                address: tokenAddress,
-                abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                functionName: 'owner',
-              }) as Promise<Address>,
-              publicClient.readContract({
-                address: tokenAddress,
-                abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                functionName: 'remainingForSaleClear',
-              }) as Promise<bigint>,
-              publicClient.readContract({
-                address: tokenAddress,
-                abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                functionName: 'totalSupplyClear',
-              }) as Promise<bigint>,
-              publicClient.readContract({
-                address: tokenAddress,
-                abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                functionName: 'pricePerTokenWei',
-              }) as Promise<bigint>,
-              address
-                ? (publicClient.readContract({
-                    address: tokenAddress,
-                    abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
-                    functionName: 'confidentialBalanceOf',
-                    args: [address as Address],
-                  }) as Promise<Hex>)
-                : Promise.resolve(null),
-            ]);
-
-          return {
-            address: tokenAddress,
-            name: tokenName,
-            symbol: tokenSymbol,
-            owner: tokenOwner,
-            remainingForSaleClear,
-            totalSupplyClear,
-            pricePerTokenWei,
-            encryptedBalance: encryptedBalance ?? undefined,
-          } satisfies TokenRow;
-        }),
-      );
+      const account = address ? (address as Address) : undefined;
+      const { wrappers, myTokens, myWrappers } = await loadListing(publicClient, factoryAddress, account);
+
+      let rows: TokenRow[] | null = null;
+      if (lensAddress) {
+        try {
+          rows = await loadRowsViaLens(publicClient, lensAddress, factoryAddress, myTokens, account);
+        } catch (err) {
+          console.warn('Lens read failed, falling back to per-token reads:', err);
+        }
+      }
+      if (!rows) {
+        const allTokens = await loadFactoryTokenAddresses(publicClient, factoryAddress);
+        const unique = Array.from(new Set<Address>([...allTokens, ...myTokens]));
+        rows = await Promise.all(unique.map((tokenAddress) => loadRowPerToken(publicClient, tokenAddress, account)));
+      }
+      const tokenCount = rows.length;
+      const wrapperRows = await Promise.all(wrappers.map((wrapper) => loadWrapperRow(publicClient, wrapper, account)));
 
       if (loadId !== loadIdRef.current) return;
+      setMyTokenAddresses(new Set<Address>([...myTokens, ...myWrappers]));
+      setListedCount(tokenCount + wrappers.length);
+      setListSource('factory');
+      setAllRows([...rows, ...wrapperRows]);
+      finishLoad(loadId);
+    } catch (err) {
+      finishLoad(loadId, err);
+    }
+  }, [address, factoryAddress, finishLoad, lensAddress, publicClient, startLoad]);
 
-      rows.sort((a, b) => Number(mySet.has(b.address)) - Number(mySet.has(a.address)));
+  /**
+   * Reads only the cards on the page, newest first: wrappers (which the indexer does not follow) come first, then a
+   * page of tokens from the indexer when it is reachable, or from the factory.
+   */
+  const loadTokenPage = useCallback(async () => {
+    const loadId = startLoad();
+    if (loadId === null || !publicClient || !factoryAddress) return;
+    try {
+      const account = address ? (address as Address) : undefined;
+      const listing = await loadListing(publicClient, factoryAddress, account);
+      const mine = new Set<Address>([...listing.myTokens, ...listing.myWrappers]);
+      const searchText = pagedSearch.trim();
+      const mineOnly = onlyMine && !!account;
+
+      // Wrappers are few; a search reads them all to match their names.
+      const wrappers = onlyMine ? listing.myWrappers : listing.wrappers;
+      const matchingWrappers: (Address | TokenRow)[] = searchText
+        ? queryMarketplace(
+            await Promise.all(wrappers.map((wrapper) => loadWrapperRow(publicClient, wrapper, account))),
+            mine,
+            { ...DEFAULT_MARKETPLACE_QUERY, search: searchText },
+          )
+        : [...wrappers].reverse();
+      const { headStart, headEnd, tailOffset, tailLimit } = splitMarketplacePage(matchingWrappers.length, page);
+      const wrapperRows = await Promise.all(
+        matchingWrappers
+          .slice(headStart, headEnd)
+          .map((wrapper) =>
+            typeof wrapper === 'string' ? loadWrapperRow(publicClient, wrapper, account) : Promise.resolve(wrapper),
+          ),
+      );
+
+      let tokens: { total: number; rows: TokenRow[] } | null = null;
+      let source: 'factory' | 'indexer' = 'factory';
+      if (onlyMine && !account) {
+        tokens = { total: 0, rows: [] };
+      } else if (INDEXER_URL && indexerReachable) {
+        try {
+          const indexed = await fetchTokenPageFromIndexer(INDEXER_URL, factoryAddress, {
+            search: searchText,
+            creator: mineOnly ? account : undefined,
+            offset: tailOffset,
+            limit: tailLimit,
+          });
+          tokens = {
+            total: indexed.total,
+            rows: await loadRowsForTokens(publicClient, lensAddress, indexed.tokens, account),
+          };
+          source = 'indexer';
+        } catch (err) {
+          console.warn('Indexer unavailable, reading the token list from the factory:', err);
+          // Without the indexer a search reads every token, which the next render starts.
+          if (loadId === loadIdRef.current) setIndexerReachable(false);
+          if (searchText) {
+            finishLoad(loadId);
+            return;
+          }
+        }
+      }
+      if (!tokens && mineOnly) {
+        const newestMine = [...listing.myTokens].reverse().slice(tailOffset, tailOffset + tailLimit);
+        tokens = {
+          total: listing.myTokens.length,
+          rows: await loadRowsForTokens(publicClient, lensAddress, newestMine, account),
+        };
+      }
+      if (!tokens) {
+        tokens = await loadNewestFactoryTokens(
+          publicClient,
+          factoryAddress,
+          lensAddress,
+          tailOffset,
+          tailLimit,
+          account,
+        );
+      }
 
-      setMyTokenAddresses(mySet);
-      setTokens(rows);
-    } catch (err) {
       if (loadId !== loadIdRef.current) return;
-      setError(err instanceof Error ? err.message : 'Failed to load tokens.');
-    } finally {
-      if (loadId === loadIdRef.current) setIsLoading(false);
+      setMyTokenAddresses(mine);
+      setListedCount(listing.tokenCount + listing.wrappers.length);
+      setListSource(source);
+      setAllRows(null);
+      setPageRows([...wrapperRows, ...tokens.rows]);
+      setPageTotal(matchingWrappers.length + tokens.total);
+      finishLoad(loadId);
+    } catch (err) {
+      finishLoad(loadId, err);
     }
-  }, [address, factoryAddress, publicClient]);
+  }, [
+    address,
+    factoryAddress,
+    finishLoad,
+    indexerReachable,
+    lensAddress,
+    onlyMine,
+    page,
+    pagedSearch,
+    publicClient,
+    startLoad,
+  ]);
+
+  const loadTokens = readsAllRows ? loadAllTokens : loadTokenPage;
+
+  useEffect(() => {
+    setIndexerReachable(!!INDEXER_URL);
+  }, [factoryAddress]);
+
+  useEffect(() => {
+    if (!factoryAddress || !readsAllRows) return;
+    void loadAllTokens();
+  }, [factoryAddress, loadAllTokens, readsAllRows]);
+
+  useEffect(() => {
+    if (!factoryAddress || readsAllRows) return;
+    void loadTokenPage();
+  }, [factoryAddress, loadTokenPage, readsAllRows]);
 
+  // Paged searches wait for a pause in typing before asking the indexer.
   useEffect(() => {
-    if (!factoryAddress) return;
-    void loadTokens();
-  }, [address, factoryAddress, loadTokens]);
+    const timer = setTimeout(() => setPagedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const matching = useMemo(
+    () => (allRows ? queryMarketplace(allRows, myTokenAddresses, query) : null),
+    [allRows, myTokenAddresses, query],
+  );
+  const matchingCount = matching ? matching.length : pageTotal;
+  const pageCount = Math.max(1, Math.ceil(matchingCount / MARKETPLACE_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = useMemo(
+    () =>
+      matching
+        ? matching.slice(currentPage * MARKETPLACE_PAGE_SIZE, (currentPage + 1) * MARKETPLACE_PAGE_SIZE)
+        : pageRows,
+    [matching, currentPage, pageRows],
+  );
 
-  const stats = useMemo(() => {
-    const total = tokens.length;
-    const mine = tokens.filter((t) => myTokenAddresses.has(t.address)).length;
-    return { total, mine };
-  }, [myTokenAddresses, tokens]);
+  // A new query starts again from the first page.
+  useEffect(() => {
+    setPage(0);
+  }, [search, sort, onlyMine, status, minPriceWei, maxPriceWei]);
+
+  // Registers the cards on screen as they are browsed, so a decryption signature covers the tokens being looked at.
+  const { registerContracts } = decryptionSession;
+  useEffect(() => {
+    registerContracts(visible.map((token) => token.address));
+  }, [registerContracts, visible]);
 
   return (
     <div className="marketplace">
@@ -147,14 +321,23 @@ export function TokenMarketplace() {
         <div>
           <h2 className="marketplace-title">Tokens</h2>
           <p className="marketplace-subtitle">
-            Loaded: {stats.total} tokens · Yours: {stats.mine}
+            Listed: {listedCount} tokens · Yours: {myTokenAddresses.size}
+            {listSource === 'indexer' ? ' · via indexer' : null}
           </p>
+          {decryptionSession.expiresAt ? (
+            <p className="marketplace-subtitle">
+              Decryption session active until {new Date(decryptionSession.expiresAt * 1000).toLocaleString()} ·{' '}
+              <button className="marketplace-link" onClick={decryptionSession.clear}>
+                End session
+              </button>
+            </p>
+          ) : null}
         </div>
 
         <div className="marketplace-controls">
           <input
             className="marketplace-input"
-            placeholder="Factory address (Sepolia) 0x..."
+            placeholder="Factory address 0x..."
             value={factoryAddressInput}
             onChange={(e) => setFactoryAddressInput(e.target.value)}
           />
@@ -170,8 +353,66 @@ export function TokenMarketplace() {
 
       {error ? <div className="marketplace-error">{error}</div> : null}
 
+      {listedCount > 0 ? (
+        <div className="marketplace-filters">
+          <input
+            className="marketplace-input"
+            placeholder="Search name, symbol or address"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <select
+            className="marketplace-select"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as MarketplaceSort)}
+          >
+            {(Object.keys(MARKETPLACE_SORT_LABELS) as MarketplaceSort[]).map((key) => (
+              <option key={key} value={key}>
+                {MARKETPLACE_SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <select
+            className="marketplace-select"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as SaleStatusFilter)}
+          >
+            {(Object.keys(SALE_STATUS_LABELS) as SaleStatusFilter[]).map((key) => (
+              <option key={key} value={key}>
+                {SALE_STATUS_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <input
+            className="marketplace-input marketplace-input-small"
+            placeholder="Min ETH"
+            value={minPriceEth}
+            onChange={(e) => setMinPriceEth(e.target.value)}
+          />
+          <input
+            className="marketplace-input marketplace-input-small"
+            placeholder="Max ETH"
+            value={maxPriceEth}
+            onChange={(e) => setMaxPriceEth(e.target.value)}
+          />
+          <label className="marketplace-checkbox">
+            <input type="checkbox" checked={onlyMine} onChange={(e) => setOnlyMine(e.target.checked)} />
+            Only mine
+          </label>
+        </div>
+      ) : null}
+
+      {listedCount > 0 && matchingCount === 0 && !isLoading ? (
+        <div className="marketplace-empty">
+          <div>No tokens match.</div>
+          <div className="marketplace-empty-hint">
+            Price ranges and sale status only match tokens sold for ETH; wrappers and auctions are left out.
+          </div>
+        </div>
+      ) : null}
+
       <div className="marketplace-grid">
-        {tokens.map((token) => (
+        {visible.map((token) => (
           <TokenCard
             key={token.address}
             token={token}
@@ -181,7 +422,25 @@ export function TokenMarketplace() {
         ))}
       </div>
 
-      {tokens.length === 0 && factoryAddress && !isLoading && !error ? (
+      {pageCount > 1 ? (
+        <div className="marketplace-pagination">
+          <button className="marketplace-button" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+            Previous
+          </button>
+          <span className="marketplace-subtitle">
+            Page {currentPage + 1} of {pageCount} · {matchingCount} matching
+          </span>
+          <button
+            className="marketplace-button"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage === pageCount - 1}
+          >
+            Next
+          </button>
+        </div>
+      ) : null}
+
+      {listedCount === 0 && factoryAddress && !isLoading && !error ? (
         <div className="marketplace-empty">
           <div>No tokens yet.</div>
           <div className="marketplace-empty-hint">
@@ -193,10 +452,10 @@ export function TokenMarketplace() {
       <div className="marketplace-footnote">
         <div>
           Balance handles are encrypted `euint64` values. Click “Decrypt balance” to re-encrypt under your wallet key and
-          reveal the clear balance in your browser.
+          reveal the clear balance in your browser. One signature covers up to 10 listed tokens for 10 days.
         </div>
         <div>
-          Price: {formatEther(tokens[0]?.pricePerTokenWei ?? 0n)} ETH per 1 token · Decimals: {TOKEN_DECIMALS} · Example
+          Price: {formatEther(visible[0]?.pricePerTokenWei ?? 0n)} ETH per 1 token · Decimals: {TOKEN_DECIMALS} · Example
           display: {formatUnits(1_000_000n, TOKEN_DECIMALS)} token
         </div>
       </div>
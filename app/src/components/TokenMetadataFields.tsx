@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { readLogoFile, MAX_DESCRIPTION_LENGTH, sanitizeImage, type TokenMetadata } from '../utils/tokenMetadata';
+
+type Props = {
+  value: TokenMetadata;
+  onChange: (value: TokenMetadata) => void;
+  disabled?: boolean;
+};
+
+export function TokenMetadataFields({ value, onChange, disabled }: Props) {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const logoPreview = sanitizeImage(value.image);
+
+  const onLogoFile = async (file: File | undefined) => {
+    setLogoError(null);
+    if (!file) return;
+    try {
+      onChange({ ...value, image: await readLogoFile(file) });
+    } catch (err) {
+      setLogoError(err instanceof Error ? err.message : 'Failed to read the logo file.');
+    }
+  };
+
+  return (
+    <>
+      <label className="token-label">
+        Description (optional)
+        <textarea
+          className="token-input token-textarea"
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          value={value.description ?? ''}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+          disabled={disabled}
+        />
+      </label>
+
+      <div className="token-grid">
+        <label className="token-label">
+          Website (optional)
+          <input
+            className="token-input"
+            placeholder="https://..."
+            value={value.website ?? ''}
+            onChange={(e) => onChange({ ...value, website: e.target.value })}
+            disabled={disabled}
+          />
+        </label>
+
+        <label className="token-label">
+          Logo URL or small image file (optional)
+          <input
+            className="token-input"
+            placeholder="https://... or choose a file"
+            value={value.image?.startsWith('data:') ? 'Uploaded image' : (value.image ?? '')}
+            onChange={(e) => onChange({ ...value, image: e.target.value })}
+            disabled={disabled || value.image?.startsWith('data:')}
+          />
+          <span className="token-metadata-logo-row">
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp"
+              onChange={(e) => void onLogoFile(e.target.files?.[0])}
+              disabled={disabled}
+            />
+            {value.image ? (
+              <button
+                type="button"
+                className="token-link"
+                onClick={() => onChange({ ...value, image: '' })}
+                disabled={disabled}
+              >
+                Remove
+              </button>
+            ) : null}
+          </span>
+          {logoPreview ? <img className="token-metadata-logo" src={logoPreview} alt="" /> : null}
+          {logoError ? <span className="token-error">{logoError}</span> : null}
+        </label>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,442 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { Contract, ethers } from 'ethers';
+import { formatEther, formatUnits, isAddress } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { usePaymentUnit } from '../hooks/usePaymentUnit';
+import { CONFIDENTIAL_ERC7984_TOKEN_ABI, getFactoryAddress, getFactoryDeploymentBlock } from '../config/contracts';
+import { INDEXER_URL } from '../config/indexer';
+import {
+  buildContractURI,
+  byteLength,
+  MAX_CONTRACT_URI_BYTES,
+  parseContractURI,
+  validateMetadata,
+  type TokenMetadata,
+} from '../utils/tokenMetadata';
+import type { TokenRow } from './TokenCard';
+import { TokenMetadataFields } from './TokenMetadataFields';
+import { pricingCurveName } from '../utils/bondingCurve';
+import { formatPrice, paymentTokenOf } from '../utils/paymentToken';
+import { scanBlocksBackwards, tokenCreationBlock } from '../utils/tokenLogs';
+
+type Props = {
+  token: TokenRow;
+  onRefresh: () => void;
+};
+
+type OwnerEvent = {
+  key: string;
+  kind: 'price' | 'withdraw' | 'metadata';
+  blockNumber: bigint;
+  logIndex: number;
+  txHash: string;
+  detail: string;
+};
+
+const HISTORY_LABELS: Record<OwnerEvent['kind'], string> = {
+  price: 'Price',
+  withdraw: 'Withdraw',
+  metadata: 'Metadata',
+};
+
+export function TokenOwnerPanel({ token, onRefresh }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const signerPromise = useEthersSigner();
+
+  const [balanceWei, setBalanceWei] = useState<bigint | null>(null);
+  const [history, setHistory] = useState<OwnerEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [newPriceEth, setNewPriceEth] = useState('');
+  const [isUpdatingPrice, setIsUpdatingPrice] = useState(false);
+  const [priceError, setPriceError] = useState<string | null>(null);
+
+  const [withdrawTo, setWithdrawTo] = useState('');
+  const [withdrawAmountEth, setWithdrawAmountEth] = useState('');
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
+
+  const [isEditingMetadata, setIsEditingMetadata] = useState(false);
+  const [metadataDraft, setMetadataDraft] = useState<TokenMetadata>({});
+  const [isUpdatingMetadata, setIsUpdatingMetadata] = useState(false);
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const proceedsInEscrow = token.crowdsaleState === 'active' || token.crowdsaleState === 'failed';
+  const unit = usePaymentUnit(token.saleConfig ? paymentTokenOf(token.saleConfig) : null);
+
+  const loadAdminData = useCallback(async () => {
+    if (!publicClient) {
+      setLoadError('Public client not available.');
+      return;
+    }
+    if (!unit) return;
+    const factoryAddress = getFactoryAddress(chainId);
+    if (!factoryAddress) {
+      setLoadError('No ConfidentialTokenFactory is configured for this network, so the token history cannot be read.');
+      return;
+    }
+
+    setLoadError(null);
+    setIsLoading(true);
+    try {
+      const fromBlock = await tokenCreationBlock(
+        publicClient,
+        factoryAddress,
+        getFactoryDeploymentBlock(chainId),
+        token.address,
+        INDEXER_URL,
+      );
+      const readWindow = (windowStart: bigint, windowEnd: bigint) =>
+        Promise.all([
+          publicClient.getContractEvents({
+            address: token.address,
+            abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+            eventName: 'PriceUpdated',
+            fromBlock: windowStart,
+            toBlock: windowEnd,
+          }),
+          publicClient.getContractEvents({
+            address: token.address,
+            abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+            eventName: 'Withdrawn',
+            fromBlock: windowStart,
+            toBlock: windowEnd,
+          }),
+          publicClient.getContractEvents({
+            address: token.address,
+            abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+            eventName: 'ContractURIUpdated',
+            fromBlock: windowStart,
+            toBlock: windowEnd,
+          }),
+        ]);
+      const windows: Awaited<ReturnType<typeof readWindow>>[] = [];
+      await scanBlocksBackwards(publicClient, fromBlock, async (windowStart, windowEnd) => {
+        windows.push(await readWindow(windowStart, windowEnd));
+        return false;
+      });
+      const balance = await publicClient.getBalance({ address: token.address });
+      const priceLogs = windows.flatMap(([prices]) => prices);
+      const withdrawLogs = windows.flatMap(([, withdrawals]) => withdrawals);
+      const metadataLogs = windows.flatMap(([, , metadata]) => metadata);
+
+      const events: OwnerEvent[] = [
+        ...priceLogs.map((log) => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          kind: 'price' as const,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          txHash: log.transactionHash,
+          detail: `${formatUnits(log.args.oldPricePerTokenWei ?? 0n, unit.decimals)} → ${formatPrice(log.args.newPricePerTokenWei ?? 0n, unit)} / token`,
+        })),
+        ...withdrawLogs.map((log) => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          kind: 'withdraw' as const,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          txHash: log.transactionHash,
+          detail: `${formatEther(log.args.amountWei ?? 0n)} ETH to ${log.args.to ?? '?'}`,
+        })),
+        ...metadataLogs.map((log) => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          kind: 'metadata' as const,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          txHash: log.transactionHash,
+          detail: 'Metadata updated',
+        })),
+      ];
+      events.sort((a, b) =>
+        a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : Number(b.blockNumber - a.blockNumber),
+      );
+
+      setBalanceWei(balance);
+      setHistory(events);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load owner data.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chainId, publicClient, token.address, unit]);
+
+  useEffect(() => {
+    void loadAdminData();
+  }, [loadAdminData]);
+
+  useEffect(() => {
+    if (address) setWithdrawTo((current) => current || address);
+  }, [address]);
+
+  const updatePrice = async () => {
+    setPriceError(null);
+    setLastTx(null);
+
+    if (!signerPromise) {
+      setPriceError('Signer not available.');
+      return;
+    }
+
+    if (!unit) {
+      setPriceError('Payment token not loaded yet.');
+      return;
+    }
+    let priceWei: bigint;
+    try {
+      priceWei = ethers.parseUnits(newPriceEth, unit.decimals);
+    } catch {
+      setPriceError(`Price must be a valid ${unit.symbol} value (example: 0.0001).`);
+      return;
+    }
+    if (priceWei === token.pricePerTokenWei) {
+      setPriceError('New price is the same as the current price.');
+      return;
+    }
+
+    setIsUpdatingPrice(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setPriceError('Signer not available.');
+        return;
+      }
+
+      const contract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      const tx = await contract.setPricePerTokenWei(priceWei);
+      setLastTx(tx.hash);
+      await tx.wait();
+      setNewPriceEth('');
+      onRefresh();
+      await loadAdminData();
+    } catch (err) {
+      setPriceError(err instanceof Error ? err.message : 'Price update failed.');
+    } finally {
+      setIsUpdatingPrice(false);
+    }
+  };
+
+  const startEditingMetadata = () => {
+    setMetadataError(null);
+    setMetadataDraft(parseContractURI(token.contractURI).metadata ?? {});
+    setIsEditingMetadata(true);
+  };
+
+  const updateMetadata = async () => {
+    setMetadataError(null);
+    setLastTx(null);
+
+    if (!signerPromise) {
+      setMetadataError('Signer not available.');
+      return;
+    }
+
+    const validationError = validateMetadata(metadataDraft);
+    if (validationError) {
+      setMetadataError(validationError);
+      return;
+    }
+    const contractURI = buildContractURI(token.name, metadataDraft);
+    if (byteLength(contractURI) > MAX_CONTRACT_URI_BYTES) {
+      setMetadataError('Metadata is too large; shorten the description or use a logo URL instead of a file.');
+      return;
+    }
+    if (contractURI === (token.contractURI ?? '')) {
+      setMetadataError('Metadata is unchanged.');
+      return;
+    }
+
+    setIsUpdatingMetadata(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setMetadataError('Signer not available.');
+        return;
+      }
+
+      const contract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      const tx = await contract.setContractURI(contractURI);
+      setLastTx(tx.hash);
+      await tx.wait();
+      setIsEditingMetadata(false);
+      onRefresh();
+      await loadAdminData();
+    } catch (err) {
+      setMetadataError(err instanceof Error ? err.message : 'Metadata update failed.');
+    } finally {
+      setIsUpdatingMetadata(false);
+    }
+  };
+
+  const withdraw = async () => {
+    setWithdrawError(null);
+    setLastTx(null);
+
+    if (!signerPromise) {
+      setWithdrawError('Signer not available.');
+      return;
+    }
+
+    const recipient = withdrawTo.trim();
+    if (!isAddress(recipient) || recipient === ethers.ZeroAddress) {
+      setWithdrawError('Enter a valid recipient address.');
+      return;
+    }
+
+    let amountWei: bigint;
+    try {
+      amountWei = ethers.parseEther(withdrawAmountEth);
+    } catch {
+      setWithdrawError('Amount must be a valid ETH value.');
+      return;
+    }
+    if (amountWei <= 0n) {
+      setWithdrawError('Amount must be greater than 0.');
+      return;
+    }
+    if (balanceWei !== null && amountWei > balanceWei) {
+      setWithdrawError('Amount exceeds the contract balance.');
+      return;
+    }
+
+    setIsWithdrawing(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setWithdrawError('Signer not available.');
+        return;
+      }
+
+      const contract = new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer);
+      const tx = await contract.withdraw(recipient, amountWei);
+      setLastTx(tx.hash);
+      await tx.wait();
+      setWithdrawAmountEth('');
+      await loadAdminData();
+    } catch (err) {
+      setWithdrawError(err instanceof Error ? err.message : 'Withdraw failed.');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Owner controls</div>
+      <div className="token-owner">
+        <div className="token-balance-row">
+          <div className="token-balance-label">Proceeds</div>
+          <div className="token-balance-clear">
+            {balanceWei === null ? '…' : `${formatEther(balanceWei)} ETH`}{' '}
+            <button className="token-link" onClick={() => void loadAdminData()} disabled={isLoading}>
+              {isLoading ? 'Loading…' : 'Reload'}
+            </button>
+          </div>
+        </div>
+        {loadError ? <div className="token-error">{loadError}</div> : null}
+
+        {token.saleConfig && pricingCurveName(token.saleConfig) !== 'flat' ? (
+          <div className="token-muted">The price follows the token's pricing curve and cannot be changed.</div>
+        ) : (
+          <div className="token-buy-row">
+            <input
+              className="token-input"
+              value={newPriceEth}
+              onChange={(e) => setNewPriceEth(e.target.value)}
+              placeholder={`New price per token (${unit?.symbol ?? '…'})`}
+            />
+            <button className="token-secondary" onClick={() => void updatePrice()} disabled={isUpdatingPrice}>
+              {isUpdatingPrice ? 'Updating…' : 'Set price'}
+            </button>
+          </div>
+        )}
+        {priceError ? <div className="token-error">{priceError}</div> : null}
+
+        <input
+          className="token-input"
+          value={withdrawTo}
+          onChange={(e) => setWithdrawTo(e.target.value)}
+          placeholder="Withdraw to 0x..."
+        />
+        <div className="token-buy-row">
+          <input
+            className="token-input"
+            value={withdrawAmountEth}
+            onChange={(e) => setWithdrawAmountEth(e.target.value)}
+            placeholder="Amount (ETH)"
+          />
+          <button
+            className="token-secondary"
+            onClick={() => setWithdrawAmountEth(formatEther(balanceWei ?? 0n))}
+            disabled={!balanceWei}
+          >
+            Max
+          </button>
+          <button
+            className="token-secondary"
+            onClick={() => void withdraw()}
+            disabled={isWithdrawing || proceedsInEscrow}
+          >
+            {isWithdrawing ? 'Withdrawing…' : 'Withdraw'}
+          </button>
+        </div>
+        {proceedsInEscrow ? (
+          <div className="token-muted">
+            {token.crowdsaleState === 'active'
+              ? 'Proceeds are held in escrow until the soft-cap sale is finalized successfully.'
+              : 'The soft cap was missed; proceeds are reserved for buyer refunds.'}
+          </div>
+        ) : null}
+        {withdrawError ? <div className="token-error">{withdrawError}</div> : null}
+
+        {isEditingMetadata ? (
+          <div className="token-owner">
+            <TokenMetadataFields value={metadataDraft} onChange={setMetadataDraft} disabled={isUpdatingMetadata} />
+            <div className="token-buy-row">
+              <button className="token-secondary" onClick={() => void updateMetadata()} disabled={isUpdatingMetadata}>
+                {isUpdatingMetadata ? 'Saving…' : 'Save metadata'}
+              </button>
+              <button className="token-link" onClick={() => setIsEditingMetadata(false)} disabled={isUpdatingMetadata}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <button className="token-link" onClick={startEditingMetadata}>
+              Edit metadata
+            </button>
+          </div>
+        )}
+        {metadataError ? <div className="token-error">{metadataError}</div> : null}
+
+        {lastTx ? (
+          <div className="token-result">
+            Transaction: <code className="token-code">{lastTx}</code>
+          </div>
+        ) : null}
+
+        <div className="token-history">
+          <div className="token-balance-label">History</div>
+          {history.length === 0 ? (
+            <div className="token-muted">No price, withdrawal or metadata updates yet.</div>
+          ) : (
+            <ul className="token-history-list">
+              {history.map((event) => (
+                <li key={event.key} className="token-history-item">
+                  <span className="token-history-kind">{HISTORY_LABELS[event.kind]}</span>
+                  <span>{event.detail}</span>
+                  <span className="token-muted">block {event.blockNumber.toString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
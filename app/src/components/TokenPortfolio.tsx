@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { formatUnits, type Hex } from 'viem';
+import { getFactoryAddress, getLensAddress, TOKEN_BASE_UNITS, TOKEN_DECIMALS, type Address } from '../config/contracts';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { ETH_UNIT, formatPrice, paymentTokenOf, readPaymentUnit, type PaymentUnit } from '../utils/paymentToken';
+import { isZeroHandle, loadFactoryTokenRows, type TokenReadClient } from '../utils/tokenRows';
+import type { TokenRow } from './TokenCard';
+import '../styles/TokenMarketplace.css';
+import '../styles/TokenPortfolio.css';
+
+type Holding = {
+  token: TokenRow;
+  handle: Hex;
+  balance: bigint;
+  // Currency the token is priced in: null for ETH, else its ERC-7984 payment token.
+  paymentToken: Address | null;
+  unit: PaymentUnit;
+};
+
+/** Total value of the holdings priced in one currency; values in different currencies are never added up. */
+type Subtotal = {
+  unit: PaymentUnit;
+  value: bigint;
+};
+
+function holdingPaymentToken(token: TokenRow) {
+  return token.saleConfig ? paymentTokenOf(token.saleConfig) : null;
+}
+
+function currencyKey(holding: Holding) {
+  return holding.paymentToken?.toLowerCase() ?? '';
+}
+
+// Per whole token, in wei or in base units of the payment token.
+function price(holding: Holding) {
+  return holding.token.currentPricePerTokenWei ?? holding.token.pricePerTokenWei;
+}
+
+function value(holding: Holding) {
+  return (holding.balance * price(holding)) / TOKEN_BASE_UNITS;
+}
+
+// ETH holdings first, then those of each payment token, each by decreasing value.
+function compareHoldings(a: Holding, b: Holding) {
+  if (currencyKey(a) !== currencyKey(b)) return currencyKey(a) < currencyKey(b) ? -1 : 1;
+  return value(b) > value(a) ? 1 : value(b) < value(a) ? -1 : 0;
+}
+
+function subtotals(holdings: Holding[]): Subtotal[] {
+  const byCurrency = new Map<string, Subtotal>();
+  for (const holding of holdings) {
+    const subtotal = byCurrency.get(currencyKey(holding)) ?? { unit: holding.unit, value: 0n };
+    byCurrency.set(currencyKey(holding), { ...subtotal, value: subtotal.value + value(holding) });
+  }
+  return [...byCurrency.values()];
+}
+
+// Units of the distinct payment tokens; one that is not an ERC-7984 token is shown in raw units under its address.
+async function loadPaymentUnits(publicClient: TokenReadClient, rows: TokenRow[]) {
+  const paymentTokens = [...new Set(rows.map(holdingPaymentToken).filter((token): token is Address => !!token))];
+  const units = await Promise.all(
+    paymentTokens.map((token) =>
+      readPaymentUnit(publicClient, token).catch(() => ({ symbol: `${token.slice(0, 8)}…`, decimals: 0 })),
+    ),
+  );
+  return new Map(paymentTokens.map((token, index) => [token, units[index]]));
+}
+
+export function TokenPortfolio() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { userDecrypt, registerContracts, isReady } = useDecryptionSession();
+
+  const factoryAddress = getFactoryAddress(chainId);
+  const lensAddress = getLensAddress(chainId);
+
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastRefresh, setLastRefresh] = useState<{ decrypted: number; reused: number } | null>(null);
+
+  // Clear balances by handle: a balance handle changes whenever the balance does, so unchanged handles are reused.
+  const decryptedRef = useRef<Map<Hex, bigint>>(new Map());
+
+  useEffect(() => {
+    decryptedRef.current = new Map();
+    setHoldings([]);
+    setLastRefresh(null);
+  }, [address]);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    if (!address) {
+      setError('Connect your wallet to see your portfolio.');
+      return;
+    }
+    if (!publicClient) {
+      setError('Public client not available.');
+      return;
+    }
+    if (!factoryAddress) {
+      setError('No ConfidentialTokenFactory deployment is configured for this network.');
+      return;
+    }
+    if (!isReady) {
+      setError('Encryption service not ready.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const rows = await loadFactoryTokenRows(publicClient, factoryAddress, lensAddress, address as Address);
+      const held = rows.filter((row) => row.encryptedBalance && !isZeroHandle(row.encryptedBalance));
+      registerContracts(held.map((row) => row.address));
+
+      const cache = decryptedRef.current;
+      const changed = held.filter((row) => !cache.has(row.encryptedBalance as Hex));
+      if (changed.length) {
+        const results = await userDecrypt(
+          changed.map((row) => ({ handle: row.encryptedBalance as Hex, contractAddress: row.address })),
+        );
+        for (const row of changed) {
+          cache.set(row.encryptedBalance as Hex, BigInt(results[row.encryptedBalance as Hex] ?? 0));
+        }
+      }
+
+      const units = await loadPaymentUnits(publicClient, held);
+      const all = held.map((row): Holding => {
+        const handle = row.encryptedBalance as Hex;
+        const paymentToken = holdingPaymentToken(row);
+        const unit = (paymentToken && units.get(paymentToken)) || ETH_UNIT;
+        return { token: row, handle, balance: cache.get(handle) ?? 0n, paymentToken, unit };
+      });
+      const next = all.filter((holding) => holding.balance > 0n);
+      next.sort(compareHoldings);
+
+      // Keep only current handles so the cache does not grow across refreshes.
+      decryptedRef.current = new Map(all.map((holding) => [holding.handle, holding.balance]));
+      setHoldings(next);
+      setLastRefresh({ decrypted: changed.length, reused: held.length - changed.length });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, factoryAddress, isReady, lensAddress, publicClient, registerContracts, userDecrypt]);
+
+  const totals = useMemo(() => subtotals(holdings), [holdings]);
+
+  return (
+    <div className="marketplace">
+      <div className="marketplace-header">
+        <div>
+          <h2 className="marketplace-title">Portfolio</h2>
+          <p className="marketplace-subtitle">
+            {lastRefresh
+              ? `Holdings: ${holdings.length} · Decrypted ${lastRefresh.decrypted}, unchanged ${lastRefresh.reused}`
+              : 'Decrypt all your balances with a single signature.'}
+          </p>
+        </div>
+
+        <div className="marketplace-controls">
+          <button className="marketplace-button" onClick={() => void refresh()} disabled={isLoading || !address}>
+            {isLoading ? 'Decrypting…' : lastRefresh ? 'Refresh' : 'Decrypt balances'}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="marketplace-error">{error}</div> : null}
+
+      {lastRefresh && holdings.length === 0 && !isLoading ? (
+        <div className="marketplace-empty">
+          <div>No holdings yet.</div>
+          <div className="marketplace-empty-hint">Buy tokens in the marketplace, then refresh.</div>
+        </div>
+      ) : null}
+
+      {holdings.length ? (
+        <table className="portfolio-table">
+          <thead>
+            <tr>
+              <th>Token</th>
+              <th className="portfolio-number">Balance</th>
+              <th className="portfolio-number">Price / token</th>
+              <th className="portfolio-number">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {holdings.map((holding) => (
+              <tr key={holding.token.address}>
+                <td>
+                  <div className="portfolio-token-name">
+                    {holding.token.name} <span className="portfolio-token-symbol">({holding.token.symbol})</span>
+                  </div>
+                  <code className="portfolio-token-address">{holding.token.address}</code>
+                </td>
+                <td className="portfolio-number">{formatUnits(holding.balance, TOKEN_DECIMALS)}</td>
+                <td className="portfolio-number">{formatPrice(price(holding), holding.unit)}</td>
+                <td className="portfolio-number">{formatPrice(value(holding), holding.unit)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            {totals.map((total) => (
+              <tr key={total.unit.symbol}>
+                <td colSpan={3}>{totals.length > 1 ? `Total in ${total.unit.symbol}` : 'Total'}</td>
+                <td className="portfolio-number">{formatPrice(total.value, total.unit)}</td>
+              </tr>
+            ))}
+          </tfoot>
+        </table>
+      ) : null}
+
+      <div className="marketplace-footnote">
+        <div>
+          Values use each token's current sale price, in the currency it is sold for: tokens priced in a payment token
+          such as cUSDT are totaled separately from ETH. Refresh re-reads the encrypted balance handles and only
+          decrypts the ones that changed since the last decrypt.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
+import { isAddress, zeroAddress } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONFIDENTIAL_ERC7984_TOKEN_ABI, type Address } from '../config/contracts';
+import type { TokenRow } from './TokenCard';
+
+type Props = {
+  token: TokenRow;
+};
+
+export function ViewerAccessPanel({ token }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+
+  const [viewer, setViewer] = useState<Address | null>(null);
+  const [viewerInput, setViewerInput] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!publicClient || !address) {
+      setViewer(null);
+      return;
+    }
+    try {
+      const current = (await publicClient.readContract({
+        address: token.address,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'observer',
+        args: [address],
+      })) as Address;
+      setViewer(current === zeroAddress ? null : current);
+    } catch {
+      setViewer(null);
+    }
+  }, [publicClient, token.address, address]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const runTx = async (send: (signer: ethers.Signer) => Promise<ContractTransactionResponse>) => {
+    setError(null);
+    setLastTx(null);
+    if (!signerPromise || !address) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setError('Signer not available.');
+        return;
+      }
+      const tx = await send(signer);
+      setLastTx(tx.hash);
+      await tx.wait();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setObserver = (signer: ethers.Signer, observer: Address) =>
+    new Contract(token.address, CONFIDENTIAL_ERC7984_TOKEN_ABI, signer).setObserver(address, observer);
+
+  const grant = async () => {
+    const input = viewerInput.trim();
+    if (!isAddress(input) || input === zeroAddress) {
+      setError('Enter the viewer address.');
+      return;
+    }
+    await runTx((signer) => setObserver(signer, input));
+    setViewerInput('');
+  };
+
+  const revoke = async () => {
+    await runTx((signer) => setObserver(signer, zeroAddress));
+  };
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Viewer access</div>
+      <div className="token-muted">
+        A viewer such as an auditor can decrypt your balance from now on, including every later balance and the amounts
+        you send or receive, until you revoke access. Revoking does not hide balances they could already see.
+      </div>
+      <div className="token-muted">
+        Current viewer: {viewer ? <code className="token-code">{viewer}</code> : 'none'}
+      </div>
+      <div className="token-buy-row">
+        <input
+          className="token-input"
+          value={viewerInput}
+          onChange={(e) => setViewerInput(e.target.value)}
+          placeholder="Viewer 0x..."
+        />
+        <button className="token-primary" onClick={() => void grant()} disabled={isBusy}>
+          {isBusy ? 'Working…' : viewer ? 'Replace viewer' : 'Grant'}
+        </button>
+      </div>
+      {viewer ? (
+        <div className="token-balance-actions">
+          <button className="token-secondary" onClick={() => void revoke()} disabled={isBusy}>
+            Revoke access
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <div className="token-error">{error}</div> : null}
+      {lastTx ? (
+        <div className="token-result">
+          Transaction: <code className="token-code">{lastTx}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
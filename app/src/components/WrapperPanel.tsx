@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract, ethers, type ContractTransactionResponse } from 'ethers';
+import { erc20Abi, formatUnits, type Hex } from 'viem';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { CONFIDENTIAL_ERC20_WRAPPER_ABI } from '../config/contracts';
+import type { TokenRow, WrapperInfo } from './TokenCard';
+
+type Props = {
+  token: TokenRow;
+  wrapper: WrapperInfo;
+  onRefresh: () => void;
+};
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+export function WrapperPanel({ token, wrapper, onRefresh }: Props) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+
+  const [underlyingBalance, setUnderlyingBalance] = useState<bigint | null>(null);
+  const [wrapAmount, setWrapAmount] = useState('');
+  const [unwrapAmount, setUnwrapAmount] = useState('');
+  // Burnt-amount handle of an unwrap whose finalization has not gone through yet.
+  const [pendingUnwrap, setPendingUnwrap] = useState<Hex | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTx, setLastTx] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!publicClient || !address) {
+      setUnderlyingBalance(null);
+      return;
+    }
+    try {
+      setUnderlyingBalance(
+        await publicClient.readContract({
+          address: wrapper.underlying,
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [address],
+        }),
+      );
+    } catch {
+      setUnderlyingBalance(null);
+    }
+  }, [publicClient, wrapper.underlying, address]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    setPendingUnwrap(null);
+  }, [address]);
+
+  const runTx = async (send: (signer: ethers.Signer) => Promise<ContractTransactionResponse | null>) => {
+    setError(null);
+    setLastTx(null);
+    if (!signerPromise) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        setError('Signer not available.');
+        return;
+      }
+      const tx = await send(signer);
+      if (tx) {
+        setLastTx(tx.hash);
+        await tx.wait();
+      }
+      await load();
+      onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const wrapperContract = (signer: ethers.Signer) =>
+    new Contract(token.address, CONFIDENTIAL_ERC20_WRAPPER_ABI, signer);
+
+  // The wrapper only releases the ERC20 once the burnt amount is publicly decrypted and proven by the KMS.
+  const finalize = async (signer: ethers.Signer, handle: Hex) => {
+    const { clearValues, decryptionProof } = await instance.publicDecrypt([handle]);
+    const tx = await wrapperContract(signer).finalizeUnwrap(handle, BigInt(clearValues[handle]), decryptionProof);
+    setLastTx(tx.hash);
+    await tx.wait();
+    setPendingUnwrap(null);
+  };
+
+  const wrap = async () => {
+    let amount: bigint;
+    try {
+      amount = ethers.parseUnits(wrapAmount.trim(), wrapper.underlyingDecimals);
+    } catch {
+      amount = 0n;
+    }
+    if (amount < wrapper.rate || amount / wrapper.rate > MAX_UINT64) {
+      setError(`Enter a ${wrapper.underlyingSymbol} amount of at least one wrapped unit.`);
+      return;
+    }
+    if (underlyingBalance !== null && amount > underlyingBalance) {
+      setError(`Not enough ${wrapper.underlyingSymbol}.`);
+      return;
+    }
+    if (!address) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    await runTx(async (signer) => {
+      const erc20 = new Contract(wrapper.underlying, erc20Abi, signer);
+      if ((await erc20.allowance(address, token.address)) < amount) {
+        await (await erc20.approve(token.address, amount)).wait();
+      }
+      return wrapperContract(signer).wrap(address, amount);
+    });
+    setWrapAmount('');
+  };
+
+  const unwrap = async () => {
+    let amount: bigint;
+    try {
+      amount = ethers.parseUnits(unwrapAmount.trim(), wrapper.decimals);
+    } catch {
+      amount = 0n;
+    }
+    if (amount <= 0n || amount > MAX_UINT64) {
+      setError('Enter an amount that fits in uint64.');
+      return;
+    }
+    if (!address || !instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Connect your wallet and wait for the encryption service.');
+      return;
+    }
+    await runTx(async (signer) => {
+      const contract = wrapperContract(signer);
+      const input = await instance.createEncryptedInput(token.address, address).add64(amount).encrypt();
+      const tx = await contract['unwrap(address,address,bytes32,bytes)'](
+        address,
+        address,
+        input.handles[0],
+        input.inputProof,
+      );
+      setLastTx(tx.hash);
+      const receipt = await tx.wait();
+      const requested = receipt?.logs
+        .map((log: ethers.Log) => contract.interface.parseLog(log))
+        .find((parsed: ethers.LogDescription | null) => parsed?.name === 'UnwrapRequested');
+      if (!requested) throw new Error('Unwrap request not found in the transaction receipt.');
+      const handle = requested.args.amount as Hex;
+      setPendingUnwrap(handle);
+      await finalize(signer, handle);
+      return null;
+    });
+    setUnwrapAmount('');
+  };
+
+  const retryFinalize = async () => {
+    if (!pendingUnwrap) return;
+    if (!instance || zamaLoading || zamaError) {
+      setError(zamaError ?? 'Encryption service not ready.');
+      return;
+    }
+    await runTx(async (signer) => {
+      await finalize(signer, pendingUnwrap);
+      return null;
+    });
+  };
+
+  return (
+    <div className="token-card-section">
+      <div className="token-section-title">Wrap / Unwrap</div>
+      <div className="token-muted">
+        Wrapping locks {wrapper.underlyingSymbol} in this contract and credits the same amount to your encrypted
+        balance. Unwrapping burns an encrypted amount, then releases the {wrapper.underlyingSymbol} once the burnt
+        amount is publicly decrypted; unwrapping more than your balance burns and releases nothing.
+      </div>
+      <div className="token-buy-row">
+        <input
+          className="token-input"
+          value={wrapAmount}
+          onChange={(e) => setWrapAmount(e.target.value)}
+          placeholder={`Amount (${wrapper.underlyingSymbol})`}
+        />
+        <button className="token-primary" onClick={() => void wrap()} disabled={isBusy || !address}>
+          {isBusy ? 'Working…' : 'Wrap'}
+        </button>
+      </div>
+      <div className="token-buy-row">
+        <input
+          className="token-input"
+          value={unwrapAmount}
+          onChange={(e) => setUnwrapAmount(e.target.value)}
+          placeholder={`Amount (${token.symbol})`}
+        />
+        <button className="token-secondary" onClick={() => void unwrap()} disabled={isBusy || !address}>
+          Unwrap
+        </button>
+      </div>
+      {pendingUnwrap ? (
+        <div className="token-balance-actions">
+          <button className="token-secondary" onClick={() => void retryFinalize()} disabled={isBusy}>
+            Finalize pending unwrap
+          </button>
+          <span className="token-muted">
+            Request <code className="token-code">{pendingUnwrap}</code>
+          </span>
+        </div>
+      ) : null}
+      {underlyingBalance !== null ? (
+        <div className="token-muted">
+          Your {wrapper.underlyingSymbol}: {formatUnits(underlyingBalance, wrapper.underlyingDecimals)}
+          {wrapper.rate > 1n
+            ? ` · Amounts below ${formatUnits(wrapper.rate, wrapper.underlyingDecimals)} ${wrapper.underlyingSymbol} are not wrapped`
+            : null}
+        </div>
+      ) : null}
+
+      {error ? <div className="token-error">{error}</div> : null}
+      {lastTx ? (
+        <div className="token-result">
+          Transaction: <code className="token-code">{lastTx}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,147 +1,58 @@
+import { sepolia } from 'wagmi/chains';
+import { CONTRACT_ADDRESSES, DEPLOYMENT_BLOCKS, type DeployedContractName } from './contracts.generated';
+
+export {
+  CONFIDENTIAL_TOKEN_FACTORY_ABI,
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  CONFIDENTIAL_TOKEN_LENS_ABI,
+  CONFIDENTIAL_SEALED_BID_AUCTION_ABI,
+  CONFIDENTIAL_CREDIT_VAULT_ABI,
+  CONFIDENTIAL_USDT_ABI,
+  CONFIDENTIAL_ERC20_WRAPPER_ABI,
+  CONFIDENTIAL_HOLDINGS_VERIFIER_ABI,
+} from './contracts.generated';
+
 export type Address = `0x${string}`;
 
-export const DEFAULT_FACTORY_ADDRESS: Address | null = "0x52FFcaCdF11c361033cE8bb4b6Ef806Cd157ae72";
+// Known public deployments; deployments/ is not committed, so these fill in chains missing from the generated map.
+// The Sepolia factory predates sale configs and everything after them: its tokens load through the per-token reads,
+// and creating tokens needs a current factory, so the create form turns creation off for it. `npm run deploy:sepolia`
+// puts a new one in the generated map, which takes precedence; record its address here once it is public.
+const KNOWN_ADDRESSES: Record<number, Partial<Record<DeployedContractName, Address>>> = {
+  [sepolia.id]: {
+    ConfidentialTokenFactory: '0x52FFcaCdF11c361033cE8bb4b6Ef806Cd157ae72',
+  },
+};
 
-export const CONFIDENTIAL_TOKEN_FACTORY_ABI = [
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'address', name: 'creator', type: 'address' },
-      { indexed: true, internalType: 'address', name: 'token', type: 'address' },
-      { indexed: false, internalType: 'string', name: 'name', type: 'string' },
-      { indexed: false, internalType: 'string', name: 'symbol', type: 'string' },
-      { indexed: false, internalType: 'uint64', name: 'totalSupplyClear', type: 'uint64' },
-      { indexed: false, internalType: 'uint256', name: 'pricePerTokenWei', type: 'uint256' },
-    ],
-    name: 'TokenCreated',
-    type: 'event',
-  },
-  {
-    inputs: [],
-    name: 'allTokensLength',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'string', name: 'name_', type: 'string' },
-      { internalType: 'string', name: 'symbol_', type: 'string' },
-      { internalType: 'uint64', name: 'totalSupplyClear_', type: 'uint64' },
-      { internalType: 'uint256', name: 'pricePerTokenWei_', type: 'uint256' },
-    ],
-    name: 'createToken',
-    outputs: [{ internalType: 'address', name: 'token', type: 'address' }],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'getAllTokens',
-    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'address', name: 'creator', type: 'address' }],
-    name: 'getTokensByCreator',
-    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
+function getDeployedAddress(chainId: number | undefined, name: DeployedContractName): Address | null {
+  if (chainId === undefined) return null;
+  return CONTRACT_ADDRESSES[chainId]?.[name] ?? KNOWN_ADDRESSES[chainId]?.[name] ?? null;
+}
 
-export const CONFIDENTIAL_ERC7984_TOKEN_ABI = [
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'address', name: 'buyer', type: 'address' },
-      { indexed: false, internalType: 'uint64', name: 'amount', type: 'uint64' },
-      { indexed: false, internalType: 'uint256', name: 'requiredWei', type: 'uint256' },
-      { indexed: false, internalType: 'uint256', name: 'paidWei', type: 'uint256' },
-    ],
-    name: 'TokenPurchased',
-    type: 'event',
-  },
-  {
-    inputs: [],
-    name: 'name',
-    outputs: [{ internalType: 'string', name: '', type: 'string' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'symbol',
-    outputs: [{ internalType: 'string', name: '', type: 'string' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'decimals',
-    outputs: [{ internalType: 'uint8', name: '', type: 'uint8' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'owner',
-    outputs: [{ internalType: 'address', name: '', type: 'address' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'totalSupplyClear',
-    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'remainingForSaleClear',
-    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'pricePerTokenWei',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint64', name: 'amount', type: 'uint64' }],
-    name: 'quoteBuy',
-    outputs: [{ internalType: 'uint256', name: 'requiredWei', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint64', name: 'amount', type: 'uint64' }],
-    name: 'buy',
-    outputs: [{ internalType: 'euint64', name: 'transferred', type: 'bytes32' }],
-    stateMutability: 'payable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'address', name: 'account', type: 'address' }],
-    name: 'confidentialBalanceOf',
-    outputs: [{ internalType: 'euint64', name: '', type: 'bytes32' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'address payable', name: 'to', type: 'address' }, { internalType: 'uint256', name: 'amountWei', type: 'uint256' }],
-    name: 'withdraw',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-] as const;
+export function getFactoryAddress(chainId: number | undefined): Address | null {
+  return getDeployedAddress(chainId, 'ConfidentialTokenFactory');
+}
+
+// First block that can hold the factory's logs; 0 when its deployment block is not recorded (known addresses).
+export function getFactoryDeploymentBlock(chainId: number | undefined): bigint {
+  if (chainId === undefined || !CONTRACT_ADDRESSES[chainId]?.ConfidentialTokenFactory) return 0n;
+  return BigInt(DEPLOYMENT_BLOCKS[chainId]?.ConfidentialTokenFactory ?? 0);
+}
+
+// Optional ConfidentialTokenLens deployment; when null the marketplace reads each token individually.
+export function getLensAddress(chainId: number | undefined): Address | null {
+  return getDeployedAddress(chainId, 'ConfidentialTokenLens');
+}
+
+// Test stablecoin with a rate-limited faucet, usable as a token's payment token.
+export function getCusdtAddress(chainId: number | undefined): Address | null {
+  return getDeployedAddress(chainId, 'ConfidentialUSDT');
+}
+
+// Proves a holder has at least a threshold of any ERC-7984 token without revealing the balance.
+export function getHoldingsVerifierAddress(chainId: number | undefined): Address | null {
+  return getDeployedAddress(chainId, 'ConfidentialHoldingsVerifier');
+}
 
 export const TOKEN_DECIMALS = 6;
 export const TOKEN_BASE_UNITS = 1_000_000n;
-
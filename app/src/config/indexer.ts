@@ -0,0 +1,35 @@
+import type { Address } from './contracts';
+
+// Optional indexer API (see `indexer/` in the repo root). When unset or unreachable, the marketplace reads the token
+// list straight from the factory.
+export const INDEXER_URL: string | null = import.meta.env.VITE_INDEXER_URL?.replace(/\/+$/, '') || null;
+
+export type IndexerHealth = {
+  chainId: string;
+  factory: Address;
+  lastIndexedBlock: number | null;
+};
+
+export type IndexedTokenSummary = {
+  address: Address;
+  creator: Address;
+  name: string;
+  symbol: string;
+  totalSupplyClear: string;
+  pricePerTokenWei: string;
+  purchaseCount: number;
+  soldAmount: string;
+  raisedWei: string;
+  blockNumber: number;
+};
+
+export type IndexedSale = {
+  token: Address;
+  buyer: Address;
+  amount: string;
+  requiredWei: string;
+  paidWei: string;
+  blockNumber: number;
+  txHash: `0x${string}`;
+  logIndex: number;
+};
@@ -1,12 +1,14 @@
 import { createConfig, createStorage, http, noopStorage } from 'wagmi';
 import { injected } from 'wagmi/connectors';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 
 export const config = createConfig({
-  chains: [sepolia],
+  // hardhat (31337) targets a local `npm run chain` node running the FHEVM mock
+  chains: [sepolia, hardhat],
   connectors: [injected()],
   transports: {
     [sepolia.id]: http(),
+    [hardhat.id]: http(),
   },
   storage: createStorage({
     storage: noopStorage,
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { Address } from '../config/contracts';
+
+export type HandleContractPair = {
+  handle: `0x${string}`;
+  contractAddress: Address;
+};
+
+export type DecryptionSessionValue = {
+  /** Decrypts handles the connected wallet may read, signing a new permit only for contracts not yet covered. */
+  userDecrypt: (pairs: HandleContractPair[]) => Promise<Record<string, bigint | boolean | string>>;
+  /** Contracts to include in the next permit, so one signature covers every token on screen. */
+  registerContracts: (contractAddresses: Address[]) => void;
+  /** Drops the keypair and all permits; the next decrypt asks for a new signature. */
+  clear: () => void;
+  isReady: boolean;
+  /** Unix seconds at which the earliest permit expires, or null without an active session. */
+  expiresAt: number | null;
+};
+
+export const DecryptionSessionContext = createContext<DecryptionSessionValue | null>(null);
+
+export function useDecryptionSession(): DecryptionSessionValue {
+  const session = useContext(DecryptionSessionContext);
+  if (!session) {
+    throw new Error('useDecryptionSession must be used inside a DecryptionSessionProvider');
+  }
+  return session;
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONFIDENTIAL_TOKEN_FACTORY_ABI, type Address } from '../config/contracts';
+
+export type FactoryFees = {
+  creationFeeWei: bigint;
+  purchaseFeeBps: bigint;
+};
+
+/**
+ * Protocol fees of a factory while they load, once read, or `incompatible` when they cannot be: the address is not a
+ * ConfidentialTokenFactory, or is one deployed before protocol fees, whose createToken and createAuction take other
+ * arguments than the ones the app sends.
+ */
+export type FactoryFeesState =
+  { status: 'loading' } | { status: 'ready'; fees: FactoryFees } | { status: 'incompatible' };
+
+/** Reads the protocol fees of a ConfidentialTokenFactory; stays loading without a factory. */
+export function useFactoryFees(factory: Address | null): FactoryFeesState {
+  const publicClient = usePublicClient();
+  const [state, setState] = useState<FactoryFeesState>({ status: 'loading' });
+
+  useEffect(() => {
+    setState({ status: 'loading' });
+    if (!factory || !publicClient) return;
+
+    let cancelled = false;
+    const read = (functionName: 'creationFeeWei' | 'purchaseFeeBps') =>
+      publicClient.readContract({ address: factory, abi: CONFIDENTIAL_TOKEN_FACTORY_ABI, functionName });
+    Promise.all([read('creationFeeWei'), read('purchaseFeeBps')])
+      .then(([creationFeeWei, purchaseFeeBps]) => {
+        if (cancelled) return;
+        setState({
+          status: 'ready',
+          fees: { creationFeeWei: creationFeeWei as bigint, purchaseFeeBps: purchaseFeeBps as bigint },
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: 'incompatible' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, factory]);
+
+  return state;
+}
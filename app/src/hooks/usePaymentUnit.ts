@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import type { Address } from '../config/contracts';
+import { ETH_UNIT, readPaymentUnit, type PaymentUnit } from '../utils/paymentToken';
+
+/**
+ * Reads the symbol and decimals of an ERC-7984 payment token, or returns ETH when there is none. Null while loading
+ * or when the address is not an ERC-7984 token.
+ */
+export function usePaymentUnit(paymentToken: Address | null): PaymentUnit | null {
+  const publicClient = usePublicClient();
+  const [unit, setUnit] = useState<PaymentUnit | null>(paymentToken ? null : ETH_UNIT);
+
+  useEffect(() => {
+    if (!paymentToken) {
+      setUnit(ETH_UNIT);
+      return;
+    }
+    setUnit(null);
+    if (!publicClient) return;
+
+    let cancelled = false;
+    readPaymentUnit(publicClient, paymentToken)
+      .then((paymentUnit) => {
+        if (!cancelled) setUnit(paymentUnit);
+      })
+      .catch(() => {
+        if (!cancelled) setUnit(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, paymentToken]);
+
+  return unit;
+}
@@ -1,7 +1,47 @@
 import { useState, useEffect } from 'react';
+import { useChainId } from 'wagmi';
+import { hardhat } from 'wagmi/chains';
+import { Contract, JsonRpcProvider } from 'ethers';
 import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
 
+type FhevmRelayerMetadata = {
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+};
+
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1, string, string, uint256 chainId, address verifyingContract, bytes32, uint256[])',
+];
+
+// The Hardhat node runs the FHEVM mock engine, so encryption and decryption are served by the node itself
+// instead of the Zama relayer. The mock package is only loaded when connected to it.
+async function createHardhatInstance() {
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+  const provider = new JsonRpcProvider(hardhat.rpcUrls.default.http[0]);
+
+  const metadata = (await provider.send('fhevm_relayer_metadata', [])) as FhevmRelayerMetadata;
+  const kmsDomain = await new Contract(metadata.KMSVerifierAddress, EIP712_DOMAIN_ABI, provider).eip712Domain();
+  const inputDomain = await new Contract(metadata.InputVerifierAddress, EIP712_DOMAIN_ABI, provider).eip712Domain();
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: hardhat.id,
+      gatewayChainId: Number(kmsDomain.chainId),
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: kmsDomain.verifyingContract,
+      verifyingContractAddressInputVerification: inputDomain.verifyingContract,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} },
+  );
+}
+
 export function useZamaInstance() {
+  const chainId = useChainId();
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +53,15 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance;
+        if (chainId === hardhat.id) {
+          zamaInstance = await createHardhatInstance();
+        } else {
+          await initSDK()
+          zamaInstance = await createInstance(SepoliaConfig);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -23,7 +69,11 @@ export function useZamaInstance() {
       } catch (err) {
         console.error('Failed to initialize Zama instance:', err);
         if (mounted) {
-          setError('Failed to initialize encryption service');
+          setError(
+            chainId === hardhat.id
+              ? 'Failed to initialize the local FHEVM mock. Is the Hardhat node running (npm run chain)?'
+              : 'Failed to initialize encryption service'
+          );
         }
       } finally {
         if (mounted) {
@@ -37,7 +87,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
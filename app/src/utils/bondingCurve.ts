@@ -0,0 +1,56 @@
+import { TOKEN_BASE_UNITS } from '../config/contracts';
+import type { SaleConfig } from './saleSchedule';
+
+// Values of ConfidentialERC7984Token.PricingCurve.
+export const PRICING_CURVE = { flat: 0, linear: 1, dutch: 2 } as const;
+
+export type PricingCurveName = keyof typeof PRICING_CURVE;
+
+export function pricingCurveName(config: SaleConfig): PricingCurveName {
+  if (isLinearCurve(config)) return 'linear';
+  return isDutchAuction(config) ? 'dutch' : 'flat';
+}
+
+export function isLinearCurve(config: SaleConfig) {
+  return Number(config.curve) === PRICING_CURVE.linear;
+}
+
+export function isDutchAuction(config: SaleConfig) {
+  return Number(config.curve) === PRICING_CURVE.dutch;
+}
+
+/**
+ * Dutch-auction price at `nowSeconds`, as ConfidentialERC7984Token.currentPricePerTokenWei: it falls linearly from
+ * `startPriceWei` at startTime to the endPricePerTokenWei floor at endTime.
+ */
+export function dutchPriceWei(startPriceWei: bigint, config: SaleConfig, nowSeconds: bigint) {
+  if (nowSeconds <= config.startTime) return startPriceWei;
+  if (nowSeconds >= config.endTime) return config.endPricePerTokenWei;
+  const decay =
+    ((startPriceWei - config.endPricePerTokenWei) * (nowSeconds - config.startTime)) /
+    (config.endTime - config.startTime);
+  return startPriceWei - decay;
+}
+
+/** Price of the next whole token after `sold` base units, as ConfidentialERC7984Token.currentPricePerTokenWei. */
+export function marginalPriceWei(startPriceWei: bigint, endPriceWei: bigint, supply: bigint, sold: bigint) {
+  if (supply === 0n) return startPriceWei;
+  return startPriceWei + ((endPriceWei - startPriceWei) * sold) / supply;
+}
+
+function ceilDiv(a: bigint, b: bigint) {
+  return (a + b - 1n) / b;
+}
+
+/** Mirrors ConfidentialERC7984Token.quoteBuy on a linear curve, including its round-up steps. */
+export function quoteLinearWei(
+  startPriceWei: bigint,
+  endPriceWei: bigint,
+  supply: bigint,
+  sold: bigint,
+  amount: bigint,
+) {
+  if (amount === 0n) return 0n;
+  const rise = ceilDiv((endPriceWei - startPriceWei) * amount * (2n * sold + amount), 2n * supply);
+  return ceilDiv(amount * startPriceWei + rise, TOKEN_BASE_UNITS);
+}
@@ -0,0 +1,150 @@
+import type { Address } from '../config/contracts';
+import type { TokenRow } from '../components/TokenCard';
+import { paymentTokenOf } from './paymentToken';
+import { auctionAddressOf } from './tokenRows';
+
+export type MarketplaceSort = 'newest' | 'price-asc' | 'price-desc' | 'sold' | 'remaining';
+export type SaleStatusFilter = 'all' | 'on-sale' | 'sold-out';
+
+export const MARKETPLACE_SORT_LABELS: Record<MarketplaceSort, string> = {
+  newest: 'Newest',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  sold: 'Most sold',
+  remaining: 'Most remaining',
+};
+
+export const SALE_STATUS_LABELS: Record<SaleStatusFilter, string> = {
+  all: 'Any status',
+  'on-sale': 'On sale',
+  'sold-out': 'Sold out',
+};
+
+export const MARKETPLACE_PAGE_SIZE = 12;
+
+export type MarketplaceQuery = {
+  search: string;
+  sort: MarketplaceSort;
+  onlyMine: boolean;
+  status: SaleStatusFilter;
+  // Per 1 token in wei; tokens not sold for ETH never match a price range.
+  minPriceWei: bigint | null;
+  maxPriceWei: bigint | null;
+};
+
+export const DEFAULT_MARKETPLACE_QUERY: MarketplaceQuery = {
+  search: '',
+  sort: 'newest',
+  onlyMine: false,
+  status: 'all',
+  minPriceWei: null,
+  maxPriceWei: null,
+};
+
+/**
+ * Where page `page` falls in a list made of `headCount` leading items followed by a separately paged tail: the slice of
+ * the head on the page, and the tail offset and number of items that fill the rest of it.
+ */
+export function splitMarketplacePage(headCount: number, page: number) {
+  const start = page * MARKETPLACE_PAGE_SIZE;
+  const headStart = Math.min(start, headCount);
+  const headEnd = Math.min(start + MARKETPLACE_PAGE_SIZE, headCount);
+  return {
+    headStart,
+    headEnd,
+    tailOffset: Math.max(0, start - headCount),
+    tailLimit: MARKETPLACE_PAGE_SIZE - (headEnd - headStart),
+  };
+}
+
+/**
+ * Whether the query needs every row before it can page: the sorts other than newest and the status and price filters
+ * depend on live sale state only the token contracts hold.
+ */
+export function queryNeedsAllRows(query: MarketplaceQuery): boolean {
+  return query.sort !== 'newest' || query.status !== 'all' || query.minPriceWei !== null || query.maxPriceWei !== null;
+}
+
+/**
+ * Whether the token sells a public supply for ETH through `buy`. Wrappers, sealed-bid auctions and tokens priced in a
+ * payment token have no public price or remaining supply to sort and filter by.
+ */
+function sellsForEth(row: TokenRow): boolean {
+  return !row.wrapper && !auctionAddressOf(row) && !(row.saleConfig && paymentTokenOf(row.saleConfig));
+}
+
+function priceWei(row: TokenRow): bigint | null {
+  return sellsForEth(row) ? (row.currentPricePerTokenWei ?? row.pricePerTokenWei) : null;
+}
+
+/** Share of the supply sold, in basis points; null for tokens without a public sale. */
+function soldBps(row: TokenRow): bigint | null {
+  if (!sellsForEth(row) || row.totalSupplyClear === 0n) return null;
+  return ((row.totalSupplyClear - row.remainingForSaleClear) * 10_000n) / row.totalSupplyClear;
+}
+
+function matchesSearch(row: TokenRow, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    row.name.toLowerCase().includes(needle) ||
+    row.symbol.toLowerCase().includes(needle) ||
+    row.address.toLowerCase().includes(needle)
+  );
+}
+
+function matchesStatus(row: TokenRow, status: SaleStatusFilter): boolean {
+  if (status === 'all') return true;
+  if (!sellsForEth(row)) return false;
+  return (row.remainingForSaleClear === 0n) === (status === 'sold-out');
+}
+
+function matchesPrice(row: TokenRow, minPriceWei: bigint | null, maxPriceWei: bigint | null): boolean {
+  if (minPriceWei === null && maxPriceWei === null) return true;
+  const price = priceWei(row);
+  if (price === null) return false;
+  return (minPriceWei === null || price >= minPriceWei) && (maxPriceWei === null || price <= maxPriceWei);
+}
+
+// Larger values first, then rows without a value.
+function compareDesc(a: bigint | null, b: bigint | null): number {
+  if (a === null || b === null) return Number(a === null) - Number(b === null);
+  return a === b ? 0 : a > b ? -1 : 1;
+}
+
+/**
+ * Filters and sorts the loaded rows, which are in listing order (oldest first). Ties keep the newest first; rows
+ * without a value for the sort key go last.
+ */
+export function queryMarketplace(rows: TokenRow[], mine: Set<Address>, query: MarketplaceQuery): TokenRow[] {
+  const matching = rows
+    .map((row, index) => ({ row, index }))
+    .filter(
+      ({ row }) =>
+        matchesSearch(row, query.search) &&
+        (!query.onlyMine || mine.has(row.address)) &&
+        matchesStatus(row, query.status) &&
+        matchesPrice(row, query.minPriceWei, query.maxPriceWei),
+    );
+
+  const sortKey = (row: TokenRow): bigint | null => {
+    switch (query.sort) {
+      case 'newest':
+        return null;
+      case 'price-asc': {
+        const price = priceWei(row);
+        return price === null ? null : -price;
+      }
+      case 'price-desc':
+        return priceWei(row);
+      case 'sold':
+        return soldBps(row);
+      case 'remaining':
+        return sellsForEth(row) ? row.remainingForSaleClear : null;
+    }
+  };
+
+  return matching
+    .sort((a, b) => compareDesc(sortKey(a.row), sortKey(b.row)) || b.index - a.index)
+    .map(({ row }) => row);
+}
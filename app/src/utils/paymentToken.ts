@@ -0,0 +1,30 @@
+import { formatUnits } from 'viem';
+import { CONFIDENTIAL_ERC7984_TOKEN_ABI, type Address } from '../config/contracts';
+import type { SaleConfig } from './saleSchedule';
+import type { TokenReadClient } from './tokenRows';
+
+/** Currency a token's prices are quoted in: ETH, or the ERC-7984 payment token chosen at creation. */
+export type PaymentUnit = {
+  symbol: string;
+  decimals: number;
+};
+
+export const ETH_UNIT: PaymentUnit = { symbol: 'ETH', decimals: 18 };
+
+export const ZERO_ADDRESS: Address = '0x0000000000000000000000000000000000000000';
+
+export function paymentTokenOf(config: SaleConfig): Address | null {
+  return config.paymentToken.toLowerCase() === ZERO_ADDRESS ? null : config.paymentToken;
+}
+
+export function formatPrice(amount: bigint, unit: PaymentUnit) {
+  return `${formatUnits(amount, unit.decimals)} ${unit.symbol}`;
+}
+
+/** Reads the symbol and decimals of an ERC-7984 payment token; rejects when the address is not one. */
+export async function readPaymentUnit(publicClient: TokenReadClient, paymentToken: Address): Promise<PaymentUnit> {
+  const read = (functionName: 'symbol' | 'decimals') =>
+    publicClient.readContract({ address: paymentToken, abi: CONFIDENTIAL_ERC7984_TOKEN_ABI, functionName });
+  const [symbol, decimals] = await Promise.all([read('symbol'), read('decimals')]);
+  return { symbol: symbol as string, decimals: Number(decimals) };
+}
@@ -0,0 +1,18 @@
+import { TOKEN_BASE_UNITS } from '../config/contracts';
+import type { TokenRow } from '../components/TokenCard';
+import { OPEN_SALE } from './saleSchedule';
+import { pricingCurveName } from './bondingCurve';
+
+/** ConfidentialCreditVault keeps credit and proceeds in wei * TOKEN_BASE, so encrypted costs need no division. */
+export function creditToWei(credit: bigint) {
+  return credit / TOKEN_BASE_UNITS;
+}
+
+/**
+ * Mirrors ConfidentialERC7984Token.allocatePrivateSupply: per-wallet caps, soft caps and bonding curves need clear
+ * purchase amounts, so those sales cannot have a private pool.
+ */
+export function supportsPrivateSale(token: TokenRow) {
+  const sale = token.saleConfig ?? OPEN_SALE;
+  return pricingCurveName(sale) !== 'linear' && sale.maxPerWallet === 0n && (token.crowdsaleState ?? 'none') === 'none';
+}
@@ -0,0 +1,134 @@
+import { getAddress, isAddress, isHex, type Hex } from 'viem';
+import { isLinearCurve } from './bondingCurve';
+import { paymentTokenOf, ZERO_ADDRESS } from './paymentToken';
+
+// Mirrors ConfidentialERC7984Token.SaleConfig: unix seconds, 0 meaning "no limit" for startTime, endTime and
+// maxPerWallet. The allowlist phase only exists when allowlistRoot is non-zero, a non-zero softCapWei makes the
+// sale an escrowed crowdsale, and `curve` selects the pricing (see utils/bondingCurve). A non-zero paymentToken
+// prices the sale in that ERC-7984 token (see utils/paymentToken).
+export type SaleConfig = {
+  startTime: bigint;
+  endTime: bigint;
+  publicStartTime: bigint;
+  maxPerWallet: bigint;
+  allowlistRoot: Hex;
+  softCapWei: bigint;
+  curve: number;
+  endPricePerTokenWei: bigint;
+  paymentToken: Hex;
+};
+
+export type SalePhase = 'not-started' | 'allowlist' | 'public' | 'ended';
+
+export type CrowdsaleState = 'none' | 'active' | 'succeeded' | 'failed';
+
+// Order of ConfidentialERC7984Token.CrowdsaleState.
+const CROWDSALE_STATES: CrowdsaleState[] = ['none', 'active', 'succeeded', 'failed'];
+
+export const ZERO_ROOT = `0x${'0'.repeat(64)}` as Hex;
+
+export const OPEN_SALE: SaleConfig = {
+  startTime: 0n,
+  endTime: 0n,
+  publicStartTime: 0n,
+  maxPerWallet: 0n,
+  allowlistRoot: ZERO_ROOT,
+  softCapWei: 0n,
+  curve: 0,
+  endPricePerTokenWei: 0n,
+  paymentToken: ZERO_ADDRESS,
+};
+
+export const SALE_PHASE_LABELS: Record<SalePhase, string> = {
+  'not-started': 'Not started',
+  allowlist: 'Allowlist only',
+  public: 'Public sale',
+  ended: 'Ended',
+};
+
+export function hasAllowlist(config: SaleConfig) {
+  return config.allowlistRoot.toLowerCase() !== ZERO_ROOT;
+}
+
+export function crowdsaleStateFromContract(value: number): CrowdsaleState {
+  return CROWDSALE_STATES[value] ?? 'none';
+}
+
+// Same rules as ConfidentialERC7984Token.salePhase, evaluated locally so the card can tick without polling.
+export function getSalePhase(config: SaleConfig, nowSeconds: bigint, crowdsale: CrowdsaleState = 'none'): SalePhase {
+  if (crowdsale === 'succeeded' || crowdsale === 'failed') return 'ended';
+  if (nowSeconds < config.startTime) return 'not-started';
+  if (config.endTime !== 0n && nowSeconds >= config.endTime) return 'ended';
+  if (hasAllowlist(config) && nowSeconds < config.publicStartTime) return 'allowlist';
+  return 'public';
+}
+
+/** Timestamp at which the current phase ends, or null when it lasts forever. */
+export function nextPhaseChange(config: SaleConfig, phase: SalePhase): bigint | null {
+  if (phase === 'not-started') return config.startTime;
+  if (phase === 'allowlist') return config.publicStartTime;
+  if (phase === 'public' && config.endTime !== 0n) return config.endTime;
+  return null;
+}
+
+export function formatCountdown(seconds: bigint) {
+  const total = seconds > 0n ? Number(seconds) : 0;
+  const days = Math.floor(total / 86_400);
+  const hours = Math.floor((total % 86_400) / 3_600);
+  const minutes = Math.floor((total % 3_600) / 60);
+  const secs = total % 60;
+  const clock = [hours, minutes, secs].map((part) => String(part).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/** Parses a `datetime-local` input value into unix seconds; empty means 0. */
+export function parseLocalDateTime(value: string): bigint | null {
+  if (!value) return 0n;
+  const millis = new Date(value).getTime();
+  return Number.isNaN(millis) ? null : BigInt(Math.floor(millis / 1000));
+}
+
+/** Validates a schedule with the same rules as ConfidentialERC7984Token; returns an error message or null. */
+export function validateSaleConfig(config: SaleConfig): string | null {
+  if (config.endTime !== 0n && config.endTime <= config.startTime) return 'Sale end must be after the sale start.';
+  if (config.softCapWei !== 0n && config.endTime === 0n) return 'A soft cap requires a sale end.';
+  if (paymentTokenOf(config) && (isLinearCurve(config) || config.maxPerWallet !== 0n || config.softCapWei !== 0n)) {
+    return 'Sales in a payment token cannot use a bonding curve, a per-wallet cap or a soft cap.';
+  }
+  if (!hasAllowlist(config)) {
+    return config.publicStartTime !== 0n ? 'Public sale start requires an allowlist root.' : null;
+  }
+  if (config.publicStartTime <= config.startTime) return 'Public sale start must be after the sale start.';
+  if (config.endTime !== 0n && config.publicStartTime > config.endTime) {
+    return 'Public sale start must not be after the sale end.';
+  }
+  return null;
+}
+
+export function isBytes32(value: string): value is Hex {
+  return isHex(value) && value.length === 66;
+}
+
+/**
+ * Looks up `account` in an allowlist JSON file written by `task:allowlist:build` (`{ root, proofs }`). Returns the
+ * proof, or an error message when the file does not match `root` or does not list the account.
+ */
+export function findAllowlistProof(json: string, root: Hex, account: string): { proof: Hex[] } | { error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { error: 'Allowlist file is not valid JSON.' };
+  }
+  const file = parsed as { root?: unknown; proofs?: Record<string, unknown> };
+  if (typeof file.root !== 'string' || file.root.toLowerCase() !== root.toLowerCase()) {
+    return { error: "Allowlist file does not match this token's allowlist." };
+  }
+  if (!isAddress(account)) return { error: 'Invalid account.' };
+
+  const proof = file.proofs?.[getAddress(account)];
+  if (!Array.isArray(proof) || !proof.every((node) => typeof node === 'string' && isBytes32(node))) {
+    return { error: 'Your address is not on the allowlist.' };
+  }
+  return { proof: proof as Hex[] };
+}
@@ -0,0 +1,71 @@
+import type { Hex } from 'viem';
+import { CONFIDENTIAL_ERC7984_TOKEN_ABI, type Address } from '../config/contracts';
+import type { IndexedSale } from '../config/indexer';
+import { scanBlocksBackwards } from './tokenLogs';
+import type { TokenReadClient } from './tokenRows';
+
+// Mirrors the indexer's MAX_PAGE_SIZE.
+export const SALES_HISTORY_LIMIT = 500;
+
+export type Sale = {
+  key: string;
+  buyer: Address;
+  amount: bigint;
+  // Sale price kept by the token, without the protocol fee.
+  requiredWei: bigint;
+  paidWei: bigint;
+  blockNumber: bigint;
+  txHash: Hex;
+};
+
+// The latest `buy` purchases of a token, newest first.
+export async function fetchSalesFromIndexer(indexerUrl: string, tokenAddress: Address): Promise<Sale[]> {
+  const response = await fetch(`${indexerUrl}/tokens/${tokenAddress}/sales?limit=${SALES_HISTORY_LIMIT}`);
+  if (!response.ok) throw new Error(`Indexer sales history failed (${response.status})`);
+  const { sales } = (await response.json()) as { sales: IndexedSale[] };
+  return sales.map((sale) => ({
+    key: `${sale.txHash}-${sale.logIndex}`,
+    buyer: sale.buyer,
+    amount: BigInt(sale.amount),
+    requiredWei: BigInt(sale.requiredWei),
+    paidWei: BigInt(sale.paidWei),
+    blockNumber: BigInt(sale.blockNumber),
+    txHash: sale.txHash,
+  }));
+}
+
+// Same as `fetchSalesFromIndexer`, read from the token's TokenPurchased logs back to `fromBlock` (the token's creation
+// block); slow on long chains.
+export async function loadSalesFromLogs(
+  publicClient: TokenReadClient,
+  tokenAddress: Address,
+  fromBlock: bigint,
+): Promise<Sale[]> {
+  const sales: Sale[] = [];
+  await scanBlocksBackwards(publicClient, fromBlock, async (windowStart, windowEnd) => {
+    const logs = await publicClient.getContractEvents({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      eventName: 'TokenPurchased',
+      fromBlock: windowStart,
+      toBlock: windowEnd,
+    });
+    sales.push(
+      ...logs
+        .sort((a, b) =>
+          a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : Number(b.blockNumber - a.blockNumber),
+        )
+        .map((log) => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          buyer: log.args.buyer ?? ('0x' as Address),
+          amount: log.args.amount ?? 0n,
+          requiredWei: log.args.requiredWei ?? 0n,
+          paidWei: log.args.paidWei ?? 0n,
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+        })),
+    );
+    return sales.length >= SALES_HISTORY_LIMIT;
+  });
+  return sales.slice(0, SALES_HISTORY_LIMIT);
+}
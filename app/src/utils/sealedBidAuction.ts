@@ -0,0 +1,26 @@
+import { TOKEN_BASE_UNITS } from '../config/contracts';
+
+export type AuctionPhase = 'bidding' | 'pricing' | 'awaiting-reveal' | 'allocating' | 'settled';
+
+// Order of ConfidentialSealedBidAuction.Phase.
+const AUCTION_PHASES: AuctionPhase[] = ['bidding', 'pricing', 'awaiting-reveal', 'allocating', 'settled'];
+
+export const AUCTION_PHASE_LABELS: Record<AuctionPhase, string> = {
+  bidding: 'Bidding',
+  pricing: 'Computing clearing price',
+  'awaiting-reveal': 'Clearing price ready to reveal',
+  allocating: 'Allocating',
+  settled: 'Settled',
+};
+
+// Settlement steps sent per transaction; about 0.4M HCU each, well below the coprocessor's per-transaction limit.
+export const SETTLE_BATCH_STEPS = 10n;
+
+export function auctionPhaseFromContract(value: number): AuctionPhase {
+  return AUCTION_PHASES[value] ?? 'bidding';
+}
+
+/** Smallest deposit that keeps a bid valid: quantity (base units) times the maximum price per whole token. */
+export function requiredDepositWei(quantity: bigint, maxPricePerTokenWei: bigint) {
+  return (quantity * maxPricePerTokenWei + TOKEN_BASE_UNITS - 1n) / TOKEN_BASE_UNITS;
+}
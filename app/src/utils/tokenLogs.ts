@@ -0,0 +1,59 @@
+import { CONFIDENTIAL_TOKEN_FACTORY_ABI, type Address } from '../config/contracts';
+import type { IndexedTokenSummary } from '../config/indexer';
+import type { TokenReadClient } from './tokenRows';
+
+// Public Sepolia RPCs reject eth_getLogs over long block ranges, so log reads are split into windows this wide.
+export const LOG_BLOCK_RANGE = 10_000n;
+
+/**
+ * Calls `visit` for consecutive block windows from the latest block back to `fromBlock`, newest first, until it
+ * returns true.
+ */
+export async function scanBlocksBackwards(
+  publicClient: TokenReadClient,
+  fromBlock: bigint,
+  visit: (fromBlock: bigint, toBlock: bigint) => Promise<boolean>,
+): Promise<void> {
+  const latest = await publicClient.getBlockNumber();
+  for (let toBlock = latest; toBlock >= fromBlock; toBlock -= LOG_BLOCK_RANGE) {
+    const windowStart = toBlock - LOG_BLOCK_RANGE + 1n > fromBlock ? toBlock - LOG_BLOCK_RANGE + 1n : fromBlock;
+    if (await visit(windowStart, toBlock)) return;
+  }
+}
+
+/**
+ * Block the factory created `tokenAddress` in, the first that can hold the token's logs. Read from the indexer when
+ * configured and following the token, else from the factory's TokenCreated log, searched back to `factoryFromBlock`.
+ */
+export async function tokenCreationBlock(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  factoryFromBlock: bigint,
+  tokenAddress: Address,
+  indexerUrl: string | null,
+): Promise<bigint> {
+  if (indexerUrl) {
+    try {
+      const response = await fetch(`${indexerUrl}/tokens/${tokenAddress}`);
+      if (response.ok) return BigInt(((await response.json()) as IndexedTokenSummary).blockNumber);
+    } catch (err) {
+      console.warn('Indexer unavailable, looking up the token creation in the factory logs:', err);
+    }
+  }
+
+  let creationBlock: bigint | null = null;
+  await scanBlocksBackwards(publicClient, factoryFromBlock, async (fromBlock, toBlock) => {
+    const [created] = await publicClient.getContractEvents({
+      address: factoryAddress,
+      abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+      eventName: 'TokenCreated',
+      args: { token: tokenAddress },
+      fromBlock,
+      toBlock,
+    });
+    creationBlock = created?.blockNumber ?? null;
+    return creationBlock !== null;
+  });
+  if (creationBlock === null) throw new Error(`${tokenAddress} was not created by factory ${factoryAddress}`);
+  return creationBlock;
+}
@@ -0,0 +1,152 @@
+// Token metadata is stored on-chain as an ERC-7572 contractURI. The app writes it as an inline JSON data URI and
+// treats whatever a token returns as untrusted: only known fields are kept, text is length-limited and plain, links
+// must be http(s), and logos must be https URLs or raster image data URIs.
+
+export type TokenMetadata = {
+  description?: string;
+  website?: string;
+  image?: string;
+};
+
+export type ParsedContractURI = {
+  metadata: TokenMetadata | null;
+  // Set for contractURIs pointing off-chain (ipfs://, https://); they are linked to, never fetched.
+  externalUri?: string;
+};
+
+// Mirrors ConfidentialERC7984Token.MAX_CONTRACT_URI_LENGTH.
+export const MAX_CONTRACT_URI_BYTES = 8192;
+export const MAX_DESCRIPTION_LENGTH = 500;
+export const MAX_WEBSITE_LENGTH = 200;
+export const MAX_LOGO_FILE_BYTES = 4096;
+export const LOGO_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const IMAGE_DATA_URI = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+function utf8ToBase64(value: string) {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function base64ToUtf8(value: string) {
+  const binary = atob(value);
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function byteLength(value: string) {
+  return new TextEncoder().encode(value).length;
+}
+
+export function sanitizeWebsite(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.length > MAX_WEBSITE_LENGTH) return undefined;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function sanitizeImage(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.length > MAX_CONTRACT_URI_BYTES) return undefined;
+  const trimmed = value.trim();
+  if (IMAGE_DATA_URI.test(trimmed)) return trimmed;
+  try {
+    return new URL(trimmed).protocol === 'https:' ? trimmed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sanitizeDescription(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Drop control characters other than tab and newlines.
+  const cleaned = Array.from(value)
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      return code === 0x09 || code === 0x0a || code === 0x0d || (code >= 0x20 && code !== 0x7f);
+    })
+    .join('')
+    .trim();
+  if (!cleaned) return undefined;
+  return cleaned.length > MAX_DESCRIPTION_LENGTH ? `${cleaned.slice(0, MAX_DESCRIPTION_LENGTH)}…` : cleaned;
+}
+
+function sanitizeMetadata(raw: unknown): TokenMetadata | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const record = raw as Record<string, unknown>;
+  const metadata: TokenMetadata = {
+    description: sanitizeDescription(record.description),
+    website: sanitizeWebsite(record.external_link),
+    image: sanitizeImage(record.image),
+  };
+  return metadata.description || metadata.website || metadata.image ? metadata : null;
+}
+
+/** Returns an error message for metadata the app would refuse to display, or null when it is valid. */
+export function validateMetadata(metadata: TokenMetadata): string | null {
+  const website = metadata.website?.trim();
+  if (website && !sanitizeWebsite(website)) {
+    return `Website must be an http(s) URL of at most ${MAX_WEBSITE_LENGTH} characters.`;
+  }
+  const image = metadata.image?.trim();
+  if (image && !sanitizeImage(image)) return 'Logo must be an https URL or a PNG, JPEG, GIF or WebP file.';
+  if ((metadata.description?.trim().length ?? 0) > MAX_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters.`;
+  }
+  return null;
+}
+
+/** Builds the contractURI for `createToken`/`setContractURI`; returns '' when no field is set. */
+export function buildContractURI(name: string, metadata: TokenMetadata): string {
+  const description = metadata.description?.trim();
+  const website = metadata.website?.trim();
+  const image = metadata.image?.trim();
+  if (!description && !website && !image) return '';
+
+  const json = {
+    name,
+    ...(description ? { description } : {}),
+    ...(website ? { external_link: website } : {}),
+    ...(image ? { image } : {}),
+  };
+  return `data:application/json;base64,${utf8ToBase64(JSON.stringify(json))}`;
+}
+
+export function parseContractURI(uri: string | undefined): ParsedContractURI {
+  if (!uri || byteLength(uri) > MAX_CONTRACT_URI_BYTES) return { metadata: null };
+
+  try {
+    if (uri.startsWith('data:application/json;base64,')) {
+      return { metadata: sanitizeMetadata(JSON.parse(base64ToUtf8(uri.slice(uri.indexOf(',') + 1)))) };
+    }
+    if (uri.startsWith('data:application/json,') || uri.startsWith('data:application/json;utf8,')) {
+      return { metadata: sanitizeMetadata(JSON.parse(decodeURIComponent(uri.slice(uri.indexOf(',') + 1)))) };
+    }
+  } catch {
+    return { metadata: null };
+  }
+
+  if (uri.startsWith('ipfs://')) return { metadata: null, externalUri: uri };
+  return { metadata: null, externalUri: sanitizeWebsite(uri) };
+}
+
+/** Reads a logo file as a data URI after checking its type and size. */
+export function readLogoFile(file: File): Promise<string> {
+  if (!LOGO_MIME_TYPES.includes(file.type)) {
+    return Promise.reject(new Error('Logo must be a PNG, JPEG, GIF or WebP image.'));
+  }
+  if (file.size > MAX_LOGO_FILE_BYTES) {
+    return Promise.reject(
+      new Error(`Logo must be at most ${MAX_LOGO_FILE_BYTES / 1024} KB; use a URL for larger images.`),
+    );
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read the logo file.'));
+    reader.readAsDataURL(file);
+  });
+}
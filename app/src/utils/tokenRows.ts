@@ -0,0 +1,556 @@
+import type { usePublicClient } from 'wagmi';
+import { erc20Abi, type Hex } from 'viem';
+import {
+  type Address,
+  CONFIDENTIAL_TOKEN_FACTORY_ABI,
+  CONFIDENTIAL_ERC7984_TOKEN_ABI,
+  CONFIDENTIAL_TOKEN_LENS_ABI,
+  CONFIDENTIAL_ERC20_WRAPPER_ABI,
+} from '../config/contracts';
+import type { IndexedTokenSummary, IndexerHealth } from '../config/indexer';
+import type { TokenRow } from '../components/TokenCard';
+import { crowdsaleStateFromContract, type SaleConfig } from './saleSchedule';
+
+const LENS_PAGE_SIZE = 100n;
+const FACTORY_PAGE_SIZE = 500n;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+const ZERO_HANDLE = `0x${'0'.repeat(64)}` as Hex;
+
+// An account that never received a token has an all-zero balance handle, which needs no decryption.
+export function isZeroHandle(value: Hex) {
+  return value.toLowerCase() === ZERO_HANDLE;
+}
+
+/** Sealed-bid auction selling `token`, or null when the token is sold through `buy`. */
+export function auctionAddressOf(token: TokenRow): Address | null {
+  if (!token.distributor || token.distributor.toLowerCase() === ZERO_ADDRESS) return null;
+  return token.distributor;
+}
+
+export type TokenReadClient = NonNullable<ReturnType<typeof usePublicClient>>;
+
+type LensTokenInfo = {
+  token: Address;
+  name: string;
+  symbol: string;
+  owner: Address;
+  remainingForSaleClear: bigint;
+  totalSupplyClear: bigint;
+  pricePerTokenWei: bigint;
+  encryptedBalance: Hex;
+  contractURI: string;
+  saleConfig: SaleConfig;
+  remainingAllowance: bigint;
+  crowdsaleState: number;
+  totalRaisedWei: bigint;
+  contributedWei: bigint;
+  currentPricePerTokenWei: bigint;
+  distributor: Address;
+};
+
+function lensInfoToRow(info: LensTokenInfo, account: Address | undefined): TokenRow {
+  return {
+    address: info.token,
+    name: info.name,
+    symbol: info.symbol,
+    owner: info.owner,
+    remainingForSaleClear: info.remainingForSaleClear,
+    totalSupplyClear: info.totalSupplyClear,
+    pricePerTokenWei: info.pricePerTokenWei,
+    encryptedBalance: account ? info.encryptedBalance : undefined,
+    contractURI: info.contractURI,
+    saleConfig: info.saleConfig,
+    remainingAllowance: account ? info.remainingAllowance : undefined,
+    crowdsaleState: crowdsaleStateFromContract(info.crowdsaleState),
+    totalRaisedWei: info.totalRaisedWei,
+    contributedWei: account ? info.contributedWei : undefined,
+    currentPricePerTokenWei: info.currentPricePerTokenWei,
+    distributor: info.distributor,
+  };
+}
+
+// Page of the indexer's tokens (newest first) matching `search`, optionally only those `creator` created, plus the
+// number of matches. Throws when the indexer is down or follows another factory.
+export async function fetchTokenPageFromIndexer(
+  indexerUrl: string,
+  factoryAddress: Address,
+  query: { search: string; creator?: Address; offset: number; limit: number },
+): Promise<{ total: number; tokens: Address[] }> {
+  const healthResponse = await fetch(`${indexerUrl}/health`);
+  if (!healthResponse.ok) throw new Error(`Indexer health check failed (${healthResponse.status})`);
+  const health = (await healthResponse.json()) as IndexerHealth;
+  if (health.factory.toLowerCase() !== factoryAddress.toLowerCase()) {
+    throw new Error(`Indexer follows factory ${health.factory}, not ${factoryAddress}`);
+  }
+
+  const params = new URLSearchParams({
+    search: query.search,
+    offset: String(query.offset),
+    limit: String(query.limit),
+  });
+  if (query.creator) params.set('creator', query.creator);
+  const tokensResponse = await fetch(`${indexerUrl}/tokens?${params}`);
+  if (!tokensResponse.ok) throw new Error(`Indexer token list failed (${tokensResponse.status})`);
+  const { total, tokens } = (await tokensResponse.json()) as { total: number; tokens: IndexedTokenSummary[] };
+  return { total, tokens: tokens.map((token) => token.address) };
+}
+
+// Reads the factory's tokens, or those `creator` created, one page at a time. Factories deployed before the paged
+// getters only return whole lists.
+export async function loadFactoryTokenAddresses(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  creator?: Address,
+): Promise<Address[]> {
+  const readPage = (offset: bigint) =>
+    creator
+      ? publicClient.readContract({
+          address: factoryAddress,
+          abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+          functionName: 'getTokensByCreator',
+          args: [creator, offset, FACTORY_PAGE_SIZE],
+        })
+      : publicClient.readContract({
+          address: factoryAddress,
+          abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+          functionName: 'getTokens',
+          args: [offset, FACTORY_PAGE_SIZE],
+        });
+
+  let firstPage: readonly [bigint, readonly Address[]];
+  try {
+    firstPage = await readPage(0n);
+  } catch {
+    return creator
+      ? [
+          ...(await publicClient.readContract({
+            address: factoryAddress,
+            abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+            functionName: 'getTokensByCreator',
+            args: [creator],
+          })),
+        ]
+      : [
+          ...(await publicClient.readContract({
+            address: factoryAddress,
+            abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+            functionName: 'getAllTokens',
+          })),
+        ];
+  }
+
+  const [total, tokens] = firstPage;
+  const all: Address[] = [...tokens];
+  for (let offset = FACTORY_PAGE_SIZE; offset < total; offset += FACTORY_PAGE_SIZE) {
+    const [, page] = await readPage(offset);
+    all.push(...page);
+  }
+  return all;
+}
+
+export async function loadRowsViaLensList(
+  publicClient: TokenReadClient,
+  lensAddress: Address,
+  tokens: Address[],
+  account: Address | undefined,
+): Promise<TokenRow[]> {
+  const rows: TokenRow[] = [];
+  const chunkSize = Number(LENS_PAGE_SIZE);
+  for (let i = 0; i < tokens.length; i += chunkSize) {
+    const infos = (await publicClient.readContract({
+      address: lensAddress,
+      abi: CONFIDENTIAL_TOKEN_LENS_ABI,
+      functionName: 'getTokenInfos',
+      args: [tokens.slice(i, i + chunkSize), account ?? ZERO_ADDRESS],
+    })) as readonly LensTokenInfo[];
+    rows.push(...infos.map((info) => lensInfoToRow(info, account)));
+  }
+  return rows;
+}
+
+// One eth_call per page of tokens; `extraTokens` are appended when the factory listing does not include them.
+export async function loadRowsViaLens(
+  publicClient: TokenReadClient,
+  lensAddress: Address,
+  factoryAddress: Address,
+  extraTokens: Address[],
+  account: Address | undefined,
+): Promise<TokenRow[]> {
+  const rows: TokenRow[] = [];
+  let offset = 0n;
+  let total = 0n;
+  do {
+    const [pageTotal, infos] = (await publicClient.readContract({
+      address: lensAddress,
+      abi: CONFIDENTIAL_TOKEN_LENS_ABI,
+      functionName: 'getTokensPage',
+      args: [factoryAddress, offset, LENS_PAGE_SIZE, account ?? ZERO_ADDRESS],
+    })) as readonly [bigint, readonly LensTokenInfo[]];
+    total = pageTotal;
+    rows.push(...infos.map((info) => lensInfoToRow(info, account)));
+    offset += LENS_PAGE_SIZE;
+  } while (offset < total);
+
+  const seen = new Set(rows.map((row) => row.address.toLowerCase()));
+  const missing = extraTokens.filter((token) => !seen.has(token.toLowerCase()));
+  rows.push(...(await loadRowsViaLensList(publicClient, lensAddress, missing, account)));
+
+  return rows;
+}
+
+// Rows of an explicit list of tokens, through the lens when deployed and per-token reads otherwise.
+export async function loadRowsForTokens(
+  publicClient: TokenReadClient,
+  lensAddress: Address | null,
+  tokens: Address[],
+  account: Address | undefined,
+): Promise<TokenRow[]> {
+  if (lensAddress) {
+    try {
+      return await loadRowsViaLensList(publicClient, lensAddress, tokens, account);
+    } catch (err) {
+      console.warn('Lens read failed, falling back to per-token reads:', err);
+    }
+  }
+  return Promise.all(tokens.map((tokenAddress) => loadRowPerToken(publicClient, tokenAddress, account)));
+}
+
+// Rows `offset` to `offset + limit` of the factory's tokens counted from the newest, plus the token count. Factories
+// list oldest first, so the page is read from the end of the list.
+export async function loadNewestFactoryTokens(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  lensAddress: Address | null,
+  offset: number,
+  limit: number,
+  account: Address | undefined,
+): Promise<{ total: number; rows: TokenRow[] }> {
+  const total = Number(
+    await publicClient.readContract({
+      address: factoryAddress,
+      abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+      functionName: 'allTokensLength',
+    }),
+  );
+  const end = Math.max(0, total - offset);
+  const start = Math.max(0, end - limit);
+  if (start === end) return { total, rows: [] };
+
+  if (lensAddress) {
+    try {
+      const [, infos] = (await publicClient.readContract({
+        address: lensAddress,
+        abi: CONFIDENTIAL_TOKEN_LENS_ABI,
+        functionName: 'getTokensPage',
+        args: [factoryAddress, BigInt(start), BigInt(end - start), account ?? ZERO_ADDRESS],
+      })) as readonly [bigint, readonly LensTokenInfo[]];
+      return { total, rows: infos.map((info) => lensInfoToRow(info, account)).reverse() };
+    } catch (err) {
+      console.warn('Lens read failed, falling back to per-token reads:', err);
+    }
+  }
+
+  let tokens: readonly Address[];
+  try {
+    [, tokens] = await publicClient.readContract({
+      address: factoryAddress,
+      abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+      functionName: 'getTokens',
+      args: [BigInt(start), BigInt(end - start)],
+    });
+  } catch {
+    tokens = (await loadFactoryTokenAddresses(publicClient, factoryAddress)).slice(start, end);
+  }
+  const rows = await Promise.all(tokens.map((tokenAddress) => loadRowPerToken(publicClient, tokenAddress, account)));
+  return { total, rows: rows.reverse() };
+}
+
+// Reads a getter tokens from earlier factories may lack, resolving to undefined when the call reverts.
+function optionalRead<T>(read: Promise<T>): Promise<T | undefined> {
+  return read.catch(() => undefined);
+}
+
+// Tokens from factories deployed before sale configs, crowdsales, curves or auctions lack their getters; those fields
+// are left unset, which the card shows as a plain fixed-price sale.
+export async function loadRowPerToken(
+  publicClient: TokenReadClient,
+  tokenAddress: Address,
+  account: Address | undefined,
+): Promise<TokenRow> {
+  const [
+    tokenName,
+    tokenSymbol,
+    tokenOwner,
+    remainingForSaleClear,
+    totalSupplyClear,
+    pricePerTokenWei,
+    contractURI,
+    saleConfig,
+    crowdsaleState,
+    totalRaisedWei,
+    currentPricePerTokenWei,
+    distributor,
+    encryptedBalance,
+    remainingAllowance,
+    contributedWei,
+  ] = await Promise.all([
+    publicClient.readContract({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      functionName: 'name',
+    }) as Promise<string>,
+    publicClient.readContract({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      functionName: 'symbol',
+    }) as Promise<string>,
+    publicClient.readContract({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      functionName: 'owner',
+    }) as Promise<Address>,
+    publicClient.readContract({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      functionName: 'remainingForSaleClear',
+    }) as Promise<bigint>,
+    publicClient.readContract({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      functionName: 'totalSupplyClear',
+    }) as Promise<bigint>,
+    publicClient.readContract({
+      address: tokenAddress,
+      abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+      functionName: 'pricePerTokenWei',
+    }) as Promise<bigint>,
+    optionalRead(
+      publicClient.readContract({
+        address: tokenAddress,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'contractURI',
+      }) as Promise<string>,
+    ),
+    optionalRead(
+      publicClient.readContract({
+        address: tokenAddress,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'saleConfig',
+      }) as Promise<SaleConfig>,
+    ),
+    optionalRead(
+      publicClient.readContract({
+        address: tokenAddress,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'crowdsaleState',
+      }) as Promise<number>,
+    ),
+    optionalRead(
+      publicClient.readContract({
+        address: tokenAddress,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'totalRaisedWei',
+      }) as Promise<bigint>,
+    ),
+    optionalRead(
+      publicClient.readContract({
+        address: tokenAddress,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'currentPricePerTokenWei',
+      }) as Promise<bigint>,
+    ),
+    optionalRead(
+      publicClient.readContract({
+        address: tokenAddress,
+        abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+        functionName: 'distributor',
+      }) as Promise<Address>,
+    ),
+    account
+      ? (publicClient.readContract({
+          address: tokenAddress,
+          abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+          functionName: 'confidentialBalanceOf',
+          args: [account],
+        }) as Promise<Hex>)
+      : Promise.resolve(null),
+    account
+      ? optionalRead(
+          publicClient.readContract({
+            address: tokenAddress,
+            abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+            functionName: 'remainingAllowance',
+            args: [account],
+          }) as Promise<bigint>,
+        )
+      : Promise.resolve(null),
+    account
+      ? optionalRead(
+          publicClient.readContract({
+            address: tokenAddress,
+            abi: CONFIDENTIAL_ERC7984_TOKEN_ABI,
+            functionName: 'contributedWei',
+            args: [account],
+          }) as Promise<bigint>,
+        )
+      : Promise.resolve(null),
+  ]);
+
+  return {
+    address: tokenAddress,
+    name: tokenName,
+    symbol: tokenSymbol,
+    owner: tokenOwner,
+    remainingForSaleClear,
+    totalSupplyClear,
+    pricePerTokenWei,
+    encryptedBalance: encryptedBalance ?? undefined,
+    contractURI,
+    saleConfig,
+    remainingAllowance: remainingAllowance ?? undefined,
+    crowdsaleState: crowdsaleState === undefined ? undefined : crowdsaleStateFromContract(crowdsaleState),
+    totalRaisedWei,
+    contributedWei: contributedWei ?? undefined,
+    currentPricePerTokenWei,
+    distributor,
+  } satisfies TokenRow;
+}
+
+// Every token listed by the factory, through the lens when deployed and per-token reads otherwise.
+export async function loadFactoryTokenRows(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  lensAddress: Address | null,
+  account: Address | undefined,
+): Promise<TokenRow[]> {
+  if (lensAddress) {
+    try {
+      return await loadRowsViaLens(publicClient, lensAddress, factoryAddress, [], account);
+    } catch (err) {
+      console.warn('Lens read failed, falling back to per-token reads:', err);
+    }
+  }
+  const allTokens = await loadFactoryTokenAddresses(publicClient, factoryAddress);
+  return Promise.all(allTokens.map((tokenAddress) => loadRowPerToken(publicClient, tokenAddress, account)));
+}
+
+export async function loadWrapperRow(
+  publicClient: TokenReadClient,
+  wrapperAddress: Address,
+  account: Address | undefined,
+): Promise<TokenRow> {
+  const wrapper = { address: wrapperAddress, abi: CONFIDENTIAL_ERC20_WRAPPER_ABI } as const;
+  const [name, symbol, creator, underlying, decimals, rate, inferredTotalSupply, contractURI, encryptedBalance] =
+    await Promise.all([
+      publicClient.readContract({ ...wrapper, functionName: 'name' }),
+      publicClient.readContract({ ...wrapper, functionName: 'symbol' }),
+      publicClient.readContract({ ...wrapper, functionName: 'creator' }),
+      publicClient.readContract({ ...wrapper, functionName: 'underlying' }),
+      publicClient.readContract({ ...wrapper, functionName: 'decimals' }),
+      publicClient.readContract({ ...wrapper, functionName: 'rate' }),
+      publicClient.readContract({ ...wrapper, functionName: 'inferredTotalSupply' }),
+      publicClient.readContract({ ...wrapper, functionName: 'contractURI' }),
+      account
+        ? publicClient.readContract({ ...wrapper, functionName: 'confidentialBalanceOf', args: [account] })
+        : Promise.resolve(null),
+    ]);
+  const [underlyingSymbol, underlyingDecimals] = await Promise.all([
+    publicClient.readContract({ address: underlying, abi: erc20Abi, functionName: 'symbol' }),
+    publicClient.readContract({ address: underlying, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+
+  return {
+    address: wrapperAddress,
+    name,
+    symbol,
+    owner: creator,
+    remainingForSaleClear: 0n,
+    totalSupplyClear: inferredTotalSupply,
+    pricePerTokenWei: 0n,
+    encryptedBalance: encryptedBalance ?? undefined,
+    contractURI,
+    wrapper: { underlying, underlyingSymbol, underlyingDecimals, decimals, rate },
+  };
+}
+
+// ERC20 wrappers launched from the factory, or by `creator`, oldest first; factories deployed before wrappers existed
+// list none.
+export async function loadFactoryWrapperAddresses(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  creator?: Address,
+): Promise<Address[]> {
+  try {
+    const wrappers = creator
+      ? await publicClient.readContract({
+          address: factoryAddress,
+          abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+          functionName: 'getWrappersByCreator',
+          args: [creator],
+        })
+      : await publicClient.readContract({
+          address: factoryAddress,
+          abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+          functionName: 'getAllWrappers',
+        });
+    return [...wrappers];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadFactoryWrapperRows(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  account: Address | undefined,
+): Promise<TokenRow[]> {
+  const wrappers = await loadFactoryWrapperAddresses(publicClient, factoryAddress);
+  return Promise.all(wrappers.map((wrapperAddress) => loadWrapperRow(publicClient, wrapperAddress, account)));
+}
+
+export type FactoryListing = 'token' | 'wrapper';
+
+// Whether the factory launched `address`, and as what. Factories deployed before the membership getters are searched
+// through their lists instead.
+export async function factoryListingOf(
+  publicClient: TokenReadClient,
+  factoryAddress: Address,
+  address: Address,
+): Promise<FactoryListing | null> {
+  try {
+    const [isToken, isWrapper] = await Promise.all([
+      publicClient.readContract({
+        address: factoryAddress,
+        abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+        functionName: 'isToken',
+        args: [address],
+      }),
+      publicClient.readContract({
+        address: factoryAddress,
+        abi: CONFIDENTIAL_TOKEN_FACTORY_ABI,
+        functionName: 'isWrapper',
+        args: [address],
+      }),
+    ]);
+    return isToken ? 'token' : isWrapper ? 'wrapper' : null;
+  } catch {
+    const matches = (candidate: Address) => candidate.toLowerCase() === address.toLowerCase();
+    if ((await loadFactoryTokenAddresses(publicClient, factoryAddress)).some(matches)) return 'token';
+    const wrappers = await publicClient
+      .readContract({ address: factoryAddress, abi: CONFIDENTIAL_TOKEN_FACTORY_ABI, functionName: 'getAllWrappers' })
+      .catch(() => [] as readonly Address[]);
+    return wrappers.some(matches) ? 'wrapper' : null;
+  }
+}
+
+// A single token's row, through the lens when deployed and per-token reads otherwise.
+export async function loadTokenRow(
+  publicClient: TokenReadClient,
+  tokenAddress: Address,
+  lensAddress: Address | null,
+  account: Address | undefined,
+): Promise<TokenRow> {
+  const [row] = await loadRowsForTokens(publicClient, lensAddress, [tokenAddress], account);
+  return row;
+}
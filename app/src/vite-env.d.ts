@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Optional base URL of the Shadow Pad indexer API (e.g. http://localhost:4000). */
+  readonly VITE_INDEXER_URL?: string;
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ConfidentialSealedBidAuction} from "./ConfidentialSealedBidAuction.sol";
+
+/// @notice Deploys sealed-bid auctions for ConfidentialTokenFactory, which would exceed the contract size limit if it
+/// embedded the auction bytecode next to the token's.
+contract ConfidentialAuctionDeployer {
+    /// @dev The caller becomes the auction's factory, the only account allowed to initialize it.
+    function deploy(
+        address seller,
+        uint64 supply,
+        uint64 endTime,
+        uint64 reservePricePerTokenWei
+    ) external returns (ConfidentialSealedBidAuction auction) {
+        auction = new ConfidentialSealedBidAuction(msg.sender, seller, supply, endTime, reservePricePerTokenWei);
+    }
+}
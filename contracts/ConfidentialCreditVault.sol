@@ -0,0 +1,339 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {ConfidentialERC7984Token} from "./ConfidentialERC7984Token.sol";
+import {ConfidentialTokenFactory} from "./ConfidentialTokenFactory.sol";
+
+/// @notice Encrypted ETH credit for private purchases from the tokens of a factory. Buyers deposit ETH once, then buy
+/// encrypted amounts from any token's private pool: the cost is deducted from their credit under FHE, and a purchase
+/// the credit or the pool cannot cover transfers and charges nothing instead of reverting, so neither the amount nor
+/// the remaining credit is revealed.
+/// @dev Credit and proceeds are kept in wei * TOKEN_BASE, so the cost `amount * price` is exact and needs no encrypted
+/// division. Getting ETH out requires a public decryption: buyers reveal their credit only when they withdraw it, and
+/// token owners reveal the running total of their private sales, never individual purchases.
+/// Tokens priced in an ERC-7984 payment token are bought with `buyWithPaymentToken` instead: the vault, set as the
+/// buyer's operator, moves the encrypted cost from the buyer and pays it straight to the token owner.
+/// The factory's protocol fee is taken out of the seller's side of every private sale: from the ETH proceeds when
+/// they are released, and from each payment-token sale into an encrypted balance that `collectPaymentTokenFees`
+/// sends to the fee recipient.
+/// Sealed-bid auctions settle their bids here as well, so no fill is ever decrypted: the encrypted cost of what a bid
+/// won goes to the token's proceeds and the rest of its deposit to the bidder's credit.
+/// Only tokens the vault's factory created are served: purchases, proceeds and fees trust what a token reports, and the
+/// fee rate and recipient are read from the factory itself.
+contract ConfidentialCreditVault is ZamaEthereumConfig, ReentrancyGuard {
+    uint256 public constant TOKEN_BASE = 1_000_000;
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+
+    mapping(address account => euint128 credit) private _credit;
+    mapping(address account => euint128 credit) private _pendingWithdrawal;
+    mapping(address token => euint128 proceeds) private _proceeds;
+    mapping(address token => euint128 proceeds) private _pendingProceeds;
+    mapping(address token => euint64 fees) private _paymentTokenFees;
+
+    /// @notice Factory whose tokens this vault sells, set once by the deployer with `setFactory`.
+    ConfidentialTokenFactory public factory;
+    address private immutable _deployer;
+
+    event CreditDeposited(address indexed account, uint256 amountWei);
+    event PrivatePurchase(address indexed buyer, address indexed token, euint64 amount);
+    event WithdrawalRequested(address indexed account, euint128 credit);
+    event CreditWithdrawn(address indexed account, uint256 amountWei);
+    event ProceedsRevealed(address indexed token, euint128 proceeds);
+    event ProceedsReleased(address indexed token, address indexed to, uint256 amountWei);
+    event PaymentTokenFeesCollected(address indexed token, address indexed to, euint64 fees);
+    event FactorySet(address indexed factory);
+    event AuctionBidSettled(address indexed token, address indexed bidder, uint256 depositWei);
+
+    error InvalidAmount();
+    error Unauthorized();
+    error DecryptionPending();
+    error NothingToDecrypt();
+    error TransferFailed();
+    error UnsupportedPayment();
+    error NothingToCollect();
+    error FactoryAlreadySet();
+    error NotFactoryToken(address token);
+
+    modifier onlyTokenOwner(ConfidentialERC7984Token token) {
+        if (msg.sender != token.owner()) revert Unauthorized();
+        _;
+    }
+
+    modifier onlyFactoryToken(ConfidentialERC7984Token token) {
+        if (address(factory) == address(0) || !factory.isToken(address(token))) revert NotFactoryToken(address(token));
+        _;
+    }
+
+    constructor() {
+        _deployer = msg.sender;
+    }
+
+    /// @notice Links the vault to its factory. The factory is deployed after the token implementation, which needs
+    /// this vault's address, so the deployer sets it right after deploying the factory; it cannot be changed.
+    function setFactory(ConfidentialTokenFactory factory_) external {
+        if (msg.sender != _deployer) revert Unauthorized();
+        if (address(factory) != address(0)) revert FactoryAlreadySet();
+        factory = factory_;
+        emit FactorySet(address(factory_));
+    }
+
+    /// @notice Encrypted credit of `account` in wei * TOKEN_BASE, decryptable by the account.
+    function creditOf(address account) external view returns (euint128) {
+        return _credit[account];
+    }
+
+    /// @notice Credit `account` is withdrawing, publicly decryptable until `withdraw` pays it out.
+    function pendingWithdrawalOf(address account) external view returns (euint128) {
+        return _pendingWithdrawal[account];
+    }
+
+    /// @notice Encrypted private sale proceeds of `token` in wei * TOKEN_BASE, decryptable by its owner.
+    function proceedsOf(address token) external view returns (euint128) {
+        return _proceeds[token];
+    }
+
+    /// @notice Proceeds of `token` being released, publicly decryptable until `releaseProceeds` pays them out.
+    function pendingProceedsOf(address token) external view returns (euint128) {
+        return _pendingProceeds[token];
+    }
+
+    /// @notice Adds `msg.value` to the caller's encrypted credit. The deposit itself is public.
+    function deposit() external payable {
+        if (msg.value == 0) revert InvalidAmount();
+        _setCredit(msg.sender, FHE.add(_credit[msg.sender], SafeCast.toUint128(msg.value * TOKEN_BASE)));
+        emit CreditDeposited(msg.sender, msg.value);
+    }
+
+    /// @notice Buys an encrypted amount of `token` at its current price, paid from the caller's credit.
+    function buy(
+        ConfidentialERC7984Token token,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external nonReentrant onlyFactoryToken(token) returns (euint64 bought) {
+        if (token.saleConfig().paymentToken != address(0)) revert UnsupportedPayment();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint128 cost = FHE.mul(FHE.asEuint128(amount), SafeCast.toUint128(token.currentPricePerTokenWei()));
+        euint128 credit = _credit[msg.sender];
+
+        ebool covered = FHE.le(cost, credit);
+        euint64 requested = FHE.select(covered, amount, FHE.asEuint64(0));
+        FHE.allowTransient(requested, address(token));
+        bought = token.sellPrivate(msg.sender, requested);
+        _chargeCredit(token, covered, bought, cost, credit);
+
+        emit PrivatePurchase(msg.sender, address(token), bought);
+    }
+
+    /// @notice Buys an encrypted amount of `token` at its current price in the token's payment token. The caller must
+    /// have made this vault an operator of their payment token balance with `setOperator`. The cost is escrowed here
+    /// first, then paid to the token owner, less the protocol fee, if the token delivers and refunded otherwise, so
+    /// the transfers always succeed and reveal nothing.
+    function buyWithPaymentToken(
+        ConfidentialERC7984Token token,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external nonReentrant onlyFactoryToken(token) returns (euint64 bought) {
+        IERC7984 paymentToken = IERC7984(token.saleConfig().paymentToken);
+        if (address(paymentToken) == address(0)) revert UnsupportedPayment();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+
+        // Prices are per whole token, so the cost is rounded up like quoteBuy; it must still fit in a euint64.
+        euint128 cost = FHE.div(
+            FHE.add(
+                FHE.mul(FHE.asEuint128(amount), SafeCast.toUint128(token.currentPricePerTokenWei())),
+                uint128(TOKEN_BASE - 1)
+            ),
+            uint128(TOKEN_BASE)
+        );
+        ebool fits = FHE.le(cost, uint128(type(uint64).max));
+        euint64 charge = FHE.select(fits, FHE.asEuint64(cost), FHE.asEuint64(0));
+
+        FHE.allowTransient(charge, address(paymentToken));
+        euint64 paid = paymentToken.confidentialTransferFrom(msg.sender, address(this), charge);
+
+        euint64 requested = FHE.select(FHE.and(fits, FHE.eq(paid, charge)), amount, FHE.asEuint64(0));
+        FHE.allowTransient(requested, address(token));
+        bought = token.sellPrivate(msg.sender, requested);
+
+        _settlePaymentTokenSale(token, paymentToken, FHE.eq(bought, uint64(0)), amount, charge, paid);
+
+        emit PrivatePurchase(msg.sender, address(token), bought);
+    }
+
+    /// @notice Settles a bid of the sealed-bid auction selling `token`, the only caller allowed: `msg.value` is the
+    /// bid's deposit and `cost` the encrypted price of the tokens it was sent, in wei * TOKEN_BASE. The cost, never
+    /// more than the deposit, is added to the token's proceeds and the rest of the deposit to `bidder`'s credit.
+    function settleAuctionBid(
+        ConfidentialERC7984Token token,
+        address bidder,
+        euint128 cost
+    ) external payable onlyFactoryToken(token) {
+        if (msg.sender != token.distributor()) revert Unauthorized();
+        euint128 deposited = FHE.asEuint128(SafeCast.toUint128(msg.value * TOKEN_BASE));
+        euint128 paid = FHE.min(cost, deposited);
+        _setCredit(bidder, FHE.add(_credit[bidder], FHE.sub(deposited, paid)));
+        _setProceeds(token, FHE.add(_proceeds[address(token)], paid));
+        emit AuctionBidSettled(address(token), bidder, msg.value);
+    }
+
+    /// @notice Moves the caller's whole credit into a pending withdrawal and makes it publicly decryptable.
+    function requestWithdrawal() external {
+        if (FHE.isInitialized(_pendingWithdrawal[msg.sender])) revert DecryptionPending();
+        euint128 credit = _credit[msg.sender];
+        if (!FHE.isInitialized(credit)) revert NothingToDecrypt();
+
+        _pendingWithdrawal[msg.sender] = FHE.makePubliclyDecryptable(credit);
+        _setCredit(msg.sender, FHE.asEuint128(0));
+        emit WithdrawalRequested(msg.sender, credit);
+    }
+
+    /// @notice Pays out the caller's pending withdrawal; `amount` is its decrypted value and `decryptionProof` the KMS
+    /// signatures over it. Fractions of a wei stay in the vault.
+    function withdraw(uint128 amount, bytes calldata decryptionProof) external nonReentrant {
+        euint128 pending = _pendingWithdrawal[msg.sender];
+        if (!FHE.isInitialized(pending)) revert NothingToDecrypt();
+        _checkDecryption(pending, amount, decryptionProof);
+        _pendingWithdrawal[msg.sender] = euint128.wrap(0);
+
+        uint256 amountWei = amount / TOKEN_BASE;
+        (bool ok, ) = msg.sender.call{value: amountWei}("");
+        if (!ok) revert TransferFailed();
+        emit CreditWithdrawn(msg.sender, amountWei);
+    }
+
+    /// @notice Makes the private proceeds `token` collected so far publicly decryptable so its owner can release them.
+    function revealProceeds(ConfidentialERC7984Token token) external onlyFactoryToken(token) onlyTokenOwner(token) {
+        address key = address(token);
+        if (FHE.isInitialized(_pendingProceeds[key])) revert DecryptionPending();
+        euint128 proceeds = _proceeds[key];
+        if (!FHE.isInitialized(proceeds)) revert NothingToDecrypt();
+
+        _pendingProceeds[key] = FHE.makePubliclyDecryptable(proceeds);
+        _setProceeds(token, FHE.asEuint128(0));
+        emit ProceedsRevealed(key, proceeds);
+    }
+
+    /// @notice Sends the revealed proceeds of `token` to `to`, less the protocol fee at the factory's current rate;
+    /// `amount` is their decrypted value.
+    function releaseProceeds(
+        ConfidentialERC7984Token token,
+        address payable to,
+        uint128 amount,
+        bytes calldata decryptionProof
+    ) external nonReentrant onlyFactoryToken(token) onlyTokenOwner(token) {
+        address key = address(token);
+        euint128 pending = _pendingProceeds[key];
+        if (!FHE.isInitialized(pending)) revert NothingToDecrypt();
+        _checkDecryption(pending, amount, decryptionProof);
+        _pendingProceeds[key] = euint128.wrap(0);
+
+        uint256 proceedsWei = amount / TOKEN_BASE;
+        uint256 feeWei = (proceedsWei * factory.purchaseFeeBps()) / BPS_DENOMINATOR;
+        if (feeWei > 0) token.forwardPurchaseFee{value: feeWei}();
+
+        uint256 amountWei = proceedsWei - feeWei;
+        (bool ok, ) = to.call{value: amountWei}("");
+        if (!ok) revert TransferFailed();
+        emit ProceedsReleased(key, to, amountWei);
+    }
+
+    /// @notice Sends the protocol fees collected on `token`'s payment-token sales to the factory's fee recipient.
+    /// Anyone can call it.
+    function collectPaymentTokenFees(ConfidentialERC7984Token token) external nonReentrant onlyFactoryToken(token) {
+        address key = address(token);
+        euint64 fees = _paymentTokenFees[key];
+        if (!FHE.isInitialized(fees)) revert NothingToCollect();
+        _paymentTokenFees[key] = euint64.wrap(0);
+
+        address to = factory.feeRecipient();
+        IERC7984 paymentToken = IERC7984(token.saleConfig().paymentToken);
+        FHE.allowTransient(fees, address(paymentToken));
+        paymentToken.confidentialTransfer(to, fees);
+        emit PaymentTokenFeesCollected(key, to, fees);
+    }
+
+    /// @dev Moves the `cost` of a delivered purchase from the buyer's `credit` to the token's proceeds. The token
+    /// transfers either the whole request or nothing, so only a non-zero transfer is charged, and never unless the
+    /// credit was found to cover it.
+    function _chargeCredit(
+        ConfidentialERC7984Token token,
+        ebool covered,
+        euint64 bought,
+        euint128 cost,
+        euint128 credit
+    ) private {
+        euint128 paid = FHE.select(FHE.and(covered, FHE.ne(bought, uint64(0))), cost, FHE.asEuint128(0));
+        _setCredit(msg.sender, FHE.sub(credit, paid));
+        _setProceeds(token, FHE.add(_proceeds[address(token)], paid));
+    }
+
+    /// @dev Pays the token owner their share of a delivered purchase, or refunds the buyer what they paid for one the
+    /// token did not deliver.
+    function _settlePaymentTokenSale(
+        ConfidentialERC7984Token token,
+        IERC7984 paymentToken,
+        ebool unsold,
+        euint64 amount,
+        euint64 charge,
+        euint64 paid
+    ) private {
+        euint64 proceeds = _takePaymentTokenFee(token, unsold, amount, charge);
+        euint64 refund = FHE.select(unsold, paid, FHE.asEuint64(0));
+        FHE.allowTransient(proceeds, address(paymentToken));
+        FHE.allowTransient(refund, address(paymentToken));
+        paymentToken.confidentialTransfer(token.owner(), proceeds);
+        paymentToken.confidentialTransfer(msg.sender, refund);
+    }
+
+    /// @dev Keeps the protocol fee of a payment-token sale here and returns the owner's share of the `charge` a
+    /// delivered purchase paid. The fee is taken on the exact price of `amount`, rounded down, and computed from the
+    /// amount rather than the charge so it runs alongside the cost: the coprocessor bounds the depth of the encrypted
+    /// operations in a transaction, and every transfer out of this vault adds to it, which is also why the fee is
+    /// collected later instead of sent on here. The fee never exceeds the charge, so the owner's share cannot wrap.
+    function _takePaymentTokenFee(
+        ConfidentialERC7984Token token,
+        ebool unsold,
+        euint64 amount,
+        euint64 charge
+    ) private returns (euint64 proceeds) {
+        uint256 feePerToken = token.currentPricePerTokenWei() * factory.purchaseFeeBps();
+        euint64 fee = FHE.min(
+            FHE.asEuint64(
+                FHE.div(
+                    FHE.mul(FHE.asEuint128(amount), SafeCast.toUint128(feePerToken)),
+                    uint128(TOKEN_BASE * BPS_DENOMINATOR)
+                )
+            ),
+            charge
+        );
+        euint64 zero = FHE.asEuint64(0);
+        proceeds = FHE.select(unsold, zero, FHE.sub(charge, fee));
+
+        euint64 fees = FHE.add(_paymentTokenFees[address(token)], FHE.select(unsold, zero, fee));
+        _paymentTokenFees[address(token)] = fees;
+        FHE.allowThis(fees);
+    }
+
+    function _setCredit(address account, euint128 credit) private {
+        _credit[account] = credit;
+        FHE.allowThis(credit);
+        FHE.allow(credit, account);
+    }
+
+    function _setProceeds(ConfidentialERC7984Token token, euint128 proceeds) private {
+        _proceeds[address(token)] = proceeds;
+        FHE.allowThis(proceeds);
+        FHE.allow(proceeds, token.owner());
+    }
+
+    function _checkDecryption(euint128 handle, uint128 amount, bytes calldata decryptionProof) private {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = euint128.unwrap(handle);
+        FHE.checkSignatures(handles, abi.encode(amount), decryptionProof);
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+// solhint-disable-next-line max-line-length
+import {ERC7984ERC20Wrapper} from "@openzeppelin/confidential-contracts/token/ERC7984/extensions/ERC7984ERC20Wrapper.sol";
+// solhint-disable-next-line max-line-length
+import {ERC7984ObserverAccess} from "@openzeppelin/confidential-contracts/token/ERC7984/extensions/ERC7984ObserverAccess.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+
+/// @notice Confidential twin of a public ERC20. `wrap` locks the ERC20 and mints the same amount as an encrypted
+/// balance; `unwrap` burns an encrypted amount and `finalizeUnwrap` releases the ERC20 once the burnt amount has been
+/// publicly decrypted.
+/// @dev The wrapper has at most 6 decimals; underlying tokens with more are wrapped at `rate()` units per wrapped unit
+/// and any remainder below the rate is left with the sender. Holders can name a viewer, as on the factory's tokens.
+contract ConfidentialERC20Wrapper is ERC7984ERC20Wrapper, ERC7984ObserverAccess, ZamaEthereumConfig {
+    /// @notice Account that launched the wrapper through the factory. It has no special rights.
+    address public immutable creator;
+
+    constructor(
+        IERC20 underlying_,
+        string memory name_,
+        string memory symbol_,
+        string memory contractURI_,
+        address creator_
+    ) ERC7984(name_, symbol_, contractURI_) ERC7984ERC20Wrapper(underlying_) {
+        creator = creator_;
+    }
+
+    function decimals() public view override(ERC7984, ERC7984ERC20Wrapper) returns (uint8) {
+        return super.decimals();
+    }
+
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal override(ERC7984ERC20Wrapper, ERC7984ObserverAccess) returns (euint64) {
+        return super._update(from, to, amount);
+    }
+}
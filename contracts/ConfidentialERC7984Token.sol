@@ -2,77 +2,376 @@
 pragma solidity ^0.8.27;
 
 import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+// solhint-disable-next-line max-line-length
+import {ERC7984ObserverAccess} from "@openzeppelin/confidential-contracts/token/ERC7984/extensions/ERC7984ObserverAccess.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {IProtocolFees} from "./interfaces/IProtocolFees.sol";
+
+/// @dev Each holder can name one observer with `setObserver`, who gets ACL access to the holder's current balance and
+/// every balance and transfer amount after it, until the holder clears it.
+/// Tokens are EIP-1167 clones of one implementation, set up once through `initialize`; the implementation itself can
+/// never be initialized.
+contract ConfidentialERC7984Token is
+    ERC7984ObserverAccess,
+    ZamaEthereumConfig,
+    Ownable,
+    ReentrancyGuard,
+    Initializable
+{
+    /// @dev Timestamps are unix seconds. `startTime` 0 opens the sale immediately and `endTime` 0 never closes it.
+    /// When `allowlistRoot` is set, only allowlisted wallets can buy until `publicStartTime`. `maxPerWallet` 0 means
+    /// no per-wallet cap. A non-zero `softCapWei` turns the sale into an escrowed crowdsale ending at `endTime`.
+    /// With a `Linear` curve the price rises from `pricePerTokenWei` to `endPricePerTokenWei` as the supply sells;
+    /// with `Dutch` it falls from `pricePerTokenWei` to the `endPricePerTokenWei` floor between `startTime` and
+    /// `endTime`.
+    /// A non-zero `paymentToken` prices the sale in that ERC-7984 token instead of ETH: the whole supply goes into the
+    /// private pool and is bought through the credit vault with encrypted amounts.
+    struct SaleConfig {
+        uint64 startTime;
+        uint64 endTime;
+        uint64 publicStartTime;
+        uint64 maxPerWallet;
+        bytes32 allowlistRoot;
+        uint256 softCapWei;
+        PricingCurve curve;
+        uint256 endPricePerTokenWei;
+        address paymentToken;
+    }
+
+    enum PricingCurve {
+        Flat,
+        Linear,
+        Dutch
+    }
+
+    enum SalePhase {
+        NotStarted,
+        Allowlist,
+        Public,
+        Ended
+    }
+
+    /// @dev `None` for sales without a soft cap; `Active` until `finalizeSale` settles the crowdsale.
+    enum CrowdsaleState {
+        None,
+        Active,
+        Succeeded,
+        Failed
+    }
 
-contract ConfidentialERC7984Token is ERC7984, ZamaEthereumConfig, Ownable, ReentrancyGuard {
     uint256 public constant TOKEN_BASE = 1_000_000;
+    uint256 public constant MAX_CONTRACT_URI_LENGTH = 8192;
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+
+    /// @dev The only caller of `sellPrivate`; it charges buyers' encrypted ETH credit or payment token for the
+    /// purchase. Kept in the implementation's code, so it is shared by every clone.
+    address public immutable creditVault;
 
-    uint64 public immutable totalSupplyClear;
+    uint64 public totalSupplyClear;
+    /// @dev Holds the whole supply when another contract, such as a sealed-bid auction, distributes the token instead
+    /// of `buy`; zero for tokens sold by this contract.
+    address public distributor;
+    /// @dev Sets the protocol fee charged on every sale and forwards it to its fee recipient.
+    address public factory;
+    string private _tokenName;
+    string private _tokenSymbol;
     uint64 public remainingForSaleClear;
     uint256 public pricePerTokenWei;
+    string private _metadataURI;
+    SaleConfig private _saleConfig;
+    mapping(address buyer => uint64 amount) public purchasedClear;
+
+    CrowdsaleState public crowdsaleState;
+    /// @dev Only tracked for soft-cap sales, where it decides whether the crowdsale succeeded.
+    uint256 public totalRaisedWei;
+    /// @dev What `claimRefund` returns if the crowdsale fails: the sale price plus the protocol fee paid on it.
+    mapping(address buyer => uint256 amountWei) public contributedWei;
+    /// @dev Protocol fees held while a soft-cap sale is unsettled; forwarded to the factory if it succeeds.
+    uint256 public escrowedFeeWei;
+
+    /// @dev Supply moved out of the public sale into the pool sold through the credit vault, and what is left of it.
+    uint64 public privateSupplyClear;
+    euint64 private _privateInventory;
 
-    event TokenPurchased(address indexed buyer, uint64 amount, uint256 requiredWei, uint256 paidWei);
+    /// @dev `requiredWei` is the sale price kept by the token; the factory reports the protocol fee on top of it.
+    event TokenPurchased(
+        address indexed buyer,
+        uint64 amount,
+        uint256 requiredWei,
+        uint256 paidWei,
+        uint256 averagePricePerTokenWei
+    );
     event PriceUpdated(uint256 oldPricePerTokenWei, uint256 newPricePerTokenWei);
     event Withdrawn(address indexed to, uint256 amountWei);
+    event ContractURIUpdated();
+    event SaleFinalized(bool succeeded, uint256 totalRaisedWei);
+    event Refunded(address indexed buyer, uint64 amount, uint256 amountWei);
+    event PrivateSupplyAllocated(uint64 amount);
 
     error InvalidAmount();
     error SoldOut();
     error InsufficientPayment(uint256 requiredWei, uint256 paidWei);
     error RefundFailed();
     error InvalidWithdraw();
+    error PriceAboveLimit(uint256 requiredWei, uint256 maxWei);
+    error DeadlineExpired(uint256 deadline);
+    error ContractURITooLong(uint256 length, uint256 maxLength);
+    error InvalidSaleConfig();
+    error SaleNotStarted(uint64 startTime);
+    error SaleEnded(uint64 endTime);
+    error NotAllowlisted(address buyer);
+    error WalletCapExceeded(uint64 amount, uint64 remainingAllowance);
+    error SaleNotFinalizable();
+    error PriceSetByCurve();
+    error ProceedsInEscrow();
+    error RefundUnavailable();
+    error TransfersLocked();
+    error PrivateSaleUnsupported();
 
-    constructor(
+    constructor(address creditVault_) ERC7984("", "", "") Ownable(msg.sender) {
+        creditVault = creditVault_;
+        _disableInitializers();
+    }
+
+    /// @notice Sets up a fresh clone and mints its whole supply, to itself for sale or to `distributor_`. The caller
+    /// becomes the token's `factory`, whose protocol fees apply to its sales.
+    function initialize(
         string memory name_,
         string memory symbol_,
         uint64 totalSupply_,
         uint256 pricePerTokenWei_,
         string memory contractURI_,
-        address owner_
-    ) ERC7984(name_, symbol_, contractURI_) Ownable(owner_) {
+        SaleConfig memory saleConfig_,
+        address owner_,
+        address distributor_
+    ) external initializer {
         if (totalSupply_ == 0) revert InvalidAmount();
+        if (owner_ == address(0)) revert OwnableInvalidOwner(address(0));
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        _transferOwnership(owner_);
 
+        _tokenName = name_;
+        _tokenSymbol = symbol_;
         totalSupplyClear = totalSupply_;
-        remainingForSaleClear = totalSupply_;
+        distributor = distributor_;
+        factory = msg.sender;
         pricePerTokenWei = pricePerTokenWei_;
 
-        _mint(address(this), FHE.asEuint64(totalSupply_));
+        _setContractURI(contractURI_);
+        _setSaleConfig(saleConfig_);
+
+        if (distributor_ == address(0)) {
+            remainingForSaleClear = totalSupply_;
+            _mint(address(this), FHE.asEuint64(totalSupply_));
+            if (saleConfig_.paymentToken != address(0)) _allocatePrivateSupply(totalSupply_);
+        } else {
+            _mint(distributor_, FHE.asEuint64(totalSupply_));
+        }
+    }
+
+    function name() public view override returns (string memory) {
+        return _tokenName;
+    }
+
+    function symbol() public view override returns (string memory) {
+        return _tokenSymbol;
+    }
+
+    function contractURI() public view override returns (string memory) {
+        return _metadataURI;
+    }
+
+    function saleConfig() external view returns (SaleConfig memory) {
+        return _saleConfig;
+    }
+
+    function salePhase() public view returns (SalePhase) {
+        SaleConfig memory config = _saleConfig;
+        if (crowdsaleState == CrowdsaleState.Succeeded || crowdsaleState == CrowdsaleState.Failed) {
+            return SalePhase.Ended;
+        }
+        if (block.timestamp < config.startTime) return SalePhase.NotStarted;
+        if (config.endTime != 0 && block.timestamp >= config.endTime) return SalePhase.Ended;
+        if (config.allowlistRoot != bytes32(0) && block.timestamp < config.publicStartTime) return SalePhase.Allowlist;
+        return SalePhase.Public;
+    }
+
+    /// @notice Amount `buyer` can still purchase, bounded by the per-wallet cap and the remaining sale supply.
+    function remainingAllowance(address buyer) public view returns (uint64) {
+        uint64 cap = _saleConfig.maxPerWallet;
+        if (cap == 0) return remainingForSaleClear;
+        uint64 purchased = purchasedClear[buyer];
+        uint64 left = purchased >= cap ? 0 : cap - purchased;
+        return left < remainingForSaleClear ? left : remainingForSaleClear;
     }
 
+    /// @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(account))))`, as built by `task:allowlist:build`.
+    function isAllowlisted(address account, bytes32[] memory proof) public view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        return MerkleProof.verify(proof, _saleConfig.allowlistRoot, leaf);
+    }
+
+    /// @notice Encrypted part of the private pool not yet sold, decryptable by the owner.
+    function privateInventory() external view returns (euint64) {
+        return _privateInventory;
+    }
+
+    /// @notice Price of the next whole token; on a linear curve it grows with the amount sold and in a Dutch auction
+    /// it decays with time, rounded up to the wei.
+    function currentPricePerTokenWei() public view returns (uint256) {
+        if (_saleConfig.curve == PricingCurve.Flat) return pricePerTokenWei;
+        if (_saleConfig.curve == PricingCurve.Dutch) {
+            uint64 start = _saleConfig.startTime;
+            uint64 end = _saleConfig.endTime;
+            if (block.timestamp <= start) return pricePerTokenWei;
+            if (block.timestamp >= end) return _saleConfig.endPricePerTokenWei;
+            uint256 decay = Math.mulDiv(
+                pricePerTokenWei - _saleConfig.endPricePerTokenWei,
+                block.timestamp - start,
+                end - start
+            );
+            return pricePerTokenWei - decay;
+        }
+        uint256 sold = totalSupplyClear - remainingForSaleClear;
+        uint256 range = _saleConfig.endPricePerTokenWei - pricePerTokenWei;
+        return pricePerTokenWei + Math.mulDiv(range, sold, totalSupplyClear);
+    }
+
+    /// @notice ETH `buy` charges for `amount`: the sale price plus the protocol fee on it.
     function quoteBuy(uint64 amount) public view returns (uint256 requiredWei) {
-        if (amount == 0) return 0;
-        if (pricePerTokenWei == 0) return 0;
-        requiredWei = Math.mulDiv(uint256(amount), pricePerTokenWei, TOKEN_BASE, Math.Rounding.Ceil);
+        (uint256 costWei, uint256 feeWei) = quoteBuyWithFee(amount);
+        requiredWei = costWei + feeWei;
+    }
+
+    /// @notice Splits the quote for `amount` into the sale price kept by the token and the protocol fee, rounded
+    /// down. The fee rate is the factory's at the time of the purchase.
+    function quoteBuyWithFee(uint64 amount) public view returns (uint256 costWei, uint256 feeWei) {
+        costWei = _quoteCost(amount);
+        feeWei = (costWei * IProtocolFees(factory).purchaseFeeBps()) / BPS_DENOMINATOR;
     }
 
     function buy(uint64 amount) external payable nonReentrant returns (euint64 transferred) {
+        transferred = _buy(amount, type(uint256).max, new bytes32[](0));
+    }
+
+    /// @dev Reverts if the quote moved above `maxWei` or `deadline` has passed; any excess ETH is refunded.
+    function buy(
+        uint64 amount,
+        uint256 maxWei,
+        uint256 deadline
+    ) external payable nonReentrant returns (euint64 transferred) {
+        if (block.timestamp > deadline) revert DeadlineExpired(deadline);
+        transferred = _buy(amount, maxWei, new bytes32[](0));
+    }
+
+    /// @dev Same as `buy(amount, maxWei, deadline)` with the Merkle `proof` required during the allowlist phase.
+    function buy(
+        uint64 amount,
+        uint256 maxWei,
+        uint256 deadline,
+        bytes32[] calldata proof
+    ) external payable nonReentrant returns (euint64 transferred) {
+        if (block.timestamp > deadline) revert DeadlineExpired(deadline);
+        transferred = _buy(amount, maxWei, proof);
+    }
+
+    /// @notice Moves `amount` from the public sale into the pool sold privately through the credit vault. Only
+    /// flat-price and Dutch sales without a per-wallet cap or soft cap support it, as those need clear amounts.
+    function allocatePrivateSupply(uint64 amount) external onlyOwner {
+        if (
+            creditVault == address(0) ||
+            _saleConfig.curve == PricingCurve.Linear ||
+            _saleConfig.maxPerWallet != 0 ||
+            crowdsaleState != CrowdsaleState.None
+        ) revert PrivateSaleUnsupported();
         if (amount == 0) revert InvalidAmount();
         if (amount > remainingForSaleClear) revert SoldOut();
+        _allocatePrivateSupply(amount);
+    }
 
-        uint256 requiredWei = quoteBuy(amount);
-        if (msg.value < requiredWei) revert InsufficientPayment(requiredWei, msg.value);
+    /// @notice Sends `buyer` an encrypted `amount` from the private pool, or zero if the pool cannot cover it. Called
+    /// by the credit vault once it has checked the buyer's credit; the vault charges only what was transferred.
+    function sellPrivate(address buyer, euint64 amount) external returns (euint64 transferred) {
+        if (msg.sender != creditVault) revert Unauthorized();
+        SalePhase phase = salePhase();
+        if (phase == SalePhase.NotStarted) revert SaleNotStarted(_saleConfig.startTime);
+        if (phase == SalePhase.Ended) revert SaleEnded(_saleConfig.endTime);
+        if (phase == SalePhase.Allowlist) revert NotAllowlisted(buyer);
+        if (privateSupplyClear == 0) revert SoldOut();
 
-        remainingForSaleClear -= amount;
-        transferred = _transfer(address(this), msg.sender, FHE.asEuint64(amount));
-
-        uint256 refund = msg.value - requiredWei;
-        if (refund > 0) {
-            (bool ok, ) = msg.sender.call{value: refund}("");
-            if (!ok) revert RefundFailed();
-        }
+        euint64 sold = FHE.select(FHE.le(amount, _privateInventory), amount, FHE.asEuint64(0));
+        _privateInventory = FHE.sub(_privateInventory, sold);
+        FHE.allowThis(_privateInventory);
+        FHE.allow(_privateInventory, owner());
 
-        emit TokenPurchased(msg.sender, amount, requiredWei, msg.value);
+        transferred = _transfer(address(this), buyer, sold);
+        FHE.allowTransient(transferred, msg.sender);
     }
 
     function setPricePerTokenWei(uint256 newPricePerTokenWei) external onlyOwner {
+        if (_saleConfig.curve != PricingCurve.Flat) revert PriceSetByCurve();
         emit PriceUpdated(pricePerTokenWei, newPricePerTokenWei);
         pricePerTokenWei = newPricePerTokenWei;
     }
 
+    /// @dev Emits the ERC-7572 `ContractURIUpdated` event so indexers and marketplaces refresh the metadata.
+    function setContractURI(string calldata newContractURI) external onlyOwner {
+        _setContractURI(newContractURI);
+        emit ContractURIUpdated();
+    }
+
+    /// @notice Settles a soft-cap sale once it has ended or sold out. Anyone can call it. On success the escrowed
+    /// protocol fees go to the factory; on failure they stay here for `claimRefund`.
+    function finalizeSale() external nonReentrant {
+        if (crowdsaleState != CrowdsaleState.Active) revert SaleNotFinalizable();
+        if (block.timestamp < _saleConfig.endTime && remainingForSaleClear != 0) revert SaleNotFinalizable();
+
+        bool succeeded = totalRaisedWei >= _saleConfig.softCapWei;
+        crowdsaleState = succeeded ? CrowdsaleState.Succeeded : CrowdsaleState.Failed;
+        uint256 feeWei = escrowedFeeWei;
+        escrowedFeeWei = 0;
+        if (succeeded && feeWei > 0) IProtocolFees(factory).payPurchaseFee{value: feeWei}();
+
+        emit SaleFinalized(succeeded, totalRaisedWei);
+    }
+
+    /// @notice Returns the caller's ETH, protocol fee included, after a failed soft-cap sale and takes their purchased
+    /// tokens back into inventory. Transfers stay locked until a crowdsale succeeds, so the caller still holds exactly
+    /// those tokens.
+    function claimRefund() external nonReentrant {
+        if (crowdsaleState != CrowdsaleState.Failed) revert RefundUnavailable();
+        uint256 amountWei = contributedWei[msg.sender];
+        uint64 amount = purchasedClear[msg.sender];
+        if (amountWei == 0 && amount == 0) revert RefundUnavailable();
+
+        contributedWei[msg.sender] = 0;
+        purchasedClear[msg.sender] = 0;
+        remainingForSaleClear += amount;
+        _transfer(msg.sender, address(this), FHE.asEuint64(amount));
+
+        (bool ok, ) = msg.sender.call{value: amountWei}("");
+        if (!ok) revert RefundFailed();
+
+        emit Refunded(msg.sender, amount, amountWei);
+    }
+
+    /// @notice Pays the protocol fee on a sale made outside `buy` to the factory: the credit vault sends it for private
+    /// sales and the distributor for the sales it settles.
+    function forwardPurchaseFee() external payable {
+        if (msg.sender != creditVault && msg.sender != distributor) revert Unauthorized();
+        IProtocolFees(factory).payPurchaseFee{value: msg.value}();
+    }
+
     function withdraw(address payable to, uint256 amountWei) external onlyOwner nonReentrant {
+        if (crowdsaleState == CrowdsaleState.Active || crowdsaleState == CrowdsaleState.Failed) {
+            revert ProceedsInEscrow();
+        }
         if (to == address(0) || amountWei == 0) revert InvalidWithdraw();
         if (amountWei > address(this).balance) revert InvalidWithdraw();
 
@@ -81,5 +380,139 @@ contract ConfidentialERC7984Token is ERC7984, ZamaEthereumConfig, Ownable, Reent
 
         emit Withdrawn(to, amountWei);
     }
+
+    function _allocatePrivateSupply(uint64 amount) internal {
+        remainingForSaleClear -= amount;
+        privateSupplyClear += amount;
+        _privateInventory = FHE.add(_privateInventory, amount);
+        FHE.allowThis(_privateInventory);
+        FHE.allow(_privateInventory, owner());
+
+        emit PrivateSupplyAllocated(amount);
+    }
+
+    function _setContractURI(string memory newContractURI) internal {
+        uint256 length = bytes(newContractURI).length;
+        if (length > MAX_CONTRACT_URI_LENGTH) revert ContractURITooLong(length, MAX_CONTRACT_URI_LENGTH);
+        _metadataURI = newContractURI;
+    }
+
+    /// @dev While a soft-cap sale is unsettled or failed, tokens can only move to or from this contract.
+    function _update(address from, address to, euint64 amount) internal override returns (euint64 transferred) {
+        if (
+            (crowdsaleState == CrowdsaleState.Active || crowdsaleState == CrowdsaleState.Failed) &&
+            from != address(this) &&
+            to != address(this)
+        ) revert TransfersLocked();
+        transferred = super._update(from, to, amount);
+    }
+
+    function _setSaleConfig(SaleConfig memory config) internal {
+        if (
+            !_validSaleWindow(config) ||
+            !_validPricing(config) ||
+            !_validAllowlist(config) ||
+            !_validPaymentToken(config)
+        ) revert InvalidSaleConfig();
+        if (config.softCapWei != 0) crowdsaleState = CrowdsaleState.Active;
+        _saleConfig = config;
+    }
+
+    /// @dev A soft-cap sale needs an `endTime` to be settled at.
+    function _validSaleWindow(SaleConfig memory config) internal pure returns (bool) {
+        if (config.endTime != 0 && config.endTime <= config.startTime) return false;
+        return config.softCapWei == 0 || config.endTime != 0;
+    }
+
+    function _validPricing(SaleConfig memory config) internal view returns (bool) {
+        if (config.curve == PricingCurve.Flat) return config.endPricePerTokenWei == 0;
+        if (config.curve == PricingCurve.Linear) return config.endPricePerTokenWei >= pricePerTokenWei;
+        // A Dutch auction needs a bounded window to decay over and a floor at or below the start price.
+        return config.startTime != 0 && config.endTime != 0 && config.endPricePerTokenWei <= pricePerTokenWei;
+    }
+
+    function _validAllowlist(SaleConfig memory config) internal pure returns (bool) {
+        if (config.allowlistRoot == bytes32(0)) return config.publicStartTime == 0;
+        return
+            config.publicStartTime > config.startTime &&
+            (config.endTime == 0 || config.publicStartTime <= config.endTime);
+    }
+
+    /// @dev Payment-token sales go through the private pool, with the same restrictions as allocatePrivateSupply.
+    function _validPaymentToken(SaleConfig memory config) internal view returns (bool) {
+        return
+            config.paymentToken == address(0) ||
+            (creditVault != address(0) &&
+                config.curve != PricingCurve.Linear &&
+                config.maxPerWallet == 0 &&
+                config.softCapWei == 0);
+    }
+
+    /// @dev On a linear curve this integrates the price over the `amount` base units after those already sold:
+    /// `(p0 * a + (p1 - p0) * ((s + a)^2 - s^2) / (2 * supply)) / TOKEN_BASE`. Both divisions round up, so the quote
+    /// never undercharges and splitting a purchase never costs less than making it at once. In a Dutch auction the
+    /// whole amount is charged at the price of the current block.
+    function _quoteCost(uint64 amount) internal view returns (uint256 requiredWei) {
+        if (_saleConfig.curve != PricingCurve.Linear) {
+            return Math.mulDiv(uint256(amount), currentPricePerTokenWei(), TOKEN_BASE, Math.Rounding.Ceil);
+        }
+
+        uint256 sold = totalSupplyClear - remainingForSaleClear;
+        uint256 rise = Math.mulDiv(
+            _saleConfig.endPricePerTokenWei - pricePerTokenWei,
+            uint256(amount) * (2 * sold + amount),
+            2 * uint256(totalSupplyClear),
+            Math.Rounding.Ceil
+        );
+        requiredWei = Math.ceilDiv(uint256(amount) * pricePerTokenWei + rise, TOKEN_BASE);
+    }
+
+    function _buy(uint64 amount, uint256 maxWei, bytes32[] memory proof) internal returns (euint64 transferred) {
+        _checkSaleOpenTo(msg.sender, proof);
+        _checkPurchaseAmount(msg.sender, amount);
+        (uint256 costWei, uint256 feeWei) = _checkPayment(amount, maxWei);
+        uint256 requiredWei = costWei + feeWei;
+
+        remainingForSaleClear -= amount;
+        purchasedClear[msg.sender] += amount;
+        if (crowdsaleState == CrowdsaleState.Active) {
+            totalRaisedWei += costWei;
+            contributedWei[msg.sender] += requiredWei;
+            escrowedFeeWei += feeWei;
+        } else if (feeWei > 0) {
+            IProtocolFees(factory).payPurchaseFee{value: feeWei}();
+        }
+        transferred = _transfer(address(this), msg.sender, FHE.asEuint64(amount));
+
+        uint256 refund = msg.value - requiredWei;
+        if (refund > 0) {
+            (bool ok, ) = msg.sender.call{value: refund}("");
+            if (!ok) revert RefundFailed();
+        }
+
+        emit TokenPurchased(msg.sender, amount, costWei, msg.value, (costWei * TOKEN_BASE) / amount);
+    }
+
+    function _checkSaleOpenTo(address buyer, bytes32[] memory proof) internal view {
+        SalePhase phase = salePhase();
+        if (phase == SalePhase.NotStarted) revert SaleNotStarted(_saleConfig.startTime);
+        if (phase == SalePhase.Ended) revert SaleEnded(_saleConfig.endTime);
+        if (phase == SalePhase.Allowlist && !isAllowlisted(buyer, proof)) revert NotAllowlisted(buyer);
+    }
+
+    function _checkPurchaseAmount(address buyer, uint64 amount) internal view {
+        if (amount == 0) revert InvalidAmount();
+        if (amount > remainingForSaleClear) revert SoldOut();
+        uint64 allowance = remainingAllowance(buyer);
+        if (amount > allowance) revert WalletCapExceeded(amount, allowance);
+    }
+
+    /// @dev Returns the quote for `amount` once `msg.value` covers it and it is within the buyer's `maxWei`.
+    function _checkPayment(uint64 amount, uint256 maxWei) internal view returns (uint256 costWei, uint256 feeWei) {
+        (costWei, feeWei) = quoteBuyWithFee(amount);
+        uint256 requiredWei = costWei + feeWei;
+        if (requiredWei > maxWei) revert PriceAboveLimit(requiredWei, maxWei);
+        if (msg.value < requiredWei) revert InsufficientPayment(requiredWei, msg.value);
+    }
 }
 
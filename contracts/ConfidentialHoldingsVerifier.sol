@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+
+/// @notice Proves that a holder has at least `threshold` of an ERC-7984 token without revealing the balance. Only the
+/// result of `balance >= threshold` is made publicly decryptable, and once revealed it is recorded as an attestation
+/// for (token, holder, threshold, block) that gated communities or allowlists can check on-chain.
+/// @dev The holder first makes this contract an operator of the token (`setOperator`). A proof then transfers an
+/// encrypted `threshold` from the holder to themselves: the transfer moves the whole amount if the balance covers it
+/// and nothing otherwise, so comparing what moved with the threshold answers the question while the balance stays
+/// the same. Works with any ERC-7984 token, including the factory's tokens and wrappers.
+contract ConfidentialHoldingsVerifier is ZamaEthereumConfig {
+    struct Proof {
+        address token;
+        address holder;
+        uint64 threshold;
+        uint64 blockNumber;
+        ebool result;
+        bool revealed;
+        bool held;
+    }
+
+    mapping(bytes32 id => Proof) private _proofs;
+    /// @notice Latest block at which `holder` was proven to hold at least `threshold` of `token`; 0 if never.
+    mapping(address token => mapping(address holder => mapping(uint64 threshold => uint64 blockNumber)))
+        public lastProvenBlock;
+
+    event ProofRequested(
+        bytes32 indexed id,
+        address indexed token,
+        address indexed holder,
+        uint64 threshold,
+        ebool result
+    );
+    event ProofRevealed(bytes32 indexed id, bool held);
+
+    error InvalidThreshold();
+    error ProofExists(bytes32 id);
+    error UnknownProof(bytes32 id);
+    error AlreadyRevealed(bytes32 id);
+
+    /// @notice Identifier of the proof that `holder` had at least `threshold` of `token` at `blockNumber`.
+    function proofId(
+        address token,
+        address holder,
+        uint64 threshold,
+        uint64 blockNumber
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(token, holder, threshold, blockNumber));
+    }
+
+    function getProof(bytes32 id) external view returns (Proof memory) {
+        return _proofs[id];
+    }
+
+    /// @notice Computes whether the caller holds at least `threshold` of `token` and makes only that result publicly
+    /// decryptable. Only the holder can request a proof, so nobody else can probe their balance with thresholds.
+    function requestProof(IERC7984 token, uint64 threshold) external returns (bytes32 id) {
+        if (threshold == 0) revert InvalidThreshold();
+        uint64 blockNumber = uint64(block.number);
+        id = proofId(address(token), msg.sender, threshold, blockNumber);
+        if (_proofs[id].holder != address(0)) revert ProofExists(id);
+
+        euint64 amount = FHE.asEuint64(threshold);
+        FHE.allowTransient(amount, address(token));
+        euint64 moved = token.confidentialTransferFrom(msg.sender, msg.sender, amount);
+        ebool result = FHE.eq(moved, threshold);
+        FHE.allowThis(result);
+        FHE.makePubliclyDecryptable(result);
+
+        _proofs[id] = Proof({
+            token: address(token),
+            holder: msg.sender,
+            threshold: threshold,
+            blockNumber: blockNumber,
+            result: result,
+            revealed: false,
+            held: false
+        });
+        emit ProofRequested(id, address(token), msg.sender, threshold, result);
+    }
+
+    /// @notice Records the publicly decrypted result of proof `id`, checked against the KMS signatures. Anyone can
+    /// submit it.
+    function revealProof(bytes32 id, bool held, bytes calldata decryptionProof) external {
+        Proof storage proof = _proofs[id];
+        if (proof.holder == address(0)) revert UnknownProof(id);
+        if (proof.revealed) revert AlreadyRevealed(id);
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = ebool.unwrap(proof.result);
+        FHE.checkSignatures(handles, abi.encode(held), decryptionProof);
+
+        proof.revealed = true;
+        proof.held = held;
+        if (held && proof.blockNumber > lastProvenBlock[proof.token][proof.holder][proof.threshold]) {
+            lastProvenBlock[proof.token][proof.holder][proof.threshold] = proof.blockNumber;
+        }
+        emit ProofRevealed(id, held);
+    }
+}
@@ -0,0 +1,300 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {ConfidentialCreditVault} from "./ConfidentialCreditVault.sol";
+import {ConfidentialERC7984Token} from "./ConfidentialERC7984Token.sol";
+
+/// @notice Uniform-price sealed-bid auction for the whole supply of a token. Bids are an encrypted quantity and an
+/// encrypted maximum price per whole token, backed by an ETH deposit. After bidding closes the clearing price is
+/// computed under FHE, and it is the only value that is publicly decrypted: it is the highest bid price at which the
+/// demand covers the supply, or the reserve price when the auction is undersubscribed. Bids above it are filled in
+/// full and bids at it share the rest in bidding order. A bid for more than the supply counts as a bid for all of it.
+/// @dev Settlement is split into steps so each transaction stays below the coprocessor's per-transaction HCU limit:
+/// `computeClearingPrice` evaluates the demand at every bid price (bidCount^2 steps), `revealClearingPrice` checks
+/// the public decryption, and `allocate` fills the bids (2 * bidCount steps).
+/// Each `claim` settles one bid through the token's credit vault without decrypting its fill: the deposit is sent
+/// there with the encrypted cost, which joins the token's private proceeds, released to the seller less the factory's
+/// protocol fee with the vault's `revealProceeds` and `releaseProceeds`, while the rest becomes the bidder's credit.
+contract ConfidentialSealedBidAuction is ZamaEthereumConfig, Ownable {
+    enum Phase {
+        Bidding,
+        Pricing,
+        AwaitingReveal,
+        Allocating,
+        Settled
+    }
+
+    struct Bid {
+        address bidder;
+        euint64 quantity;
+        euint64 maxPricePerTokenWei;
+        euint64 filled;
+        uint256 depositWei;
+        bool claimed;
+    }
+
+    uint256 public constant TOKEN_BASE = 1_000_000;
+    uint256 public constant MAX_BIDS = 32;
+
+    address public immutable factory;
+    uint64 public immutable supply;
+    uint64 public immutable endTime;
+    uint64 public immutable reservePricePerTokenWei;
+
+    IERC7984 public token;
+    Phase public phase;
+    uint64 public clearingPricePerTokenWei;
+    bool public unsoldWithdrawn;
+
+    Bid[] private _bids;
+    mapping(address bidder => uint256 indexPlusOne) private _bidIndex;
+
+    uint256 private _cursor;
+    euint128 private _demand;
+    euint64 private _clearingPrice;
+    euint64 private _remaining;
+
+    event BidPlaced(address indexed bidder, uint256 depositWei);
+    event ClearingPriceComputed(euint64 clearingPrice);
+    event ClearingPriceRevealed(uint64 clearingPricePerTokenWei);
+    event AuctionSettled();
+    event Claimed(address indexed bidder, euint64 filled);
+    event UnsoldWithdrawn(address indexed to);
+
+    error InvalidAuctionConfig();
+    error Unauthorized();
+    error AlreadyInitialized();
+    error BiddingClosed();
+    error BiddingOpen();
+    error WrongPhase(Phase current);
+    error ZeroDeposit();
+    error AlreadyBid(address bidder);
+    error TooManyBids();
+    error NoBid(address bidder);
+    error AlreadyClaimed(address bidder);
+    error UnsoldAlreadyWithdrawn();
+
+    modifier inPhase(Phase expected) {
+        if (phase != expected) revert WrongPhase(phase);
+        _;
+    }
+
+    constructor(
+        address factory_,
+        address seller_,
+        uint64 supply_,
+        uint64 endTime_,
+        uint64 reservePricePerTokenWei_
+    ) Ownable(seller_) {
+        if (supply_ == 0 || endTime_ <= block.timestamp) revert InvalidAuctionConfig();
+        factory = factory_;
+        supply = supply_;
+        endTime = endTime_;
+        reservePricePerTokenWei = reservePricePerTokenWei_;
+    }
+
+    /// @notice Called once by the factory after it minted the supply to this auction.
+    function initialize(IERC7984 token_) external {
+        if (msg.sender != factory) revert Unauthorized();
+        if (address(token) != address(0)) revert AlreadyInitialized();
+        token = token_;
+    }
+
+    function bidCount() external view returns (uint256) {
+        return _bids.length;
+    }
+
+    function hasBid(address bidder) external view returns (bool) {
+        return _bidIndex[bidder] != 0;
+    }
+
+    /// @notice Handles of `bidder`'s bid; the quantity, price and fill can be decrypted by the bidder only.
+    function bidOf(address bidder) external view returns (Bid memory) {
+        return _bids[_bidIndexOf(bidder)];
+    }
+
+    /// @notice Handle of the clearing price once it has been computed, for the public decryption.
+    function clearingPriceHandle() external view returns (euint64) {
+        return _clearingPrice;
+    }
+
+    /// @notice Steps left in the current settlement phase.
+    function stepsRemaining() public view returns (uint256) {
+        uint256 count = _bids.length;
+        if (phase == Phase.Bidding || phase == Phase.Pricing) return count * count - _cursor;
+        if (phase == Phase.Allocating) return 2 * count - _cursor;
+        return 0;
+    }
+
+    /// @notice Places a sealed bid for `quantity` base units, capped at the supply, at up to `maxPricePerTokenWei` per
+    /// whole token. The deposit must cover `quantity * maxPricePerTokenWei / TOKEN_BASE`; a bid that is not covered,
+    /// or is below the reserve price, is kept but silently counts as zero, so its validity is not revealed either.
+    function bid(
+        externalEuint64 quantity,
+        externalEuint64 maxPricePerTokenWei,
+        bytes calldata inputProof
+    ) external payable inPhase(Phase.Bidding) {
+        if (block.timestamp >= endTime) revert BiddingClosed();
+        if (msg.value == 0) revert ZeroDeposit();
+        if (_bidIndex[msg.sender] != 0) revert AlreadyBid(msg.sender);
+        if (_bids.length >= MAX_BIDS) revert TooManyBids();
+
+        euint64 amount = FHE.min(FHE.fromExternal(quantity, inputProof), supply);
+        euint64 price = FHE.fromExternal(maxPricePerTokenWei, inputProof);
+
+        euint128 maxCost = FHE.mul(FHE.asEuint128(amount), FHE.asEuint128(price));
+        ebool covered = FHE.le(maxCost, uint128(Math.min(msg.value * TOKEN_BASE, type(uint128).max)));
+        ebool valid = FHE.and(covered, FHE.ge(price, reservePricePerTokenWei));
+        amount = FHE.select(valid, amount, FHE.asEuint64(0));
+        price = FHE.select(valid, price, FHE.asEuint64(0));
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allowThis(price);
+        FHE.allow(price, msg.sender);
+
+        _bids.push(
+            Bid({
+                bidder: msg.sender,
+                quantity: amount,
+                maxPricePerTokenWei: price,
+                filled: euint64.wrap(0),
+                depositWei: msg.value,
+                claimed: false
+            })
+        );
+        _bidIndex[msg.sender] = _bids.length;
+
+        emit BidPlaced(msg.sender, msg.value);
+    }
+
+    /// @notice Runs up to `maxSteps` demand evaluations; anyone can call it once bidding has closed. Step
+    /// `(j, i)` adds bid `i`'s quantity to the demand at bid `j`'s price when bid `i` pays at least that much. The
+    /// demand is summed in 128 bits, so MAX_BIDS quantities of up to the supply cannot overflow it.
+    function computeClearingPrice(uint256 maxSteps) external {
+        if (phase == Phase.Bidding) {
+            if (block.timestamp < endTime) revert BiddingOpen();
+            phase = Phase.Pricing;
+            _clearingPrice = FHE.asEuint64(reservePricePerTokenWei);
+            FHE.allowThis(_clearingPrice);
+        } else if (phase != Phase.Pricing) {
+            revert WrongPhase(phase);
+        }
+
+        uint256 count = _bids.length;
+        uint256 cursor = _cursor;
+        uint256 end = Math.min(cursor + maxSteps, count * count);
+        for (; cursor < end; ++cursor) {
+            Bid storage candidate = _bids[cursor / count];
+            Bid storage other = _bids[cursor % count];
+            if (cursor % count == 0) _demand = FHE.asEuint128(0);
+
+            ebool paysEnough = FHE.ge(other.maxPricePerTokenWei, candidate.maxPricePerTokenWei);
+            _demand = FHE.add(_demand, FHE.asEuint128(FHE.select(paysEnough, other.quantity, FHE.asEuint64(0))));
+
+            if (cursor % count == count - 1) {
+                ebool covered = FHE.ge(_demand, supply);
+                euint64 price = FHE.select(covered, candidate.maxPricePerTokenWei, FHE.asEuint64(0));
+                _clearingPrice = FHE.max(_clearingPrice, price);
+                FHE.allowThis(_clearingPrice);
+            }
+        }
+        FHE.allowThis(_demand);
+        _cursor = cursor;
+
+        if (cursor == count * count) {
+            _cursor = 0;
+            phase = Phase.AwaitingReveal;
+            FHE.makePubliclyDecryptable(_clearingPrice);
+            emit ClearingPriceComputed(_clearingPrice);
+        }
+    }
+
+    /// @notice Records the publicly decrypted clearing price; `decryptionProof` is checked against the KMS signatures.
+    function revealClearingPrice(
+        uint64 clearingPrice,
+        bytes calldata decryptionProof
+    ) external inPhase(Phase.AwaitingReveal) {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = euint64.unwrap(_clearingPrice);
+        FHE.checkSignatures(handles, abi.encode(clearingPrice), decryptionProof);
+
+        clearingPricePerTokenWei = clearingPrice;
+        phase = Phase.Allocating;
+        _remaining = FHE.asEuint64(supply);
+        FHE.allowThis(_remaining);
+        emit ClearingPriceRevealed(clearingPrice);
+    }
+
+    /// @notice Runs up to `maxSteps` allocation steps: the first pass fills every bid above the clearing price, the
+    /// second shares what is left between bids at the clearing price in bidding order. No fill exceeds what is left.
+    function allocate(uint256 maxSteps) external inPhase(Phase.Allocating) {
+        uint256 count = _bids.length;
+        uint256 cursor = _cursor;
+        uint256 end = Math.min(cursor + maxSteps, 2 * count);
+        for (; cursor < end; ++cursor) {
+            Bid storage current = _bids[cursor % count];
+            ebool eligible;
+            if (cursor < count) {
+                eligible = FHE.gt(current.maxPricePerTokenWei, clearingPricePerTokenWei);
+            } else {
+                eligible = FHE.eq(current.maxPricePerTokenWei, clearingPricePerTokenWei);
+            }
+            euint64 fill = FHE.min(FHE.select(eligible, current.quantity, FHE.asEuint64(0)), _remaining);
+            _remaining = FHE.sub(_remaining, fill);
+            current.filled = cursor < count ? fill : FHE.add(current.filled, fill);
+            FHE.allowThis(current.filled);
+            FHE.allow(current.filled, current.bidder);
+        }
+        FHE.allowThis(_remaining);
+        _cursor = cursor;
+
+        if (cursor == 2 * count) {
+            phase = Phase.Settled;
+            emit AuctionSettled();
+        }
+    }
+
+    /// @notice Sends `bidder`'s filled tokens and settles their deposit in the credit vault; anyone can call it. The
+    /// fill is replaced by the amount actually transferred, and only that is charged at the clearing price.
+    function claim(address bidder) external inPhase(Phase.Settled) {
+        Bid storage entry = _bids[_bidIndexOf(bidder)];
+        if (entry.claimed) revert AlreadyClaimed(bidder);
+        entry.claimed = true;
+
+        FHE.allowTransient(entry.filled, address(token));
+        euint64 transferred = token.confidentialTransfer(bidder, entry.filled);
+        entry.filled = transferred;
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, bidder);
+
+        // The bid check guarantees quantity * maxPrice <= deposit * TOKEN_BASE, and the clearing price is at most the
+        // bid's maximum price, so the cost never exceeds the deposit.
+        ConfidentialERC7984Token saleToken = ConfidentialERC7984Token(address(token));
+        ConfidentialCreditVault vault = ConfidentialCreditVault(saleToken.creditVault());
+        euint128 cost = FHE.mul(FHE.asEuint128(transferred), uint128(clearingPricePerTokenWei));
+        FHE.allowTransient(cost, address(vault));
+        vault.settleAuctionBid{value: entry.depositWei}(saleToken, bidder, cost);
+        emit Claimed(bidder, transferred);
+    }
+
+    /// @notice Sends the unallocated supply back to the seller.
+    function withdrawUnsold(address to) external onlyOwner inPhase(Phase.Settled) {
+        if (unsoldWithdrawn) revert UnsoldAlreadyWithdrawn();
+        unsoldWithdrawn = true;
+        FHE.allowTransient(_remaining, address(token));
+        token.confidentialTransfer(to, _remaining);
+        emit UnsoldWithdrawn(to);
+    }
+
+    function _bidIndexOf(address bidder) private view returns (uint256) {
+        uint256 indexPlusOne = _bidIndex[bidder];
+        if (indexPlusOne == 0) revert NoBid(bidder);
+        return indexPlusOne - 1;
+    }
+}
@@ -2,8 +2,21 @@
 pragma solidity ^0.8.27;
 
 import {ConfidentialERC7984Token} from "./ConfidentialERC7984Token.sol";
+import {ConfidentialAuctionDeployer} from "./ConfidentialAuctionDeployer.sol";
+import {ConfidentialSealedBidAuction} from "./ConfidentialSealedBidAuction.sol";
+import {ConfidentialWrapperDeployer} from "./ConfidentialWrapperDeployer.sol";
+import {IProtocolFees} from "./interfaces/IProtocolFees.sol";
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
 
-contract ConfidentialTokenFactory {
+/// @dev The owner sets the protocol fees: a flat `creationFeeWei` paid with every launch and kept here until
+/// `collectFees`, and `purchaseFeeBps` of every token sale, which the token pays through `payPurchaseFee` and is
+/// forwarded to `feeRecipient` at once. Only tokens launched here can pay it, so PurchaseFeePaid cannot be faked.
+/// Tokens are EIP-1167 minimal proxies of `tokenImplementation`, so a launch copies 45 bytes of code instead of the
+/// whole token.
+contract ConfidentialTokenFactory is IProtocolFees, Ownable {
     event TokenCreated(
         address indexed creator,
         address indexed token,
@@ -12,10 +25,55 @@ contract ConfidentialTokenFactory {
         uint64 totalSupplyClear,
         uint256 pricePerTokenWei
     );
+    event AuctionCreated(address indexed creator, address indexed token, address auction);
+    event WrapperCreated(address indexed creator, address indexed wrapper, address indexed underlying);
+    event FeesUpdated(uint256 creationFeeWei, uint256 purchaseFeeBps, address feeRecipient);
+    event FeesCollected(address indexed to, uint256 amountWei);
+    event PurchaseFeePaid(address indexed token, address indexed to, uint256 amountWei);
+
+    error IncorrectCreationFee(uint256 requiredWei, uint256 paidWei);
+    error PurchaseFeeTooHigh(uint256 bps, uint256 maxBps);
+    error InvalidFeeRecipient();
+    error FeeTransferFailed();
+    error NotFactoryToken(address caller);
+
+    uint256 public constant MAX_PURCHASE_FEE_BPS = 500;
+
+    ConfidentialERC7984Token public immutable tokenImplementation;
+    ConfidentialAuctionDeployer public immutable auctionDeployer;
+    ConfidentialWrapperDeployer public immutable wrapperDeployer;
 
     address[] private _allTokens;
     mapping(address creator => address[] tokens) private _tokensByCreator;
 
+    // Wrappers are listed apart from tokens: they have no sale, so readers of sale state skip them.
+    address[] private _allWrappers;
+    mapping(address creator => address[] wrappers) private _wrappersByCreator;
+    /// @notice Whether an address is a token or a wrapper launched here, so clients can tell it apart from look-alikes
+    /// without reading the whole lists.
+    mapping(address token => bool) public isToken;
+    mapping(address wrapper => bool) public isWrapper;
+
+    uint256 public creationFeeWei;
+    uint256 public purchaseFeeBps;
+    address public feeRecipient;
+
+    modifier paysCreationFee() {
+        if (msg.value != creationFeeWei) revert IncorrectCreationFee(creationFeeWei, msg.value);
+        _;
+    }
+
+    constructor(
+        ConfidentialERC7984Token tokenImplementation_,
+        ConfidentialAuctionDeployer auctionDeployer_,
+        ConfidentialWrapperDeployer wrapperDeployer_
+    ) Ownable(msg.sender) {
+        tokenImplementation = tokenImplementation_;
+        auctionDeployer = auctionDeployer_;
+        wrapperDeployer = wrapperDeployer_;
+        feeRecipient = msg.sender;
+    }
+
     function allTokensLength() external view returns (uint256) {
         return _allTokens.length;
     }
@@ -28,26 +86,150 @@ contract ConfidentialTokenFactory {
         return _tokensByCreator[creator];
     }
 
+    /// @notice Returns up to `limit` tokens starting at `offset`, in creation order, plus the total token count.
+    function getTokens(uint256 offset, uint256 limit) external view returns (uint256 total, address[] memory tokens) {
+        return _page(_allTokens, offset, limit);
+    }
+
+    /// @notice Paged `getTokensByCreator`, plus the number of tokens `creator` has created.
+    function getTokensByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256 total, address[] memory tokens) {
+        return _page(_tokensByCreator[creator], offset, limit);
+    }
+
+    function getAllWrappers() external view returns (address[] memory) {
+        return _allWrappers;
+    }
+
+    function getWrappersByCreator(address creator) external view returns (address[] memory) {
+        return _wrappersByCreator[creator];
+    }
+
     function createToken(
         string calldata name_,
         string calldata symbol_,
         uint64 totalSupplyClear_,
-        uint256 pricePerTokenWei_
-    ) external returns (address token) {
-        ConfidentialERC7984Token deployed = new ConfidentialERC7984Token(
+        uint256 pricePerTokenWei_,
+        string calldata contractURI_,
+        ConfidentialERC7984Token.SaleConfig calldata saleConfig_
+    ) external payable paysCreationFee returns (address token) {
+        token = _deployToken(
             name_,
             symbol_,
             totalSupplyClear_,
             pricePerTokenWei_,
-            "",
-            msg.sender
+            contractURI_,
+            saleConfig_,
+            address(0)
+        );
+    }
+
+    /// @notice Creates a token whose whole supply is sold by a sealed-bid auction ending at `endTime`.
+    function createAuction(
+        string calldata name_,
+        string calldata symbol_,
+        uint64 totalSupplyClear_,
+        string calldata contractURI_,
+        uint64 endTime,
+        uint64 reservePricePerTokenWei
+    ) external payable paysCreationFee returns (address token, address auction) {
+        auction = address(auctionDeployer.deploy(msg.sender, totalSupplyClear_, endTime, reservePricePerTokenWei));
+        ConfidentialERC7984Token.SaleConfig memory noSale;
+        token = _deployToken(name_, symbol_, totalSupplyClear_, 0, contractURI_, noSale, auction);
+        ConfidentialSealedBidAuction(auction).initialize(ConfidentialERC7984Token(token));
+
+        emit AuctionCreated(msg.sender, token, auction);
+    }
+
+    /// @notice Creates the ERC-7984 wrapper of an existing ERC20, into which anyone can wrap that ERC20.
+    function createWrapper(
+        IERC20 underlying,
+        string calldata name_,
+        string calldata symbol_,
+        string calldata contractURI_
+    ) external payable paysCreationFee returns (address wrapper) {
+        wrapper = address(wrapperDeployer.deploy(underlying, name_, symbol_, contractURI_, msg.sender));
+        _allWrappers.push(wrapper);
+        _wrappersByCreator[msg.sender].push(wrapper);
+        isWrapper[wrapper] = true;
+
+        emit WrapperCreated(msg.sender, wrapper, address(underlying));
+    }
+
+    /// @inheritdoc IProtocolFees
+    function payPurchaseFee() external payable {
+        if (!isToken[msg.sender]) revert NotFactoryToken(msg.sender);
+        _sendFee(msg.value);
+        emit PurchaseFeePaid(msg.sender, feeRecipient, msg.value);
+    }
+
+    /// @notice Sets the fees for launches from now on and for every later purchase, including from existing tokens.
+    function setFees(uint256 creationFeeWei_, uint256 purchaseFeeBps_, address feeRecipient_) external onlyOwner {
+        if (purchaseFeeBps_ > MAX_PURCHASE_FEE_BPS) revert PurchaseFeeTooHigh(purchaseFeeBps_, MAX_PURCHASE_FEE_BPS);
+        if (feeRecipient_ == address(0)) revert InvalidFeeRecipient();
+        creationFeeWei = creationFeeWei_;
+        purchaseFeeBps = purchaseFeeBps_;
+        feeRecipient = feeRecipient_;
+        emit FeesUpdated(creationFeeWei_, purchaseFeeBps_, feeRecipient_);
+    }
+
+    /// @notice Sends the creation fees collected so far to `feeRecipient`. Anyone can call it.
+    function collectFees() external {
+        uint256 amountWei = address(this).balance;
+        _sendFee(amountWei);
+        emit FeesCollected(feeRecipient, amountWei);
+    }
+
+    function _deployToken(
+        string calldata name_,
+        string calldata symbol_,
+        uint64 totalSupplyClear_,
+        uint256 pricePerTokenWei_,
+        string calldata contractURI_,
+        ConfidentialERC7984Token.SaleConfig memory saleConfig_,
+        address distributor_
+    ) private returns (address token) {
+        ConfidentialERC7984Token deployed = ConfidentialERC7984Token(Clones.clone(address(tokenImplementation)));
+        deployed.initialize(
+            name_,
+            symbol_,
+            totalSupplyClear_,
+            pricePerTokenWei_,
+            contractURI_,
+            saleConfig_,
+            msg.sender,
+            distributor_
         );
 
         token = address(deployed);
         _allTokens.push(token);
         _tokensByCreator[msg.sender].push(token);
+        isToken[token] = true;
 
         emit TokenCreated(msg.sender, token, name_, symbol_, totalSupplyClear_, pricePerTokenWei_);
     }
+
+    function _page(
+        address[] storage list,
+        uint256 offset,
+        uint256 limit
+    ) private view returns (uint256 total, address[] memory page) {
+        total = list.length;
+        if (offset >= total) return (total, new address[](0));
+
+        uint256 count = Math.min(limit, total - offset);
+        page = new address[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = list[offset + i];
+        }
+    }
+
+    function _sendFee(uint256 amountWei) private {
+        (bool sent, ) = feeRecipient.call{value: amountWei}("");
+        if (!sent) revert FeeTransferFailed();
+    }
 }
 
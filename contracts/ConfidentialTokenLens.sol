@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {ConfidentialERC7984Token} from "./ConfidentialERC7984Token.sol";
+import {ConfidentialTokenFactory} from "./ConfidentialTokenFactory.sol";
+
+/// @title Read-only batch reader for factory tokens
+/// @notice Returns the marketplace view of many tokens in a single `eth_call`, so frontends do not need one RPC
+/// request per field per token. Holds no state and works with any deployed `ConfidentialTokenFactory`.
+contract ConfidentialTokenLens {
+    struct TokenInfo {
+        address token;
+        string name;
+        string symbol;
+        address owner;
+        uint64 remainingForSaleClear;
+        uint64 totalSupplyClear;
+        uint256 pricePerTokenWei;
+        euint64 encryptedBalance;
+        string contractURI;
+        ConfidentialERC7984Token.SaleConfig saleConfig;
+        ConfidentialERC7984Token.SalePhase salePhase;
+        uint64 remainingAllowance;
+        ConfidentialERC7984Token.CrowdsaleState crowdsaleState;
+        uint256 totalRaisedWei;
+        uint256 contributedWei;
+        uint256 currentPricePerTokenWei;
+        address distributor;
+    }
+
+    /// @notice Returns up to `limit` tokens of `factory` starting at `offset`, plus the total token count.
+    /// @dev `encryptedBalance`, `remainingAllowance` and `contributedWei` are for `account` (zero handle, the full
+    /// allowance and 0 when `account` is the zero address).
+    function getTokensPage(
+        ConfidentialTokenFactory factory,
+        uint256 offset,
+        uint256 limit,
+        address account
+    ) external view returns (uint256 total, TokenInfo[] memory infos) {
+        address[] memory tokens;
+        (total, tokens) = _tokensPage(factory, offset, limit);
+        infos = new TokenInfo[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; ++i) {
+            infos[i] = _tokenInfo(tokens[i], account);
+        }
+    }
+
+    /// @notice Returns the view of an explicit list of tokens.
+    function getTokenInfos(
+        address[] calldata tokens,
+        address account
+    ) external view returns (TokenInfo[] memory infos) {
+        infos = new TokenInfo[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; ++i) {
+            infos[i] = _tokenInfo(tokens[i], account);
+        }
+    }
+
+    /// @dev Factories deployed before the paged getters can only list all their tokens at once.
+    function _tokensPage(
+        ConfidentialTokenFactory factory,
+        uint256 offset,
+        uint256 limit
+    ) private view returns (uint256 total, address[] memory tokens) {
+        try factory.getTokens(offset, limit) returns (uint256 pageTotal, address[] memory page) {
+            return (pageTotal, page);
+        } catch {
+            address[] memory allTokens = factory.getAllTokens();
+            total = allTokens.length;
+            if (offset >= total) return (total, new address[](0));
+
+            uint256 end = Math.min(offset + limit, total);
+            tokens = new address[](end - offset);
+            for (uint256 i = offset; i < end; ++i) {
+                tokens[i - offset] = allTokens[i];
+            }
+        }
+    }
+
+    function _tokenInfo(address tokenAddress, address account) private view returns (TokenInfo memory info) {
+        ConfidentialERC7984Token token = ConfidentialERC7984Token(tokenAddress);
+        info.token = tokenAddress;
+        info.name = token.name();
+        info.symbol = token.symbol();
+        info.owner = token.owner();
+        info.remainingForSaleClear = token.remainingForSaleClear();
+        info.totalSupplyClear = token.totalSupplyClear();
+        info.pricePerTokenWei = token.pricePerTokenWei();
+        info.encryptedBalance = token.confidentialBalanceOf(account);
+        info.contractURI = token.contractURI();
+        info.saleConfig = token.saleConfig();
+        info.salePhase = token.salePhase();
+        info.remainingAllowance = token.remainingAllowance(account);
+        info.crowdsaleState = token.crowdsaleState();
+        info.totalRaisedWei = token.totalRaisedWei();
+        info.contributedWei = token.contributedWei(account);
+        info.currentPricePerTokenWei = token.currentPricePerTokenWei();
+        info.distributor = token.distributor();
+    }
+}
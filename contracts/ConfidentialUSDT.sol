@@ -4,12 +4,68 @@ pragma solidity ^0.8.27;
 import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 
-contract ConfidentialUSDT is ERC7984, ZamaEthereumConfig {
-    constructor() ERC7984("cUSDT", "cUSDT", "") {}
+/// @notice Test stablecoin that tokens can be priced in. Anyone can draw from a rate-limited faucet; only the owner
+/// can mint arbitrary amounts.
+contract ConfidentialUSDT is ERC7984, ZamaEthereumConfig, Ownable {
+    /// @dev Each faucet claim mints `faucetAmount`, at most once per `faucetCooldown` seconds and until the address
+    /// has claimed `faucetCap` in total. Claimed amounts are public, like any mint.
+    uint64 public faucetAmount;
+    uint64 public faucetCooldown;
+    uint64 public faucetCap;
+    mapping(address account => uint64 timestamp) public lastClaimAt;
+    mapping(address account => uint64 amount) public claimedClear;
 
-    function mint(address to, uint64 amount) public {
-        euint64 encryptedAmount = FHE.asEuint64(amount);
-        _mint(to, encryptedAmount);
+    event FaucetClaimed(address indexed account, uint64 amount);
+    event FaucetConfigUpdated(uint64 amount, uint64 cooldown, uint64 cap);
+
+    error FaucetCooldown(uint64 nextClaimAt);
+    error FaucetCapReached(uint64 cap);
+    error InvalidFaucetConfig();
+
+    constructor(
+        uint64 faucetAmount_,
+        uint64 faucetCooldown_,
+        uint64 faucetCap_
+    ) ERC7984("cUSDT", "cUSDT", "") Ownable(msg.sender) {
+        _setFaucetConfig(faucetAmount_, faucetCooldown_, faucetCap_);
+    }
+
+    /// @notice Earliest time `account` can claim again; 0 if it never claimed.
+    function nextClaimAt(address account) public view returns (uint64) {
+        uint64 last = lastClaimAt[account];
+        return last == 0 ? 0 : last + faucetCooldown;
+    }
+
+    /// @notice Mints `faucetAmount` to the caller, or what is left of their cap if that is less.
+    function faucet() external returns (euint64 minted) {
+        uint64 next = nextClaimAt(msg.sender);
+        if (block.timestamp < next) revert FaucetCooldown(next);
+        uint64 claimed = claimedClear[msg.sender];
+        if (claimed >= faucetCap) revert FaucetCapReached(faucetCap);
+
+        uint64 amount = faucetCap - claimed < faucetAmount ? faucetCap - claimed : faucetAmount;
+        lastClaimAt[msg.sender] = uint64(block.timestamp);
+        claimedClear[msg.sender] = claimed + amount;
+        minted = _mint(msg.sender, FHE.asEuint64(amount));
+
+        emit FaucetClaimed(msg.sender, amount);
+    }
+
+    function setFaucetConfig(uint64 amount, uint64 cooldown, uint64 cap) external onlyOwner {
+        _setFaucetConfig(amount, cooldown, cap);
+    }
+
+    function mint(address to, uint64 amount) external onlyOwner {
+        _mint(to, FHE.asEuint64(amount));
+    }
+
+    function _setFaucetConfig(uint64 amount, uint64 cooldown, uint64 cap) internal {
+        if (amount == 0 || cap < amount) revert InvalidFaucetConfig();
+        faucetAmount = amount;
+        faucetCooldown = cooldown;
+        faucetCap = cap;
+        emit FaucetConfigUpdated(amount, cooldown, cap);
     }
 }
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import {ConfidentialERC20Wrapper} from "./ConfidentialERC20Wrapper.sol";
+
+/// @notice Deploys ERC20 wrappers for ConfidentialTokenFactory, which would exceed the contract size limit if it
+/// embedded the wrapper bytecode next to the token's.
+contract ConfidentialWrapperDeployer {
+    function deploy(
+        IERC20 underlying,
+        string calldata name_,
+        string calldata symbol_,
+        string calldata contractURI_,
+        address creator
+    ) external returns (ConfidentialERC20Wrapper wrapper) {
+        wrapper = new ConfidentialERC20Wrapper(underlying, name_, symbol_, contractURI_, creator);
+    }
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+/// @notice Protocol fee settings of the factory that created a token, which apply to every sale of the token.
+interface IProtocolFees {
+    /// @notice Fee on each sale, in basis points of the sale price.
+    function purchaseFeeBps() external view returns (uint256);
+
+    /// @notice Receives the fees, including those paid in a payment token rather than ETH.
+    function feeRecipient() external view returns (address);
+
+    /// @notice Forwards the fee sent with the call to the fee recipient.
+    function payPurchaseFee() external payable;
+}
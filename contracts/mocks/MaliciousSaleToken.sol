@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ConfidentialERC7984Token} from "../ConfidentialERC7984Token.sol";
+
+/// @notice Impersonates a factory token towards the credit vault: it claims every private purchase was delivered at a
+/// price of its choosing, names its deployer as owner and itself as factory, used to test that the vault only serves
+/// the tokens of its own factory.
+contract MaliciousSaleToken is ZamaEthereumConfig {
+    address public immutable owner;
+    uint256 public currentPricePerTokenWei;
+
+    constructor(uint256 pricePerTokenWei_) {
+        owner = msg.sender;
+        currentPricePerTokenWei = pricePerTokenWei_;
+    }
+
+    function factory() external view returns (address) {
+        return address(this);
+    }
+
+    function purchaseFeeBps() external pure returns (uint256) {
+        return 10_000;
+    }
+
+    function feeRecipient() external view returns (address) {
+        return owner;
+    }
+
+    function saleConfig() external pure returns (ConfidentialERC7984Token.SaleConfig memory config) {
+        return config;
+    }
+
+    function sellPrivate(address, euint64) external returns (euint64 transferred) {
+        transferred = FHE.asEuint64(1_000_000);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    function forwardPurchaseFee() external payable {}
+}
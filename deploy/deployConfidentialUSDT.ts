@@ -0,0 +1,24 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Faucet defaults: 100 cUSDT per claim, once a day, at most 1,000 cUSDT per address (6 decimals).
+const FAUCET_AMOUNT = 100_000_000n;
+const FAUCET_COOLDOWN = 24 * 60 * 60;
+const FAUCET_CAP = 1_000_000_000n;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedCusdt = await deploy("ConfidentialUSDT", {
+    from: deployer,
+    args: [FAUCET_AMOUNT, FAUCET_COOLDOWN, FAUCET_CAP],
+    log: true,
+  });
+
+  console.log(`ConfidentialUSDT contract: `, deployedCusdt.address);
+};
+
+export default func;
+func.id = "deploy_confidentialUSDT";
+func.tags = ["ConfidentialUSDT"];
@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedVerifier = await deploy("ConfidentialHoldingsVerifier", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`ConfidentialHoldingsVerifier contract: `, deployedVerifier.address);
+};
+
+export default func;
+func.id = "deploy_holdingsVerifier";
+func.tags = ["ConfidentialHoldingsVerifier"];
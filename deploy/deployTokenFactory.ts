@@ -1,3 +1,4 @@
+import { ZeroAddress } from "ethers";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
@@ -5,11 +6,48 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  const deployedCreditVault = await deploy("ConfidentialCreditVault", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedTokenImplementation = await deploy("ConfidentialERC7984Token", {
+    from: deployer,
+    args: [deployedCreditVault.address],
+    log: true,
+  });
+
+  const deployedAuctionDeployer = await deploy("ConfidentialAuctionDeployer", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedWrapperDeployer = await deploy("ConfidentialWrapperDeployer", {
+    from: deployer,
+    log: true,
+  });
+
   const deployedFactory = await deploy("ConfidentialTokenFactory", {
     from: deployer,
+    args: [deployedTokenImplementation.address, deployedAuctionDeployer.address, deployedWrapperDeployer.address],
     log: true,
   });
 
+  // The vault only serves tokens of the factory it is linked to, which can be set once.
+  const vaultFactory: string = await hre.deployments.read("ConfidentialCreditVault", "factory");
+  if (vaultFactory === ZeroAddress) {
+    await hre.deployments.execute(
+      "ConfidentialCreditVault",
+      { from: deployer, log: true },
+      "setFactory",
+      deployedFactory.address,
+    );
+  } else if (vaultFactory.toLowerCase() !== deployedFactory.address.toLowerCase()) {
+    throw new Error(
+      `ConfidentialCreditVault is linked to factory ${vaultFactory}; redeploy the vault with the factory`,
+    );
+  }
+
   console.log(`ConfidentialTokenFactory contract: `, deployedFactory.address);
 };
 
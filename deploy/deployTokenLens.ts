@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedLens = await deploy("ConfidentialTokenLens", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`ConfidentialTokenLens contract: `, deployedLens.address);
+};
+
+export default func;
+func.id = "deploy_tokenLens";
+func.tags = ["ConfidentialTokenLens"];
@@ -10,7 +10,14 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/Allowlist";
 import "./tasks/ConfidentialTokens";
+import "./tasks/SealedBidAuction";
+import "./tasks/CreditVault";
+import "./tasks/ConfidentialUSDT";
+import "./tasks/Wrapper";
+import "./tasks/HoldingsVerifier";
+import "./tasks/AppConfig";
 
 import * as dotenv from "dotenv";
 dotenv.config();
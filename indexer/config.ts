@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  network: string;
+  factoryAddress: string;
+  startBlock: number;
+  dbPath: string;
+  port: number;
+  pollIntervalMs: number;
+  batchSize: number;
+  confirmations: number;
+};
+
+type DeploymentFile = {
+  address: string;
+  receipt?: { blockNumber?: number };
+};
+
+function readInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Reads the indexer configuration from the environment. Without `INDEXER_FACTORY_ADDRESS`, the factory address and
+ * start block are taken from `deployments/<INDEXER_NETWORK>/ConfidentialTokenFactory.json` (written by hardhat-deploy).
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const network = env.INDEXER_NETWORK ?? "localhost";
+
+  let factoryAddress = env.INDEXER_FACTORY_ADDRESS;
+  let deploymentBlock = 0;
+  if (!factoryAddress) {
+    const deploymentPath = path.join(__dirname, "..", "deployments", network, "ConfidentialTokenFactory.json");
+    if (!fs.existsSync(deploymentPath)) {
+      throw new Error(
+        `No factory deployment at ${deploymentPath}. Run "npm run deploy:${network}" or set INDEXER_FACTORY_ADDRESS.`,
+      );
+    }
+    const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf8")) as DeploymentFile;
+    factoryAddress = deployment.address;
+    deploymentBlock = deployment.receipt?.blockNumber ?? 0;
+  }
+
+  return {
+    rpcUrl: env.INDEXER_RPC_URL ?? "http://127.0.0.1:8545",
+    network,
+    factoryAddress,
+    startBlock: readInt(env, "INDEXER_START_BLOCK", deploymentBlock),
+    dbPath: env.INDEXER_DB_PATH ?? path.join(__dirname, "..", "indexer-data", `${network}.db`),
+    port: readInt(env, "INDEXER_PORT", 4000),
+    pollIntervalMs: readInt(env, "INDEXER_POLL_INTERVAL_MS", 2000),
+    batchSize: Math.max(1, readInt(env, "INDEXER_BATCH_SIZE", 2000)),
+    confirmations: readInt(env, "INDEXER_CONFIRMATIONS", 0),
+  };
+}
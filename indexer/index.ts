@@ -0,0 +1,47 @@
+import { JsonRpcProvider } from "ethers";
+import { loadConfig } from "./config";
+import { Indexer } from "./indexer";
+import { createIndexerServer } from "./server";
+import { IndexerStore } from "./store";
+
+/**
+ * Local usage (requires `npm run compile` for the typechain interfaces):
+ *
+ *   npm run chain
+ *   npm run deploy:localhost
+ *   npm run indexer
+ *
+ *   curl http://localhost:4000/tokens
+ */
+async function main() {
+  const config = loadConfig();
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const store = new IndexerStore(config.dbPath);
+
+  const indexer = new Indexer(provider, store, config);
+  await indexer.init();
+
+  const { chainId } = await provider.getNetwork();
+  const server = createIndexerServer(store, { chainId, factoryAddress: config.factoryAddress });
+  server.listen(config.port, () => {
+    console.log(`Indexing factory ${config.factoryAddress} on chain ${chainId} from block ${config.startBlock}`);
+    console.log(`API listening on http://localhost:${config.port}`);
+  });
+  indexer.start();
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      store.close();
+      provider.destroy();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,223 @@
+import { getAddress, type Log, type Provider } from "ethers";
+import { ConfidentialERC7984Token__factory, ConfidentialTokenFactory__factory } from "../types";
+import type { IndexedBatch, IndexerStore } from "./store";
+
+export type IndexerLogger = Pick<Console, "warn" | "error">;
+
+export type IndexerOptions = {
+  factoryAddress: string;
+  startBlock: number;
+  batchSize: number;
+  confirmations: number;
+  pollIntervalMs: number;
+  /** Receives reorg and re-index warnings and sync errors; the console by default. */
+  logger?: IndexerLogger;
+};
+
+const factoryInterface = ConfidentialTokenFactory__factory.createInterface();
+const tokenInterface = ConfidentialERC7984Token__factory.createInterface();
+
+const TOKEN_CREATED_TOPIC = factoryInterface.getEvent("TokenCreated").topicHash;
+const TOKEN_EVENT_TOPICS = [
+  tokenInterface.getEvent("TokenPurchased").topicHash,
+  tokenInterface.getEvent("PriceUpdated").topicHash,
+  tokenInterface.getEvent("Withdrawn").topicHash,
+];
+
+// Keeps eth_getLogs address filters within what public RPC endpoints accept.
+const ADDRESS_CHUNK_SIZE = 200;
+
+/**
+ * Follows `TokenCreated` on the factory and the sale events of every token it created.
+ *
+ * Each poll first compares the newest recorded block hash with the chain. On a mismatch it walks back through the
+ * recorded checkpoints to the newest block still on the canonical chain and rolls the store back to it, then
+ * re-indexes forward from there.
+ */
+export class Indexer {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private readonly logger: IndexerLogger;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    private readonly options: IndexerOptions,
+  ) {
+    this.logger = options.logger ?? console;
+  }
+
+  /** Resets the store when it was built for another chain or factory (e.g. a restarted `hardhat node`). */
+  async init() {
+    const { chainId } = await this.provider.getNetwork();
+    const factoryAddress = getAddress(this.options.factoryAddress);
+
+    const storedChainId = this.store.getMeta("chainId");
+    const storedFactory = this.store.getMeta("factory");
+    if (
+      (storedChainId !== undefined && storedChainId !== chainId.toString()) ||
+      (storedFactory !== undefined && storedFactory !== factoryAddress)
+    ) {
+      this.logger.warn(
+        `Store was built for chain ${storedChainId} / factory ${storedFactory}, re-indexing from scratch`,
+      );
+      this.store.rollbackTo(this.options.startBlock - 1);
+    }
+
+    this.store.setMeta("chainId", chainId.toString());
+    this.store.setMeta("factory", factoryAddress);
+  }
+
+  /** Indexes up to the current head (minus confirmations) and returns the last indexed block. */
+  async syncOnce(): Promise<number> {
+    await this.handleReorg();
+
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+    let from = this.cursor() + 1;
+    while (from <= head) {
+      const to = Math.min(from + this.options.batchSize - 1, head);
+      await this.indexRange(from, to);
+      from = to + 1;
+    }
+
+    return this.cursor();
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.syncOnce();
+      } catch (err) {
+        this.logger.error("Indexer sync failed:", err);
+      }
+      if (this.running) {
+        this.timer = setTimeout(() => void tick(), this.options.pollIntervalMs);
+      }
+    };
+    void tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private cursor(): number {
+    return this.store.getCursor() ?? this.options.startBlock - 1;
+  }
+
+  private async handleReorg() {
+    const checkpoints = this.store.getBlockCheckpoints();
+    if (checkpoints.length === 0) return;
+
+    for (const [i, checkpoint] of checkpoints.entries()) {
+      const block = await this.provider.getBlock(checkpoint.number);
+      if (block?.hash === checkpoint.hash) {
+        if (i > 0) {
+          this.logger.warn(`Reorg detected, rolling back to block ${checkpoint.number}`);
+          this.store.rollbackTo(checkpoint.number);
+        }
+        return;
+      }
+    }
+
+    this.logger.warn(`No recorded block is on the current chain, re-indexing from block ${this.options.startBlock}`);
+    this.store.rollbackTo(this.options.startBlock - 1);
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number) {
+    const batch: IndexedBatch = {
+      tokens: [],
+      purchases: [],
+      priceUpdates: [],
+      withdrawals: [],
+      blockHashes: new Map(),
+      toBlock,
+    };
+
+    const factoryLogs = await this.provider.getLogs({
+      address: this.options.factoryAddress,
+      topics: [TOKEN_CREATED_TOPIC],
+      fromBlock,
+      toBlock,
+    });
+    for (const log of factoryLogs) {
+      const parsed = factoryInterface.parseLog(log);
+      if (!parsed) continue;
+      batch.tokens.push({
+        address: getAddress(parsed.args.token),
+        creator: getAddress(parsed.args.creator),
+        name: parsed.args.name,
+        symbol: parsed.args.symbol,
+        totalSupplyClear: parsed.args.totalSupplyClear,
+        initialPricePerTokenWei: parsed.args.pricePerTokenWei,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+      });
+      batch.blockHashes.set(log.blockNumber, log.blockHash);
+    }
+
+    // Tokens created in this range can already have sales in the same range.
+    const tokenAddresses = [...this.store.listTokenAddresses(), ...batch.tokens.map((t) => t.address)];
+    for (let i = 0; i < tokenAddresses.length; i += ADDRESS_CHUNK_SIZE) {
+      const logs = await this.provider.getLogs({
+        address: tokenAddresses.slice(i, i + ADDRESS_CHUNK_SIZE),
+        topics: [TOKEN_EVENT_TOPICS],
+        fromBlock,
+        toBlock,
+      });
+      for (const log of logs) {
+        this.addTokenLog(batch, log);
+      }
+    }
+
+    const endBlock = await this.provider.getBlock(toBlock);
+    if (!endBlock?.hash) throw new Error(`Block ${toBlock} not available`);
+    batch.blockHashes.set(toBlock, endBlock.hash);
+
+    this.store.applyBatch(batch);
+  }
+
+  private addTokenLog(batch: IndexedBatch, log: Log) {
+    const parsed = tokenInterface.parseLog(log);
+    if (!parsed) return;
+
+    const token = getAddress(log.address);
+    const position = { blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index };
+    switch (parsed.name) {
+      case "TokenPurchased":
+        batch.purchases.push({
+          token,
+          buyer: getAddress(parsed.args.buyer),
+          amount: parsed.args.amount,
+          requiredWei: parsed.args.requiredWei,
+          paidWei: parsed.args.paidWei,
+          ...position,
+        });
+        break;
+      case "PriceUpdated":
+        batch.priceUpdates.push({
+          token,
+          oldPricePerTokenWei: parsed.args.oldPricePerTokenWei,
+          newPricePerTokenWei: parsed.args.newPricePerTokenWei,
+          ...position,
+        });
+        break;
+      case "Withdrawn":
+        batch.withdrawals.push({
+          token,
+          to: getAddress(parsed.args.to),
+          amountWei: parsed.args.amountWei,
+          ...position,
+        });
+        break;
+      default:
+        return;
+    }
+    batch.blockHashes.set(log.blockNumber, log.blockHash);
+  }
+}
@@ -0,0 +1,165 @@
+import http from "http";
+import { getAddress, isAddress } from "ethers";
+import type { IndexedToken, IndexerStore } from "./store";
+
+export type ServerInfo = {
+  chainId: bigint;
+  factoryAddress: string;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function parseAddress(value: string): string {
+  if (!isAddress(value)) throw new HttpError(400, `Invalid address: ${value}`);
+  return getAddress(value);
+}
+
+// A limit of 0 only asks for the totals some routes return next to the page.
+function parsePaging(params: URLSearchParams): { limit: number; offset: number } {
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 0 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be an integer between 0 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, "offset must be a non-negative integer");
+  return { limit, offset };
+}
+
+function matchesSearch(token: IndexedToken, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  return (
+    !needle ||
+    token.name.toLowerCase().includes(needle) ||
+    token.symbol.toLowerCase().includes(needle) ||
+    token.address.toLowerCase().includes(needle)
+  );
+}
+
+function tokenSummary(store: IndexerStore, token: IndexedToken) {
+  const purchases = store.listAllPurchases(token.address);
+  const [latestPriceUpdate] = store.listPriceUpdates(token.address);
+  const soldAmount = purchases.reduce((sum, p) => sum + p.amount, 0n);
+  const raisedWei = purchases.reduce((sum, p) => sum + p.requiredWei, 0n);
+
+  return {
+    ...token,
+    pricePerTokenWei: latestPriceUpdate?.newPricePerTokenWei ?? token.initialPricePerTokenWei,
+    purchaseCount: purchases.length,
+    buyerCount: new Set(purchases.map((p) => p.buyer)).size,
+    soldAmount,
+    raisedWei,
+  };
+}
+
+function creatorStats(store: IndexerStore, creator: string) {
+  const tokens = store.listTokens(creator).map((token) => tokenSummary(store, token));
+  const withdrawnWei = tokens
+    .flatMap((token) => store.listWithdrawals(token.address))
+    .reduce((sum, w) => sum + w.amountWei, 0n);
+
+  return {
+    creator,
+    tokenCount: tokens.length,
+    purchaseCount: tokens.reduce((sum, t) => sum + t.purchaseCount, 0),
+    soldAmount: tokens.reduce((sum, t) => sum + t.soldAmount, 0n),
+    raisedWei: tokens.reduce((sum, t) => sum + t.raisedWei, 0n),
+    withdrawnWei,
+    tokens,
+  };
+}
+
+function route(store: IndexerStore, info: ServerInfo, url: URL): unknown {
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (segments.length === 1 && segments[0] === "health") {
+    return { chainId: info.chainId, factory: info.factoryAddress, lastIndexedBlock: store.getCursor() ?? null };
+  }
+
+  if (segments[0] === "tokens") {
+    if (segments.length === 1) {
+      const creator = url.searchParams.get("creator");
+      const search = url.searchParams.get("search") ?? "";
+      const matching = store
+        .listTokens(creator ? parseAddress(creator) : undefined)
+        .filter((token) => matchesSearch(token, search));
+      // Unpaged unless a limit or offset is given.
+      const paged = url.searchParams.has("limit") || url.searchParams.has("offset");
+      const { limit, offset } = paged ? parsePaging(url.searchParams) : { limit: matching.length, offset: 0 };
+      return {
+        total: matching.length,
+        tokens: matching.slice(offset, offset + limit).map((token) => tokenSummary(store, token)),
+      };
+    }
+
+    const token = store.getToken(parseAddress(segments[1]));
+    if (!token) throw new HttpError(404, `Unknown token: ${segments[1]}`);
+
+    if (segments.length === 2) return tokenSummary(store, token);
+    if (segments.length === 3 && segments[2] === "sales") {
+      const { limit, offset } = parsePaging(url.searchParams);
+      return { token: token.address, sales: store.listPurchases(token.address, limit, offset) };
+    }
+    if (segments.length === 3 && segments[2] === "history") {
+      return {
+        token: token.address,
+        priceUpdates: store.listPriceUpdates(token.address),
+        withdrawals: store.listWithdrawals(token.address),
+      };
+    }
+  }
+
+  if (segments.length === 3 && segments[0] === "creators" && segments[2] === "stats") {
+    return creatorStats(store, parseAddress(segments[1]));
+  }
+
+  throw new HttpError(404, `Not found: ${url.pathname}`);
+}
+
+/**
+ * Read-only JSON API over the indexed data:
+ *   GET /health
+ *   GET /tokens[?creator=0x...&search=&limit=&offset=]  (newest first; search matches name, symbol or address)
+ *   GET /tokens/:address
+ *   GET /tokens/:address/sales[?limit=&offset=]
+ *   GET /tokens/:address/history
+ *   GET /creators/:address/stats
+ * bigint values are serialized as decimal strings.
+ */
+export function createIndexerServer(store: IndexerStore, info: ServerInfo): http.Server {
+  return http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+
+    let status = 200;
+    let body: unknown;
+    if (req.method === "OPTIONS") {
+      res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== "GET") {
+      status = 405;
+      body = { error: "Method not allowed" };
+    } else {
+      try {
+        body = route(store, info, new URL(req.url ?? "/", "http://localhost"));
+      } catch (err) {
+        status = err instanceof HttpError ? err.status : 500;
+        body = { error: err instanceof Error ? err.message : "Internal error" };
+      }
+    }
+
+    res.writeHead(status);
+    res.end(JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+  });
+}
@@ -0,0 +1,360 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+export type IndexedToken = {
+  address: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  totalSupplyClear: bigint;
+  initialPricePerTokenWei: bigint;
+  blockNumber: number;
+  txHash: string;
+};
+
+export type IndexedPurchase = {
+  token: string;
+  buyer: string;
+  amount: bigint;
+  requiredWei: bigint;
+  paidWei: bigint;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+};
+
+export type IndexedPriceUpdate = {
+  token: string;
+  oldPricePerTokenWei: bigint;
+  newPricePerTokenWei: bigint;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+};
+
+export type IndexedWithdrawal = {
+  token: string;
+  to: string;
+  amountWei: bigint;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+};
+
+export type IndexedBatch = {
+  tokens: IndexedToken[];
+  purchases: IndexedPurchase[];
+  priceUpdates: IndexedPriceUpdate[];
+  withdrawals: IndexedWithdrawal[];
+  blockHashes: Map<number, string>;
+  toBlock: number;
+};
+
+// Block hashes older than this many checkpoints are pruned; a deeper reorg rewinds to the start block.
+const MAX_BLOCK_CHECKPOINTS = 256;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tokens (
+  address TEXT PRIMARY KEY,
+  creator TEXT NOT NULL,
+  name TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  total_supply TEXT NOT NULL,
+  initial_price_wei TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS tokens_creator ON tokens (creator);
+CREATE TABLE IF NOT EXISTS purchases (
+  token TEXT NOT NULL,
+  buyer TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  required_wei TEXT NOT NULL,
+  paid_wei TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  PRIMARY KEY (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS purchases_token ON purchases (token, block_number);
+CREATE TABLE IF NOT EXISTS price_updates (
+  token TEXT NOT NULL,
+  old_price_wei TEXT NOT NULL,
+  new_price_wei TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  PRIMARY KEY (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS price_updates_token ON price_updates (token, block_number);
+CREATE TABLE IF NOT EXISTS withdrawals (
+  token TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount_wei TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  PRIMARY KEY (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS withdrawals_token ON withdrawals (token, block_number);
+`;
+
+type TokenDbRow = {
+  address: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  total_supply: string;
+  initial_price_wei: string;
+  block_number: number;
+  tx_hash: string;
+};
+
+type PurchaseDbRow = {
+  token: string;
+  buyer: string;
+  amount: string;
+  required_wei: string;
+  paid_wei: string;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+};
+
+type PriceUpdateDbRow = {
+  token: string;
+  old_price_wei: string;
+  new_price_wei: string;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+};
+
+type WithdrawalDbRow = {
+  token: string;
+  to_address: string;
+  amount_wei: string;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+};
+
+/**
+ * SQLite-backed event store. Amounts are stored as decimal strings (they do not fit SQLite integers) and summed
+ * with bigint in JS. All writes for a block range happen in one transaction together with the cursor, so a crash
+ * never leaves a half-indexed range behind.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ":memory:") {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db
+      .prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  /** Last fully indexed block, or undefined before the first sync. */
+  getCursor(): number | undefined {
+    const value = this.getMeta("cursor");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /** Recorded block hashes, newest first. */
+  getBlockCheckpoints(): { number: number; hash: string }[] {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as {
+      number: number;
+      hash: string;
+    }[];
+  }
+
+  applyBatch(batch: IndexedBatch) {
+    const insertToken = this.db.prepare(
+      `INSERT OR REPLACE INTO tokens (address, creator, name, symbol, total_supply, initial_price_wei, block_number, tx_hash)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const insertPurchase = this.db.prepare(
+      `INSERT OR REPLACE INTO purchases (token, buyer, amount, required_wei, paid_wei, block_number, tx_hash, log_index)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const insertPriceUpdate = this.db.prepare(
+      `INSERT OR REPLACE INTO price_updates (token, old_price_wei, new_price_wei, block_number, tx_hash, log_index)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    const insertWithdrawal = this.db.prepare(
+      `INSERT OR REPLACE INTO withdrawals (token, to_address, amount_wei, block_number, tx_hash, log_index)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+
+    this.db.transaction(() => {
+      for (const t of batch.tokens) {
+        insertToken.run(
+          t.address,
+          t.creator,
+          t.name,
+          t.symbol,
+          t.totalSupplyClear.toString(),
+          t.initialPricePerTokenWei.toString(),
+          t.blockNumber,
+          t.txHash,
+        );
+      }
+      for (const p of batch.purchases) {
+        insertPurchase.run(
+          p.token,
+          p.buyer,
+          p.amount.toString(),
+          p.requiredWei.toString(),
+          p.paidWei.toString(),
+          p.blockNumber,
+          p.txHash,
+          p.logIndex,
+        );
+      }
+      for (const u of batch.priceUpdates) {
+        insertPriceUpdate.run(
+          u.token,
+          u.oldPricePerTokenWei.toString(),
+          u.newPricePerTokenWei.toString(),
+          u.blockNumber,
+          u.txHash,
+          u.logIndex,
+        );
+      }
+      for (const w of batch.withdrawals) {
+        insertWithdrawal.run(w.token, w.to, w.amountWei.toString(), w.blockNumber, w.txHash, w.logIndex);
+      }
+      for (const [blockNumber, hash] of batch.blockHashes) {
+        insertBlock.run(blockNumber, hash);
+      }
+      this.db
+        .prepare("DELETE FROM blocks WHERE number NOT IN (SELECT number FROM blocks ORDER BY number DESC LIMIT ?)")
+        .run(MAX_BLOCK_CHECKPOINTS);
+      this.setMeta("cursor", batch.toBlock.toString());
+    })();
+  }
+
+  /** Drops everything indexed after `blockNumber` and moves the cursor back to it. */
+  rollbackTo(blockNumber: number) {
+    this.db.transaction(() => {
+      for (const table of ["tokens", "purchases", "price_updates", "withdrawals", "blocks"]) {
+        const column = table === "blocks" ? "number" : "block_number";
+        this.db.prepare(`DELETE FROM ${table} WHERE ${column} > ?`).run(blockNumber);
+      }
+      this.setMeta("cursor", blockNumber.toString());
+    })();
+  }
+
+  listTokenAddresses(): string[] {
+    return (
+      this.db.prepare("SELECT address FROM tokens ORDER BY block_number, address").all() as { address: string }[]
+    ).map((row) => row.address);
+  }
+
+  listTokens(creator?: string): IndexedToken[] {
+    const rows = (
+      creator
+        ? this.db.prepare("SELECT * FROM tokens WHERE creator = ? ORDER BY block_number DESC").all(creator)
+        : this.db.prepare("SELECT * FROM tokens ORDER BY block_number DESC").all()
+    ) as TokenDbRow[];
+    return rows.map(toToken);
+  }
+
+  getToken(address: string): IndexedToken | undefined {
+    const row = this.db.prepare("SELECT * FROM tokens WHERE address = ?").get(address) as TokenDbRow | undefined;
+    return row ? toToken(row) : undefined;
+  }
+
+  listPurchases(token: string, limit: number, offset: number): IndexedPurchase[] {
+    const rows = this.db
+      .prepare("SELECT * FROM purchases WHERE token = ? ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?")
+      .all(token, limit, offset) as PurchaseDbRow[];
+    return rows.map(toPurchase);
+  }
+
+  listAllPurchases(token: string): IndexedPurchase[] {
+    const rows = this.db.prepare("SELECT * FROM purchases WHERE token = ?").all(token) as PurchaseDbRow[];
+    return rows.map(toPurchase);
+  }
+
+  listPriceUpdates(token: string): IndexedPriceUpdate[] {
+    const rows = this.db
+      .prepare("SELECT * FROM price_updates WHERE token = ? ORDER BY block_number DESC, log_index DESC")
+      .all(token) as PriceUpdateDbRow[];
+    return rows.map((row) => ({
+      token: row.token,
+      oldPricePerTokenWei: BigInt(row.old_price_wei),
+      newPricePerTokenWei: BigInt(row.new_price_wei),
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+    }));
+  }
+
+  listWithdrawals(token: string): IndexedWithdrawal[] {
+    const rows = this.db
+      .prepare("SELECT * FROM withdrawals WHERE token = ? ORDER BY block_number DESC, log_index DESC")
+      .all(token) as WithdrawalDbRow[];
+    return rows.map((row) => ({
+      token: row.token,
+      to: row.to_address,
+      amountWei: BigInt(row.amount_wei),
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+    }));
+  }
+}
+
+function toToken(row: TokenDbRow): IndexedToken {
+  return {
+    address: row.address,
+    creator: row.creator,
+    name: row.name,
+    symbol: row.symbol,
+    totalSupplyClear: BigInt(row.total_supply),
+    initialPricePerTokenWei: BigInt(row.initial_price_wei),
+    blockNumber: row.block_number,
+    txHash: row.tx_hash,
+  };
+}
+
+function toPurchase(row: PurchaseDbRow): IndexedPurchase {
+  return {
+    token: row.token,
+    buyer: row.buyer,
+    amount: BigInt(row.amount),
+    requiredWei: BigInt(row.required_wei),
+    paidWei: BigInt(row.paid_wei),
+    blockNumber: row.block_number,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+  };
+}
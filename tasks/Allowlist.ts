@@ -0,0 +1,87 @@
+import { AbiCoder, concat, getAddress, isAddress, keccak256 } from "ethers";
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+export type Allowlist = {
+  root: string;
+  proofs: Record<string, string[]>;
+};
+
+// Matches ConfidentialERC7984Token.isAllowlisted: the leaf is hashed twice so it can never collide with an inner node.
+function allowlistLeaf(account: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [account])));
+}
+
+// MerkleProof hashes sibling pairs in sorted order, so proofs do not need to record left/right positions.
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+// Builds the Merkle root and one proof per address; an odd node at the end of a layer is carried up unchanged.
+export function buildAllowlist(addresses: string[]): Allowlist {
+  const accounts = [...new Set(addresses.map((address) => getAddress(address)))];
+  if (accounts.length === 0) {
+    throw new Error("Allowlist is empty");
+  }
+
+  const layers: string[][] = [accounts.map(allowlistLeaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  accounts.forEach((account, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    }
+    proofs[account] = proof;
+  });
+
+  return { root: layers[layers.length - 1][0], proofs };
+}
+
+// Reads addresses from the first column of a CSV file, skipping blank lines and a header row.
+export function readAllowlistCsv(file: string): string[] {
+  const lines = fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.split(",")[0].trim().replace(/^"|"$/g, ""))
+    .filter((value) => value.length > 0);
+
+  return lines.filter((value, index) => {
+    if (isAddress(value)) return true;
+    if (index === 0) return false;
+    throw new Error(`Entry ${index + 1} of ${file} is not an address: ${value}`);
+  });
+}
+
+export function proofFor(allowlist: Allowlist, account: string): string[] {
+  const proof = allowlist.proofs[getAddress(account)];
+  if (!proof) {
+    throw new Error(`${account} is not on the allowlist`);
+  }
+  return proof;
+}
+
+task("task:allowlist:build", "Builds the allowlist Merkle root and proofs from a CSV of addresses")
+  .addParam("csv", "CSV file with one address per line (first column)")
+  .addOptionalParam("out", "Writes the root and proofs as JSON to this file")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const allowlist = buildAllowlist(readAllowlistCsv(taskArguments.csv));
+
+    console.log(`Allowlist root: ${allowlist.root} (${Object.keys(allowlist.proofs).length} addresses)`);
+    if (taskArguments.out) {
+      fs.writeFileSync(taskArguments.out, JSON.stringify(allowlist, null, 2) + "\n");
+      console.log(`Wrote proofs to ${taskArguments.out}`);
+    }
+  });
@@ -0,0 +1,91 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import path from "path";
+
+// Contracts whose ABI is exported to the frontend, with the constant name used in the generated module.
+const APP_ABIS: Record<string, string> = {
+  ConfidentialTokenFactory: "CONFIDENTIAL_TOKEN_FACTORY_ABI",
+  ConfidentialERC7984Token: "CONFIDENTIAL_ERC7984_TOKEN_ABI",
+  ConfidentialTokenLens: "CONFIDENTIAL_TOKEN_LENS_ABI",
+  ConfidentialSealedBidAuction: "CONFIDENTIAL_SEALED_BID_AUCTION_ABI",
+  ConfidentialCreditVault: "CONFIDENTIAL_CREDIT_VAULT_ABI",
+  ConfidentialUSDT: "CONFIDENTIAL_USDT_ABI",
+  ConfidentialERC20Wrapper: "CONFIDENTIAL_ERC20_WRAPPER_ABI",
+  ConfidentialHoldingsVerifier: "CONFIDENTIAL_HOLDINGS_VERIFIER_ABI",
+};
+
+// Singleton deployments whose addresses are exported per chain.
+const APP_DEPLOYMENTS = [
+  "ConfidentialTokenFactory",
+  "ConfidentialTokenLens",
+  "ConfidentialUSDT",
+  "ConfidentialHoldingsVerifier",
+];
+
+const DEFAULT_OUT = path.join("app", "src", "config", "contracts.generated.ts");
+
+/**
+ * Example:
+ *   - npx hardhat task:app:sync-contracts
+ *
+ * Runs automatically after `npm run compile` and `npm run deploy:<network>`.
+ */
+task("task:app:sync-contracts", "Writes the frontend ABIs and per-chain addresses from artifacts/ and deployments/")
+  .addOptionalParam("out", "Output module path", DEFAULT_OUT)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { artifacts, config } = hre;
+
+    const abiBlocks: string[] = [];
+    for (const [contractName, constName] of Object.entries(APP_ABIS)) {
+      const artifact = await artifacts.readArtifact(contractName);
+      abiBlocks.push(`export const ${constName} = ${JSON.stringify(artifact.abi, null, 2)} as const;`);
+    }
+
+    const addresses: Record<string, Record<string, string>> = {};
+    const deploymentBlocks: Record<string, Record<string, number>> = {};
+    const deploymentsRoot = config.paths.deployments;
+    const networkDirs = fs.existsSync(deploymentsRoot) ? fs.readdirSync(deploymentsRoot).sort() : [];
+    for (const networkName of networkDirs) {
+      const chainIdFile = path.join(deploymentsRoot, networkName, ".chainId");
+      if (!fs.existsSync(chainIdFile)) continue;
+      const chainId = fs.readFileSync(chainIdFile, "utf8").trim();
+
+      for (const contractName of APP_DEPLOYMENTS) {
+        const deploymentFile = path.join(deploymentsRoot, networkName, `${contractName}.json`);
+        if (!fs.existsSync(deploymentFile)) continue;
+        const { address, receipt } = JSON.parse(fs.readFileSync(deploymentFile, "utf8")) as {
+          address: string;
+          receipt?: { blockNumber?: number };
+        };
+        addresses[chainId] = { ...addresses[chainId], [contractName]: address };
+        if (receipt?.blockNumber !== undefined) {
+          deploymentBlocks[chainId] = { ...deploymentBlocks[chainId], [contractName]: receipt.blockNumber };
+        }
+      }
+    }
+
+    const source = [
+      "// Generated by `npx hardhat task:app:sync-contracts` from artifacts/ and deployments/. Do not edit by hand.",
+      "",
+      `export type DeployedContractName = ${APP_DEPLOYMENTS.map((name) => `'${name}'`).join(" | ")};`,
+      "",
+      "export const CONTRACT_ADDRESSES: Record<number, Partial<Record<DeployedContractName, `0x${string}`>>> = " +
+        `${JSON.stringify(addresses, null, 2)};`,
+      "",
+      "// Block each deployment was mined in, where the deployment receipt recorded it.",
+      "export const DEPLOYMENT_BLOCKS: Record<number, Partial<Record<DeployedContractName, number>>> = " +
+        `${JSON.stringify(deploymentBlocks, null, 2)};`,
+      "",
+      ...abiBlocks.flatMap((block) => [block, ""]),
+    ].join("\n");
+
+    const outPath = path.resolve(config.paths.root, taskArguments.out);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, source);
+
+    const chains = Object.keys(addresses);
+    console.log(
+      `Wrote ${path.relative(config.paths.root, outPath)} (chains: ${chains.length ? chains.join(", ") : "none"})`,
+    );
+  });
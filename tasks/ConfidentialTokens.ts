@@ -1,6 +1,89 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import fs from "fs";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
+import path from "path";
+
+import { buildAllowlist, proofFor, readAllowlistCsv, type Allowlist } from "./Allowlist";
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// Builds an ERC-7572 contractURI as an inline JSON data URI. --image may be a URL or a local image file.
+function buildContractURI(name: string, taskArguments: TaskArguments): string {
+  const { description, website } = taskArguments;
+  let image: string | undefined = taskArguments.image;
+  if (!description && !website && !image) return "";
+
+  if (image && fs.existsSync(image)) {
+    const mimeType = IMAGE_MIME_TYPES[path.extname(image).toLowerCase()];
+    if (!mimeType) {
+      throw new Error(`Argument --image must be a .png, .jpg, .gif or .webp file`);
+    }
+    image = `data:${mimeType};base64,${fs.readFileSync(image).toString("base64")}`;
+  }
+
+  const metadata = {
+    name,
+    ...(description ? { description } : {}),
+    ...(website ? { external_link: website } : {}),
+    ...(image ? { image } : {}),
+  };
+  return `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString("base64")}`;
+}
+
+// Accepts unix seconds or an ISO 8601 date; a missing value means 0 (no limit).
+export function parseTimestamp(value: string | undefined, name: string): bigint {
+  if (value === undefined) return 0n;
+  if (/^\d+$/.test(value)) return BigInt(value);
+  const millis = Date.parse(value);
+  if (Number.isNaN(millis)) {
+    throw new Error(`Argument --${name} must be unix seconds or an ISO 8601 date`);
+  }
+  return BigInt(Math.floor(millis / 1000));
+}
+
+// Order of ConfidentialERC7984Token.PricingCurve.
+const PRICING_CURVES = ["flat", "linear", "dutch"];
+
+// Prices are parsed in the payment token's units when there is one; the soft cap is always in ETH.
+function buildSaleConfig(
+  taskArguments: TaskArguments,
+  parseEther: (value: string) => bigint,
+  parsePrice: (value: string) => bigint,
+) {
+  if (taskArguments.allowlist && taskArguments.allowlistRoot) {
+    throw new Error(`Pass either --allowlist or --allowlist-root, not both`);
+  }
+  const allowlistRoot: string = taskArguments.allowlist
+    ? buildAllowlist(readAllowlistCsv(taskArguments.allowlist)).root
+    : (taskArguments.allowlistRoot ?? "0x" + "0".repeat(64));
+
+  const curve = PRICING_CURVES.indexOf(taskArguments.curve);
+  if (curve < 0) {
+    throw new Error(`Argument --curve must be one of ${PRICING_CURVES.join(", ")}`);
+  }
+  if ((curve === 0) !== (taskArguments.endPrice === undefined)) {
+    throw new Error(`Argument --end-price is required for, and only allowed with, a bonding curve or Dutch auction`);
+  }
+
+  return {
+    startTime: parseTimestamp(taskArguments.start, "start"),
+    endTime: parseTimestamp(taskArguments.end, "end"),
+    publicStartTime: parseTimestamp(taskArguments.publicStart, "public-start"),
+    maxPerWallet: BigInt(taskArguments.cap ?? "0"),
+    allowlistRoot,
+    softCapWei: taskArguments.softCap !== undefined ? parseEther(taskArguments.softCap) : 0n,
+    curve,
+    endPricePerTokenWei: taskArguments.endPrice !== undefined ? parsePrice(taskArguments.endPrice) : 0n,
+    paymentToken: (taskArguments.paymentToken as string | undefined) ?? "0x" + "0".repeat(40),
+  };
+}
 
 task("task:tokenFactory:address", "Prints the ConfidentialTokenFactory address").setAction(
   async function (_taskArguments: TaskArguments, hre) {
@@ -26,12 +109,85 @@ task("task:tokenFactory:list", "Lists all tokens created via ConfidentialTokenFa
     tokens.forEach((t, i) => console.log(`${i}: ${t}`));
   });
 
+task("task:factory:set-fees", "Sets the factory's creation and purchase fees (factory owner only)")
+  .addOptionalParam("factory", "Optionally specify the factory address")
+  .addOptionalParam("creationFee", "Flat fee in ETH paid with every launch, default 0", "0")
+  .addOptionalParam("purchaseFee", "Fee on every token buy in basis points of the sale price (max 500), default 0", "0")
+  .addOptionalParam("recipient", "Fee recipient, default the current one")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers } = hre;
+
+    const deployment = taskArguments.factory
+      ? { address: taskArguments.factory }
+      : await deployments.get("ConfidentialTokenFactory");
+    const [signer] = await ethers.getSigners();
+    const factory = await ethers.getContractAt("ConfidentialTokenFactory", deployment.address, signer);
+
+    const creationFeeWei = ethers.parseEther(taskArguments.creationFee);
+    const purchaseFeeBps = BigInt(taskArguments.purchaseFee);
+    const maxBps = await factory.MAX_PURCHASE_FEE_BPS();
+    if (purchaseFeeBps > maxBps) {
+      throw new Error(`Argument --purchase-fee must be at most ${maxBps} basis points`);
+    }
+    const recipient: string = taskArguments.recipient ?? (await factory.feeRecipient());
+
+    const tx = await factory.setFees(creationFeeWei, purchaseFeeBps, recipient);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(
+      `Creation fee ${ethers.formatEther(creationFeeWei)} ETH, purchase fee ${purchaseFeeBps} bps, recipient ${recipient}`,
+    );
+  });
+
+task("task:factory:collect", "Sends the creation fees held by the factory to its fee recipient")
+  .addOptionalParam("factory", "Optionally specify the factory address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers } = hre;
+
+    const deployment = taskArguments.factory
+      ? { address: taskArguments.factory }
+      : await deployments.get("ConfidentialTokenFactory");
+    const [signer] = await ethers.getSigners();
+    const factory = await ethers.getContractAt("ConfidentialTokenFactory", deployment.address, signer);
+
+    const amountWei = await ethers.provider.getBalance(deployment.address);
+    if (amountWei === 0n) {
+      console.log("No fees to collect.");
+      return;
+    }
+    const tx = await factory.collectFees();
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Sent ${ethers.formatEther(amountWei)} ETH to ${await factory.feeRecipient()}`);
+  });
+
 task("task:token:create", "Creates a new confidential ERC7984 token using the factory")
   .addOptionalParam("factory", "Optionally specify the factory address")
   .addParam("name", "Token name")
   .addParam("symbol", "Token symbol")
   .addOptionalParam("supply", "Total supply (uint64, base units, default 100000000000)", "100000000000")
-  .addOptionalParam("price", "Price per 1 token (ETH), default 0.0001", "0.0001")
+  .addOptionalParam("price", "Price per 1 token (ETH or --payment-token), default 0.0001", "0.0001")
+  .addOptionalParam("description", "Metadata description")
+  .addOptionalParam("website", "Metadata website URL")
+  .addOptionalParam("image", "Metadata logo: image URL or local .png/.jpg/.gif/.webp file")
+  .addOptionalParam("start", "Sale start (unix seconds or ISO date, default: immediately)")
+  .addOptionalParam("end", "Sale end (unix seconds or ISO date, default: never)")
+  .addOptionalParam("publicStart", "End of the allowlist phase (unix seconds or ISO date)")
+  .addOptionalParam("cap", "Maximum purchase per wallet (base units, default: no cap)")
+  .addOptionalParam("allowlist", "CSV of allowlisted addresses; only they can buy before --public-start")
+  .addOptionalParam("allowlistRoot", "Prebuilt allowlist Merkle root (see task:allowlist:build)")
+  .addOptionalParam("softCap", "Soft cap in ETH; proceeds stay in escrow until --end and are refunded if it is missed")
+  .addOptionalParam(
+    "curve",
+    "Pricing: flat; linear from --price to --end-price as the supply sells; or dutch, falling from --price to the " +
+      "--end-price floor between --start and --end",
+    "flat",
+  )
+  .addOptionalParam("endPrice", "Price per 1 token (ETH) once sold out (linear) or at the end of the auction (dutch)")
+  .addOptionalParam(
+    "paymentToken",
+    "ERC-7984 token (e.g. cUSDT) to sell for instead of ETH; buyers then use task:credit:buy-with-payment-token",
+  )
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { deployments, ethers } = hre;
 
@@ -40,10 +196,36 @@ task("task:token:create", "Creates a new confidential ERC7984 token using the fa
     const factory = await ethers.getContractAt("ConfidentialTokenFactory", deployment.address, signer);
 
     const supply = BigInt(taskArguments.supply);
-    const pricePerTokenWei = ethers.parseEther(taskArguments.price);
+    let parsePrice = ethers.parseEther;
+    if (taskArguments.paymentToken) {
+      const paymentToken = await ethers.getContractAt("IERC7984", taskArguments.paymentToken);
+      const decimals = await paymentToken.decimals();
+      parsePrice = (value: string) => ethers.parseUnits(value, decimals);
+    }
+    const pricePerTokenWei = parsePrice(taskArguments.price);
+
+    const contractURI = buildContractURI(taskArguments.name, taskArguments);
+    const saleConfig = buildSaleConfig(taskArguments, ethers.parseEther, parsePrice);
+    const value = await factory.creationFeeWei();
 
-    const predicted = await factory.createToken.staticCall(taskArguments.name, taskArguments.symbol, supply, pricePerTokenWei);
-    const tx = await factory.createToken(taskArguments.name, taskArguments.symbol, supply, pricePerTokenWei);
+    const predicted = await factory.createToken.staticCall(
+      taskArguments.name,
+      taskArguments.symbol,
+      supply,
+      pricePerTokenWei,
+      contractURI,
+      saleConfig,
+      { value },
+    );
+    const tx = await factory.createToken(
+      taskArguments.name,
+      taskArguments.symbol,
+      supply,
+      pricePerTokenWei,
+      contractURI,
+      saleConfig,
+      { value },
+    );
     console.log(`Wait for tx:${tx.hash}... token=${predicted}`);
     await tx.wait();
   });
@@ -51,6 +233,9 @@ task("task:token:create", "Creates a new confidential ERC7984 token using the fa
 task("task:token:buy", "Buys a token using ETH (amount is base units, uint64)")
   .addParam("token", "Token address")
   .addParam("amount", "Amount to buy (uint64, base units)")
+  .addOptionalParam("maxPrice", "Maximum total ETH to pay; reverts if the quote is higher when mined")
+  .addOptionalParam("deadline", "Seconds from now after which the purchase reverts")
+  .addOptionalParam("proofs", "Allowlist JSON from task:allowlist:build, needed during the allowlist phase")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers } = hre;
     const [signer] = await ethers.getSigners();
@@ -59,11 +244,219 @@ task("task:token:buy", "Buys a token using ETH (amount is base units, uint64)")
     const amount = BigInt(taskArguments.amount);
     const requiredWei: bigint = await token.quoteBuy(amount);
 
-    const tx = await token.buy(amount, { value: requiredWei });
-    console.log(`Wait for tx:${tx.hash}... requiredWei=${requiredWei}`);
+    const allowance = await token.remainingAllowance(signer.address);
+    if (amount > allowance) {
+      throw new Error(`Argument --amount exceeds the remaining allowance of ${allowance} base units`);
+    }
+
+    if (
+      taskArguments.maxPrice === undefined &&
+      taskArguments.deadline === undefined &&
+      taskArguments.proofs === undefined
+    ) {
+      const tx = await token["buy(uint64)"](amount, { value: requiredWei });
+      console.log(`Wait for tx:${tx.hash}... requiredWei=${requiredWei}`);
+      await tx.wait();
+      return;
+    }
+
+    const maxWei = taskArguments.maxPrice !== undefined ? ethers.parseEther(taskArguments.maxPrice) : requiredWei;
+    if (maxWei < requiredWei) {
+      throw new Error(`Argument --max-price is below the current quote (${ethers.formatEther(requiredWei)} ETH)`);
+    }
+
+    const deadlineSeconds = parseInt(taskArguments.deadline ?? "1200");
+    if (!Number.isInteger(deadlineSeconds) || deadlineSeconds <= 0) {
+      throw new Error(`Argument --deadline is not a positive integer`);
+    }
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const deadline = BigInt((latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + deadlineSeconds);
+
+    if (taskArguments.proofs !== undefined) {
+      const allowlist = JSON.parse(fs.readFileSync(taskArguments.proofs, "utf8")) as Allowlist;
+      const proof = proofFor(allowlist, signer.address);
+      const tx = await token["buy(uint64,uint256,uint256,bytes32[])"](amount, maxWei, deadline, proof, {
+        value: maxWei,
+      });
+      console.log(`Wait for tx:${tx.hash}... requiredWei=${requiredWei} maxWei=${maxWei} (allowlist)`);
+      await tx.wait();
+      return;
+    }
+
+    const tx = await token["buy(uint64,uint256,uint256)"](amount, maxWei, deadline, { value: maxWei });
+    console.log(`Wait for tx:${tx.hash}... requiredWei=${requiredWei} maxWei=${maxWei} deadline=${deadline}`);
+    await tx.wait();
+  });
+
+task("task:token:transfer", "Sends an encrypted amount of a confidential token (amount is base units, uint64)")
+  .addParam("token", "Token address")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Amount to send (uint64, base units)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    if (!ethers.isAddress(taskArguments.to)) {
+      throw new Error(`Argument --to is not a valid address`);
+    }
+    const amount = BigInt(taskArguments.amount);
+    if (amount <= 0n) {
+      throw new Error(`Argument --amount must be greater than 0`);
+    }
+
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(taskArguments.token, signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await token["confidentialTransfer(address,bytes32,bytes)"](
+      taskArguments.to,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}... to=${taskArguments.to}`);
+    await tx.wait();
+  });
+
+task("task:token:set-price", "Updates the sale price of a token (owner only)")
+  .addParam("token", "Token address")
+  .addParam("price", "New price per 1 token (ETH)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const owner = await token.owner();
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`Signer ${signer.address} is not the token owner (${owner})`);
+    }
+
+    const pricePerTokenWei = ethers.parseEther(taskArguments.price);
+    const currentPriceWei = await token.pricePerTokenWei();
+    if (pricePerTokenWei === currentPriceWei) {
+      throw new Error(`Argument --price is the same as the current price`);
+    }
+
+    const tx = await token.setPricePerTokenWei(pricePerTokenWei);
+    console.log(`Wait for tx:${tx.hash}... price ${currentPriceWei} -> ${pricePerTokenWei} wei`);
     await tx.wait();
   });
 
+task("task:token:set-metadata", "Replaces a token's contractURI metadata (owner only)")
+  .addParam("token", "Token address")
+  .addOptionalParam("uri", "Raw contractURI (overrides the metadata options)")
+  .addOptionalParam("description", "Metadata description")
+  .addOptionalParam("website", "Metadata website URL")
+  .addOptionalParam("image", "Metadata logo: image URL or local .png/.jpg/.gif/.webp file")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const owner = await token.owner();
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`Signer ${signer.address} is not the token owner (${owner})`);
+    }
+
+    const contractURI: string = taskArguments.uri ?? buildContractURI(await token.name(), taskArguments);
+    const maxLength = await token.MAX_CONTRACT_URI_LENGTH();
+    if (BigInt(Buffer.byteLength(contractURI)) > maxLength) {
+      throw new Error(`Metadata is ${Buffer.byteLength(contractURI)} bytes, the limit is ${maxLength}`);
+    }
+
+    const tx = await token.setContractURI(contractURI);
+    console.log(`Wait for tx:${tx.hash}... contractURI length=${Buffer.byteLength(contractURI)}`);
+    await tx.wait();
+  });
+
+task("task:token:finalize", "Settles a soft-cap sale after it has ended or sold out")
+  .addParam("token", "Token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const { softCapWei } = await token.saleConfig();
+    const totalRaisedWei = await token.totalRaisedWei();
+    const tx = await token.finalizeSale();
+    console.log(`Wait for tx:${tx.hash}... raised=${ethers.formatEther(totalRaisedWei)} ETH`);
+    await tx.wait();
+    console.log(totalRaisedWei >= softCapWei ? "Soft cap met: proceeds released" : "Soft cap missed: refunds open");
+  });
+
+task("task:token:refund", "Claims the signer's refund after a failed soft-cap sale")
+  .addParam("token", "Token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const amountWei = await token.contributedWei(signer.address);
+    const tx = await token.claimRefund();
+    console.log(`Wait for tx:${tx.hash}... refund=${ethers.formatEther(amountWei)} ETH`);
+    await tx.wait();
+  });
+
+task("task:token:withdraw", "Withdraws collected ETH from a token (owner only)")
+  .addParam("token", "Token address")
+  .addOptionalParam("to", "Recipient address (defaults to signer[0])")
+  .addOptionalParam("amount", "Amount to withdraw (ETH, defaults to the full contract balance)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const owner = await token.owner();
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`Signer ${signer.address} is not the token owner (${owner})`);
+    }
+
+    const to = (taskArguments.to as string | undefined) ?? signer.address;
+    if (!ethers.isAddress(to) || to === ethers.ZeroAddress) {
+      throw new Error(`Argument --to is not a valid address`);
+    }
+
+    const balanceWei = await ethers.provider.getBalance(taskArguments.token);
+    const amountWei = taskArguments.amount ? ethers.parseEther(taskArguments.amount) : balanceWei;
+    if (amountWei <= 0n) {
+      throw new Error(`Nothing to withdraw`);
+    }
+    if (amountWei > balanceWei) {
+      throw new Error(`Argument --amount exceeds the contract balance (${ethers.formatEther(balanceWei)} ETH)`);
+    }
+
+    const tx = await token.withdraw(to, amountWei);
+    console.log(`Wait for tx:${tx.hash}... amountWei=${amountWei} to=${to}`);
+    await tx.wait();
+  });
+
+task("task:token:grant-viewer", "Names a viewer who can decrypt the signer's current and future balances")
+  .addParam("token", "Token or wrapper address")
+  .addOptionalParam("viewer", "Viewer address; omit with --revoke")
+  .addFlag("revoke", "Removes the viewer; balances already shared stay decryptable by it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const viewer = taskArguments.revoke ? ethers.ZeroAddress : (taskArguments.viewer as string | undefined);
+    if (!viewer) throw new Error("Pass --viewer <address>, or --revoke to remove the current viewer");
+
+    const tx = await token.setObserver(signer.address, viewer);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Viewer of ${signer.address}: ${await token.observer(signer.address)}`);
+    if (!taskArguments.revoke) {
+      console.log(
+        `The viewer decrypts with task:token:decrypt-balance --token ${taskArguments.token} --user ${signer.address}`,
+      );
+    }
+  });
+
 task("task:token:decrypt-balance", "Decrypts a user's confidential token balance (view + user decryption)")
   .addParam("token", "Token address")
   .addOptionalParam("user", "User address (defaults to signer[0])")
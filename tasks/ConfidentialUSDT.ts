@@ -0,0 +1,61 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+async function getCusdt(hre: HardhatRuntimeEnvironment, address: string | undefined) {
+  const { deployments, ethers } = hre;
+  const deployment = address ? { address } : await deployments.get("ConfidentialUSDT");
+  const [signer] = await ethers.getSigners();
+  return { signer, cusdt: await ethers.getContractAt("ConfidentialUSDT", deployment.address, signer) };
+}
+
+task("task:cusdt:faucet", "Claims cUSDT from the faucet for the signer")
+  .addOptionalParam("address", "Optionally specify the ConfidentialUSDT address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { signer, cusdt } = await getCusdt(hre, taskArguments.address);
+
+    const nextClaimAt = await cusdt.nextClaimAt(signer.address);
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+    if (now < nextClaimAt) {
+      console.log(`Next claim at ${new Date(Number(nextClaimAt) * 1000).toISOString()}`);
+      return;
+    }
+
+    const tx = await cusdt.faucet();
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    const claimed = await cusdt.claimedClear(signer.address);
+    const cap = await cusdt.faucetCap();
+    console.log(`Claimed ${ethers.formatUnits(claimed, 6)} of ${ethers.formatUnits(cap, 6)} cUSDT in total`);
+  });
+
+task("task:cusdt:decrypt-balance", "Decrypts the signer's cUSDT balance")
+  .addOptionalParam("address", "Optionally specify the ConfidentialUSDT address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, cusdt } = await getCusdt(hre, taskArguments.address);
+    const encryptedBalance = await cusdt.confidentialBalanceOf(signer.address);
+    if (encryptedBalance === ethers.ZeroHash) {
+      console.log(`cUSDT balance: 0`);
+      return;
+    }
+
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, await cusdt.getAddress(), signer);
+    console.log(`cUSDT balance: ${ethers.formatUnits(balance, 6)}`);
+  });
+
+task("task:cusdt:mint", "Mints cUSDT without faucet limits (owner only)")
+  .addOptionalParam("address", "Optionally specify the ConfidentialUSDT address")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Amount (uint64, base units)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { cusdt } = await getCusdt(hre, taskArguments.address);
+
+    const tx = await cusdt.mint(taskArguments.to, BigInt(taskArguments.amount));
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+  });
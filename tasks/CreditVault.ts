@@ -0,0 +1,174 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+// Credit and proceeds are kept in wei * TOKEN_BASE so encrypted costs need no division.
+const TOKEN_BASE = 1_000_000n;
+
+// Publicly decrypts one euint128 handle and returns the clear value with the KMS proof the vault checks.
+async function publicDecryptUint128(fhevm: HardhatRuntimeEnvironment["fhevm"], handle: string) {
+  const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  return { value: clearValues[handle as `0x${string}`] as bigint, decryptionProof };
+}
+
+// Every token stores the credit vault its factory deployed it with.
+async function getCreditVault(hre: HardhatRuntimeEnvironment, tokenAddress: string) {
+  const [signer] = await hre.ethers.getSigners();
+  const token = await hre.ethers.getContractAt("ConfidentialERC7984Token", tokenAddress, signer);
+  const vaultAddress = await token.creditVault();
+  if (vaultAddress === hre.ethers.ZeroAddress) {
+    throw new Error(`Token ${tokenAddress} has no credit vault`);
+  }
+  return { signer, token, vault: await hre.ethers.getContractAt("ConfidentialCreditVault", vaultAddress, signer) };
+}
+
+task("task:token:allocate-private", "Moves part of the public sale into the private pool (owner only)")
+  .addParam("token", "Token address")
+  .addParam("amount", "Amount to move (uint64, base units)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+
+    const tx = await token.allocatePrivateSupply(BigInt(taskArguments.amount));
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Private pool: ${await token.privateSupplyClear()} base units allocated in total`);
+  });
+
+task("task:credit:deposit", "Adds ETH to the signer's encrypted credit in the token's credit vault")
+  .addParam("token", "Token address")
+  .addParam("amount", "ETH to deposit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vault } = await getCreditVault(hre, taskArguments.token);
+
+    const tx = await vault.deposit({ value: hre.ethers.parseEther(taskArguments.amount) });
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+  });
+
+task("task:credit:buy", "Buys an encrypted amount from the token's private pool, paid from the signer's credit")
+  .addParam("token", "Token address")
+  .addParam("amount", "Amount to buy (uint64, base units)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, vault } = await getCreditVault(hre, taskArguments.token);
+    const vaultAddress = await vault.getAddress();
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(vaultAddress, signer.address)
+      .add64(BigInt(taskArguments.amount))
+      .encrypt();
+
+    const tx = await vault.buy(taskArguments.token, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Nothing is bought or charged if the credit or the private pool does not cover the amount`);
+  });
+
+task("task:credit:balance", "Decrypts the signer's credit")
+  .addParam("token", "Token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, vault } = await getCreditVault(hre, taskArguments.token);
+    const handle = await vault.creditOf(signer.address);
+    if (handle === ethers.ZeroHash) {
+      console.log(`Credit: 0 ETH`);
+      return;
+    }
+    const credit = await fhevm.userDecryptEuint(FhevmType.euint128, handle, await vault.getAddress(), signer);
+    console.log(`Credit: ${ethers.formatEther(credit / TOKEN_BASE)} ETH`);
+  });
+
+task("task:credit:withdraw", "Withdraws the signer's whole credit; this reveals the amount")
+  .addParam("token", "Token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, vault } = await getCreditVault(hre, taskArguments.token);
+    if ((await vault.pendingWithdrawalOf(signer.address)) === ethers.ZeroHash) {
+      const tx = await vault.requestWithdrawal();
+      console.log(`Wait for tx:${tx.hash}... requesting the withdrawal`);
+      await tx.wait();
+    }
+
+    const credit = await publicDecryptUint128(fhevm, await vault.pendingWithdrawalOf(signer.address));
+    const tx = await vault.withdraw(credit.value, credit.decryptionProof);
+    console.log(`Wait for tx:${tx.hash}... amount=${ethers.formatEther(credit.value / TOKEN_BASE)} ETH`);
+    await tx.wait();
+  });
+
+task("task:credit:release-proceeds", "Reveals and withdraws a token's private sale proceeds (token owner only)")
+  .addParam("token", "Token address")
+  .addOptionalParam("to", "Recipient address, default: the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, vault } = await getCreditVault(hre, taskArguments.token);
+    if ((await vault.pendingProceedsOf(taskArguments.token)) === ethers.ZeroHash) {
+      const tx = await vault.revealProceeds(taskArguments.token);
+      console.log(`Wait for tx:${tx.hash}... revealing the proceeds`);
+      await tx.wait();
+    }
+
+    const proceeds = await publicDecryptUint128(fhevm, await vault.pendingProceedsOf(taskArguments.token));
+    const to = (taskArguments.to as string | undefined) ?? signer.address;
+    const tx = await vault.releaseProceeds(taskArguments.token, to, proceeds.value, proceeds.decryptionProof);
+    console.log(
+      `Wait for tx:${tx.hash}... amount=${ethers.formatEther(proceeds.value / TOKEN_BASE)} ETH before the protocol fee`,
+    );
+    await tx.wait();
+  });
+
+task("task:credit:buy-with-payment-token", "Buys an encrypted amount of a token priced in an ERC-7984 payment token")
+  .addParam("token", "Token address")
+  .addParam("amount", "Amount to buy (uint64, base units)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, token, vault } = await getCreditVault(hre, taskArguments.token);
+    const vaultAddress = await vault.getAddress();
+    const paymentToken = await ethers.getContractAt("IERC7984", (await token.saleConfig()).paymentToken, signer);
+
+    // The vault pulls the payment as the signer's operator; approve it for a day if it is not one already.
+    if (!(await paymentToken.isOperator(signer.address, vaultAddress))) {
+      const until = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+      const tx = await paymentToken.setOperator(vaultAddress, until);
+      console.log(`Wait for tx:${tx.hash}... setting the vault as operator`);
+      await tx.wait();
+    }
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(vaultAddress, signer.address)
+      .add64(BigInt(taskArguments.amount))
+      .encrypt();
+    const tx = await vault.buyWithPaymentToken(
+      taskArguments.token,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Nothing is bought or charged if the payment token balance or the pool does not cover the amount`);
+  });
+
+task("task:credit:collect-fees", "Sends the protocol fees of a payment-token sale to the factory's fee recipient")
+  .addParam("token", "Token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vault } = await getCreditVault(hre, taskArguments.token);
+
+    const tx = await vault.collectPaymentTokenFees(taskArguments.token);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+  });
@@ -0,0 +1,95 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+async function getVerifier(hre: HardhatRuntimeEnvironment, address: string | undefined) {
+  const { deployments, ethers } = hre;
+  const deployment = address ? { address } : await deployments.get("ConfidentialHoldingsVerifier");
+  const [signer] = await ethers.getSigners();
+  return {
+    signer,
+    verifier: await ethers.getContractAt("ConfidentialHoldingsVerifier", deployment.address, signer),
+  };
+}
+
+task("task:holdings:prove", "Proves the signer holds at least a threshold of a token without revealing the balance")
+  .addParam("token", "Token or wrapper address")
+  .addParam("threshold", "Minimum balance to prove, in whole tokens (e.g. 1.5)")
+  .addOptionalParam("verifier", "Optionally specify the ConfidentialHoldingsVerifier address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, verifier } = await getVerifier(hre, taskArguments.verifier);
+    const verifierAddress = await verifier.getAddress();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token, signer);
+    const threshold = ethers.parseUnits(taskArguments.threshold, await token.decimals());
+
+    // The proof moves the threshold from the signer to themselves as their operator; approve it for an hour if needed.
+    if (!(await token.isOperator(signer.address, verifierAddress))) {
+      const until = Math.floor(Date.now() / 1000) + 60 * 60;
+      const tx = await token.setOperator(verifierAddress, until);
+      console.log(`Wait for tx:${tx.hash}... setting the verifier as operator`);
+      await tx.wait();
+    }
+
+    const tx = await verifier.requestProof(taskArguments.token, threshold);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    const requested = receipt?.logs
+      .map((log) => {
+        try {
+          return verifier.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find((parsed) => parsed?.name === "ProofRequested");
+    const id = requested?.args.id as string;
+    const result = requested?.args.result as string;
+
+    const { clearValues, decryptionProof } = await fhevm.publicDecrypt([result]);
+    const held = clearValues[result as `0x${string}`] as boolean;
+    const revealTx = await verifier.revealProof(id, held, decryptionProof);
+    console.log(`Wait for tx:${revealTx.hash}...`);
+    await revealTx.wait();
+
+    console.log(`Proof id   : ${id}`);
+    console.log(`Block      : ${receipt?.blockNumber}`);
+    console.log(`Holds ${taskArguments.threshold} ${await token.symbol()}: ${held}`);
+  });
+
+task("task:holdings:check", "Reads a holdings attestation by id, or the latest block a holder met a threshold")
+  .addOptionalParam("id", "Proof id printed by task:holdings:prove")
+  .addOptionalParam("token", "Token or wrapper address")
+  .addOptionalParam("holder", "Holder address")
+  .addOptionalParam("threshold", "Threshold in whole tokens (e.g. 1.5)")
+  .addOptionalParam("verifier", "Optionally specify the ConfidentialHoldingsVerifier address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { verifier } = await getVerifier(hre, taskArguments.verifier);
+
+    if (taskArguments.id) {
+      const proof = await verifier.getProof(taskArguments.id);
+      if (proof.holder === ethers.ZeroAddress) throw new Error(`No proof with id ${taskArguments.id}`);
+      const token = await ethers.getContractAt("ConfidentialERC7984Token", proof.token);
+      console.log(`Token      : ${proof.token}`);
+      console.log(`Holder     : ${proof.holder}`);
+      console.log(`Threshold  : ${ethers.formatUnits(proof.threshold, await token.decimals())}`);
+      console.log(`Block      : ${proof.blockNumber}`);
+      console.log(`Result     : ${proof.revealed ? proof.held : "not revealed yet"}`);
+      return;
+    }
+
+    if (!taskArguments.token || !taskArguments.holder || !taskArguments.threshold) {
+      throw new Error("Pass --id, or --token, --holder and --threshold");
+    }
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", taskArguments.token);
+    const threshold = ethers.parseUnits(taskArguments.threshold, await token.decimals());
+    const blockNumber = await verifier.lastProvenBlock(taskArguments.token, taskArguments.holder, threshold);
+    console.log(
+      blockNumber === 0n
+        ? `${taskArguments.holder} has no proof of holding ${taskArguments.threshold} ${await token.symbol()}`
+        : `${taskArguments.holder} held at least ${taskArguments.threshold} ${await token.symbol()} at block ${blockNumber}`,
+    );
+  });
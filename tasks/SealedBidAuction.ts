@@ -0,0 +1,187 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { parseTimestamp } from "./ConfidentialTokens";
+
+// Order of ConfidentialSealedBidAuction.Phase.
+const AUCTION_PHASES = ["Bidding", "Pricing", "AwaitingReveal", "Allocating", "Settled"];
+
+// Publicly decrypts one euint64 handle and returns the clear value with the KMS proof the auction checks.
+async function publicDecryptUint64(fhevm: HardhatRuntimeEnvironment["fhevm"], handle: string) {
+  const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  return { value: clearValues[handle as `0x${string}`] as bigint, decryptionProof };
+}
+
+task("task:auction:create", "Creates a token whose whole supply is sold by a sealed-bid auction")
+  .addOptionalParam("factory", "Optionally specify the factory address")
+  .addParam("name", "Token name")
+  .addParam("symbol", "Token symbol")
+  .addOptionalParam("supply", "Total supply (uint64, base units, default 100000000000)", "100000000000")
+  .addParam("end", "End of bidding (unix seconds or ISO date)")
+  .addOptionalParam("reserve", "Reserve price per 1 token (ETH), default 0", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers } = hre;
+
+    const deployment = taskArguments.factory
+      ? { address: taskArguments.factory }
+      : await deployments.get("ConfidentialTokenFactory");
+    const [signer] = await ethers.getSigners();
+    const factory = await ethers.getContractAt("ConfidentialTokenFactory", deployment.address, signer);
+
+    const supply = BigInt(taskArguments.supply);
+    const endTime = parseTimestamp(taskArguments.end, "end");
+    const reservePricePerTokenWei = ethers.parseEther(taskArguments.reserve);
+    const value = await factory.creationFeeWei();
+
+    const [token, auction] = await factory.createAuction.staticCall(
+      taskArguments.name,
+      taskArguments.symbol,
+      supply,
+      "",
+      endTime,
+      reservePricePerTokenWei,
+      { value },
+    );
+    const tx = await factory.createAuction(
+      taskArguments.name,
+      taskArguments.symbol,
+      supply,
+      "",
+      endTime,
+      reservePricePerTokenWei,
+      { value },
+    );
+    console.log(`Wait for tx:${tx.hash}... token=${token} auction=${auction}`);
+    await tx.wait();
+  });
+
+task("task:auction:bid", "Places a sealed bid; the quantity and maximum price are encrypted")
+  .addParam("auction", "Auction address")
+  .addParam("amount", "Quantity to bid for (uint64, base units)")
+  .addParam("maxPrice", "Maximum price per 1 token (ETH)")
+  .addOptionalParam("deposit", "ETH deposit, default amount * max price (the minimum that keeps the bid valid)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const [signer] = await ethers.getSigners();
+    const auction = await ethers.getContractAt("ConfidentialSealedBidAuction", taskArguments.auction, signer);
+
+    const amount = BigInt(taskArguments.amount);
+    const maxPricePerTokenWei = ethers.parseEther(taskArguments.maxPrice);
+    const tokenBase = await auction.TOKEN_BASE();
+    const depositWei =
+      taskArguments.deposit !== undefined
+        ? ethers.parseEther(taskArguments.deposit)
+        : (amount * maxPricePerTokenWei + tokenBase - 1n) / tokenBase;
+
+    const input = await fhevm
+      .createEncryptedInput(taskArguments.auction, signer.address)
+      .add64(amount)
+      .add64(maxPricePerTokenWei)
+      .encrypt();
+
+    const tx = await auction.bid(input.handles[0], input.handles[1], input.inputProof, { value: depositWei });
+    console.log(`Wait for tx:${tx.hash}... depositWei=${depositWei}`);
+    await tx.wait();
+  });
+
+task("task:auction:settle", "Computes, reveals and allocates the clearing price once bidding has closed")
+  .addParam("auction", "Auction address")
+  .addOptionalParam("batch", "Settlement steps per transaction", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const [signer] = await ethers.getSigners();
+    const auction = await ethers.getContractAt("ConfidentialSealedBidAuction", taskArguments.auction, signer);
+    const batch = BigInt(taskArguments.batch);
+
+    while ((await auction.phase()) <= 1n) {
+      const tx = await auction.computeClearingPrice(batch);
+      console.log(`Wait for tx:${tx.hash}... pricing, ${await auction.stepsRemaining()} steps left before it`);
+      await tx.wait();
+    }
+
+    if ((await auction.phase()) === 2n) {
+      const handle = await auction.clearingPriceHandle();
+      const clearingPrice = await publicDecryptUint64(fhevm, handle);
+      const tx = await auction.revealClearingPrice(clearingPrice.value, clearingPrice.decryptionProof);
+      console.log(`Wait for tx:${tx.hash}... clearing price ${ethers.formatEther(clearingPrice.value)} ETH`);
+      await tx.wait();
+    }
+
+    while ((await auction.phase()) === 3n) {
+      const tx = await auction.allocate(batch);
+      console.log(`Wait for tx:${tx.hash}... allocating`);
+      await tx.wait();
+    }
+    console.log(`Auction phase: ${AUCTION_PHASES[Number(await auction.phase())]}`);
+  });
+
+task("task:auction:claim", "Sends a bidder's filled tokens and credits the unspent deposit in the credit vault")
+  .addParam("auction", "Auction address")
+  .addOptionalParam("bidder", "Bidder address, default: the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const [signer] = await ethers.getSigners();
+    const auction = await ethers.getContractAt("ConfidentialSealedBidAuction", taskArguments.auction, signer);
+    const bidder = (taskArguments.bidder as string | undefined) ?? signer.address;
+
+    if ((await auction.bidOf(bidder)).claimed) {
+      console.log(`Bid of ${bidder} was already claimed`);
+      return;
+    }
+    const tx = await auction.claim(bidder);
+    console.log(`Wait for tx:${tx.hash}... claiming tokens for ${bidder}, see task:credit:balance for the refund`);
+    await tx.wait();
+  });
+
+task("task:auction:withdraw", "Returns the unsold supply to the seller (seller only)")
+  .addParam("auction", "Auction address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const auction = await ethers.getContractAt("ConfidentialSealedBidAuction", taskArguments.auction, signer);
+
+    if (await auction.unsoldWithdrawn()) {
+      console.log("The unsold supply was already returned; release the proceeds with task:credit:release-proceeds");
+      return;
+    }
+    const tx = await auction.withdrawUnsold(signer.address);
+    console.log(`Wait for tx:${tx.hash}... returning the unsold supply`);
+    await tx.wait();
+  });
+
+task("task:auction:my-bid", "Decrypts the signer's bid and fill")
+  .addParam("auction", "Auction address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const [signer] = await ethers.getSigners();
+    const auction = await ethers.getContractAt("ConfidentialSealedBidAuction", taskArguments.auction, signer);
+    const bid = await auction.bidOf(signer.address);
+
+    const quantity = await fhevm.userDecryptEuint(FhevmType.euint64, bid.quantity, taskArguments.auction, signer);
+    const maxPrice = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      bid.maxPricePerTokenWei,
+      taskArguments.auction,
+      signer,
+    );
+    console.log(`Quantity: ${quantity} base units (0 if the deposit did not cover the bid)`);
+    console.log(`Max price: ${ethers.formatEther(maxPrice)} ETH per token`);
+    console.log(`Deposit: ${ethers.formatEther(bid.depositWei)} ETH`);
+    if ((await auction.phase()) === 4n) {
+      const filled = await fhevm.userDecryptEuint(FhevmType.euint64, bid.filled, taskArguments.auction, signer);
+      console.log(
+        `Filled: ${filled} base units at ${ethers.formatEther(await auction.clearingPricePerTokenWei())} ETH`,
+      );
+    }
+  });
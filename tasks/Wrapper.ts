@@ -0,0 +1,149 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+async function getWrapper(hre: HardhatRuntimeEnvironment, wrapperAddress: string) {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const wrapper = await ethers.getContractAt("ConfidentialERC20Wrapper", wrapperAddress, signer);
+  const underlying = await ethers.getContractAt("ERC20", await wrapper.underlying(), signer);
+  return { signer, wrapper, underlying };
+}
+
+// Publicly decrypts the burnt amount of an unwrap request and releases the matching ERC20.
+async function finalizeUnwrap(hre: HardhatRuntimeEnvironment, wrapperAddress: string, handle: string) {
+  const { ethers, fhevm } = hre;
+  const { wrapper, underlying } = await getWrapper(hre, wrapperAddress);
+
+  const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  const burnt = clearValues[handle as `0x${string}`] as bigint;
+  const tx = await wrapper.finalizeUnwrap(handle, burnt, decryptionProof);
+  console.log(`Wait for tx:${tx.hash}...`);
+  await tx.wait();
+
+  const released = burnt * (await wrapper.rate());
+  console.log(`Released ${ethers.formatUnits(released, await underlying.decimals())} ${await underlying.symbol()}`);
+}
+
+task("task:wrapper:create", "Launches the ERC-7984 wrapper of an ERC20 through ConfidentialTokenFactory")
+  .addParam("underlying", "ERC20 address")
+  .addParam("name", "Wrapper name")
+  .addParam("symbol", "Wrapper symbol")
+  .addOptionalParam("uri", "contractURI (metadata JSON or data: URI)", "")
+  .addOptionalParam("factory", "Optionally specify the ConfidentialTokenFactory address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const deployment = taskArguments.factory
+      ? { address: taskArguments.factory }
+      : await deployments.get("ConfidentialTokenFactory");
+    const factory = await ethers.getContractAt("ConfidentialTokenFactory", deployment.address, signer);
+
+    const tx = await factory.createWrapper(
+      taskArguments.underlying,
+      taskArguments.name,
+      taskArguments.symbol,
+      taskArguments.uri,
+      { value: await factory.creationFeeWei() },
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    const created = receipt?.logs
+      .map((log) => {
+        try {
+          return factory.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find((parsed) => parsed?.name === "WrapperCreated");
+    console.log(`Wrapper: ${created?.args.wrapper}`);
+  });
+
+task("task:wrapper:wrap", "Wraps the signer's ERC20 into the confidential wrapper, approving it first if needed")
+  .addParam("wrapper", "Wrapper address")
+  .addParam("amount", "ERC20 amount to wrap, in whole tokens (e.g. 1.5)")
+  .addOptionalParam("to", "Recipient of the wrapped tokens (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { signer, wrapper, underlying } = await getWrapper(hre, taskArguments.wrapper);
+    const amount = ethers.parseUnits(taskArguments.amount, await underlying.decimals());
+
+    if ((await underlying.allowance(signer.address, taskArguments.wrapper)) < amount) {
+      const approveTx = await underlying.approve(taskArguments.wrapper, amount);
+      console.log(`Wait for approval tx:${approveTx.hash}...`);
+      await approveTx.wait();
+    }
+
+    const tx = await wrapper.wrap(taskArguments.to ?? signer.address, amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Any amount below one wrapped base unit (${await wrapper.rate()} ERC20 units) is not taken`);
+  });
+
+task("task:wrapper:unwrap", "Burns an encrypted amount of the signer's wrapped tokens and releases the ERC20")
+  .addParam("wrapper", "Wrapper address")
+  .addParam("amount", "Wrapped amount to unwrap, in whole tokens (e.g. 1.5)")
+  .addOptionalParam("to", "Recipient of the ERC20 (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, wrapper } = await getWrapper(hre, taskArguments.wrapper);
+    const amount = ethers.parseUnits(taskArguments.amount, await wrapper.decimals());
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(taskArguments.wrapper, signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await wrapper["unwrap(address,address,bytes32,bytes)"](
+      signer.address,
+      taskArguments.to ?? signer.address,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    const requested = receipt?.logs
+      .map((log) => {
+        try {
+          return wrapper.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find((parsed) => parsed?.name === "UnwrapRequested");
+    const handle = requested?.args.amount as string;
+    console.log(`Unwrap request: ${handle}`);
+    console.log(`If finalizing fails, retry with task:wrapper:finalize-unwrap --handle ${handle}`);
+
+    await finalizeUnwrap(hre, taskArguments.wrapper, handle);
+  });
+
+task("task:wrapper:finalize-unwrap", "Finalizes a pending unwrap request")
+  .addParam("wrapper", "Wrapper address")
+  .addParam("handle", "Burnt amount handle from the UnwrapRequested event")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    await finalizeUnwrap(hre, taskArguments.wrapper, taskArguments.handle);
+  });
+
+task("task:wrapper:decrypt-balance", "Decrypts the signer's wrapped balance")
+  .addParam("wrapper", "Wrapper address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { signer, wrapper, underlying } = await getWrapper(hre, taskArguments.wrapper);
+    const handle = await wrapper.confidentialBalanceOf(signer.address);
+    const balance =
+      handle === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint64, handle, taskArguments.wrapper, signer);
+    console.log(`Wrapped balance: ${ethers.formatUnits(balance, await wrapper.decimals())} ${await wrapper.symbol()}`);
+    console.log(
+      `${await underlying.symbol()} balance: ${ethers.formatUnits(await underlying.balanceOf(signer.address), await underlying.decimals())}`,
+    );
+  });
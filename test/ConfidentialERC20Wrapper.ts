@@ -0,0 +1,132 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialERC20Wrapper, ERC20Mock } from "../types";
+import { deployTokenFactory } from "./factoryFixture";
+
+const ONE_UNDERLYING = 10n ** 18n;
+// An 18-decimal ERC20 is wrapped into 6 decimals, so one wrapped base unit is worth 10^12 underlying units.
+const RATE = 10n ** 12n;
+
+async function deployFixture() {
+  const [deployer, creator, holder, recipient] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+
+  const { factory } = await deployTokenFactory(deployer);
+
+  const underlying = (await (
+    await ethers.getContractFactory("ERC20Mock", deployer)
+  ).deploy("Public Token", "PUB", 18)) as ERC20Mock;
+  await (await underlying.mint(holder.address, 10n * ONE_UNDERLYING)).wait();
+
+  return { creator, holder, recipient, factory, underlying };
+}
+
+describe("ConfidentialERC20Wrapper", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  it("is launched from the factory and listed apart from sale tokens", async function () {
+    const { creator, factory, underlying } = await deployFixture();
+    const underlyingAddress = await underlying.getAddress();
+
+    const wrapperAddress = await factory
+      .connect(creator)
+      .createWrapper.staticCall(underlyingAddress, "Confidential PUB", "cPUB", "");
+    await expect(factory.connect(creator).createWrapper(underlyingAddress, "Confidential PUB", "cPUB", ""))
+      .to.emit(factory, "WrapperCreated")
+      .withArgs(creator.address, wrapperAddress, underlyingAddress);
+
+    expect(await factory.getAllWrappers()).to.deep.eq([wrapperAddress]);
+    expect(await factory.getWrappersByCreator(creator.address)).to.deep.eq([wrapperAddress]);
+    expect(await factory.isWrapper(wrapperAddress)).to.eq(true);
+    expect(await factory.isToken(wrapperAddress)).to.eq(false);
+    expect(await factory.getAllTokens()).to.deep.eq([]);
+
+    const wrapper = (await ethers.getContractAt(
+      "ConfidentialERC20Wrapper",
+      wrapperAddress,
+    )) as unknown as ConfidentialERC20Wrapper;
+    expect(await wrapper.name()).to.eq("Confidential PUB");
+    expect(await wrapper.symbol()).to.eq("cPUB");
+    expect(await wrapper.underlying()).to.eq(underlyingAddress);
+    expect(await wrapper.creator()).to.eq(creator.address);
+    expect(await wrapper.decimals()).to.eq(6n);
+    expect(await wrapper.rate()).to.eq(RATE);
+  });
+
+  it("wraps ERC20 into an encrypted balance and unwraps it through public decryption", async function () {
+    const { creator, holder, recipient, factory, underlying } = await deployFixture();
+    const underlyingAddress = await underlying.getAddress();
+    await (await factory.connect(creator).createWrapper(underlyingAddress, "Confidential PUB", "cPUB", "")).wait();
+    const [wrapperAddress] = await factory.getAllWrappers();
+    const wrapper = (await ethers.getContractAt(
+      "ConfidentialERC20Wrapper",
+      wrapperAddress,
+    )) as unknown as ConfidentialERC20Wrapper;
+
+    const decryptBalance = async (signer: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await wrapper.confidentialBalanceOf(signer.address),
+        wrapperAddress,
+        signer,
+      );
+    const requestUnwrap = async (amount: bigint) => {
+      const input = await fhevm.createEncryptedInput(wrapperAddress, holder.address).add64(amount).encrypt();
+      const receipt = await (
+        await wrapper
+          .connect(holder)
+          ["unwrap(address,address,bytes32,bytes)"](
+            holder.address,
+            recipient.address,
+            input.handles[0],
+            input.inputProof,
+          )
+      ).wait();
+      const event = receipt!.logs
+        .map((log) => wrapper.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "UnwrapRequested");
+      return event!.args.amount as string;
+    };
+    const finalizeUnwrap = async (handle: string) => {
+      const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+      const cleartext = clearValues[handle as `0x${string}`] as bigint;
+      await (await wrapper.finalizeUnwrap(handle, cleartext, decryptionProof)).wait();
+      return cleartext;
+    };
+
+    // The part below one wrapped base unit stays with the holder
+    const wrapAmount = 3n * ONE_UNDERLYING + RATE - 1n;
+    await (await underlying.connect(holder).approve(wrapperAddress, wrapAmount)).wait();
+    await (await wrapper.connect(holder).wrap(holder.address, wrapAmount)).wait();
+    expect(await underlying.balanceOf(wrapperAddress)).to.eq(3n * ONE_UNDERLYING);
+    expect(await underlying.balanceOf(holder.address)).to.eq(7n * ONE_UNDERLYING);
+    expect(await decryptBalance(holder)).to.eq(3_000_000n);
+    expect(await wrapper.inferredTotalSupply()).to.eq(3_000_000n);
+
+    await expect(
+      wrapper.connect(recipient)["unwrap(address,address,bytes32)"](holder.address, recipient.address, ethers.ZeroHash),
+    ).to.be.revertedWithCustomError(wrapper, "ERC7984UnauthorizedUseOfEncryptedAmount");
+
+    const burnt = await requestUnwrap(1_250_000n);
+    expect(await decryptBalance(holder)).to.eq(1_750_000n);
+    expect(await finalizeUnwrap(burnt)).to.eq(1_250_000n);
+    expect(await underlying.balanceOf(recipient.address)).to.eq(1_250_000n * RATE);
+    await expect(wrapper.finalizeUnwrap(burnt, 1_250_000n, "0x")).to.be.revertedWithCustomError(
+      wrapper,
+      "InvalidUnwrapRequest",
+    );
+
+    // Unwrapping more than the balance burns nothing and releases nothing
+    const nothing = await requestUnwrap(2_000_000n);
+    expect(await finalizeUnwrap(nothing)).to.eq(0n);
+    expect(await decryptBalance(holder)).to.eq(1_750_000n);
+    expect(await underlying.balanceOf(recipient.address)).to.eq(1_250_000n * RATE);
+    expect(await underlying.balanceOf(wrapperAddress)).to.eq(1_750_000n * RATE);
+  });
+});
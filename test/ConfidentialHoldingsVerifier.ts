@@ -0,0 +1,112 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialERC7984Token, ConfidentialHoldingsVerifier } from "../types";
+import { deployTokenFactory } from "./factoryFixture";
+
+const OPEN_SALE = {
+  startTime: 0n,
+  endTime: 0n,
+  publicStartTime: 0n,
+  maxPerWallet: 0n,
+  allowlistRoot: ethers.ZeroHash,
+  softCapWei: 0n,
+  curve: 0, // Flat
+  endPricePerTokenWei: 0n,
+  paymentToken: ethers.ZeroAddress,
+};
+
+async function deployFixture() {
+  const [deployer, creator, holder, other] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+
+  const { factory } = await deployTokenFactory(deployer);
+  await (
+    await factory.connect(creator).createToken("MyToken", "MTK", 10_000_000n, ethers.parseEther("0.001"), "", OPEN_SALE)
+  ).wait();
+  const [tokenAddress] = await factory.getAllTokens();
+  const token = (await ethers.getContractAt(
+    "ConfidentialERC7984Token",
+    tokenAddress,
+  )) as unknown as ConfidentialERC7984Token;
+
+  const verifier = (await (
+    await ethers.getContractFactory("ConfidentialHoldingsVerifier", deployer)
+  ).deploy()) as ConfidentialHoldingsVerifier;
+
+  // The holder owns 3 tokens and lets the verifier move its balance for an hour.
+  await (await token.connect(holder)["buy(uint64)"](3_000_000n, { value: await token.quoteBuy(3_000_000n) })).wait();
+  await (await token.connect(holder).setOperator(await verifier.getAddress(), (await time.latest()) + 3_600)).wait();
+
+  return { holder, other, token, tokenAddress, verifier };
+}
+
+describe("ConfidentialHoldingsVerifier", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  it("attests a threshold the holder meets or misses without changing the balance", async function () {
+    const { holder, token, tokenAddress, verifier } = await deployFixture();
+
+    const prove = async (threshold: bigint) => {
+      const receipt = await (await verifier.connect(holder).requestProof(tokenAddress, threshold)).wait();
+      const event = receipt!.logs
+        .map((log) => verifier.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ProofRequested");
+      const { id, result } = event!.args;
+      const { clearValues, decryptionProof } = await fhevm.publicDecrypt([result]);
+      const held = clearValues[result as `0x${string}`] as boolean;
+      await expect(verifier.revealProof(id, held, decryptionProof))
+        .to.emit(verifier, "ProofRevealed")
+        .withArgs(id, held);
+      return { id: id as string, blockNumber: receipt!.blockNumber, held };
+    };
+
+    const met = await prove(3_000_000n);
+    expect(met.held).to.eq(true);
+    expect(met.id).to.eq(await verifier.proofId(tokenAddress, holder.address, 3_000_000n, met.blockNumber));
+    const proof = await verifier.getProof(met.id);
+    expect(proof.holder).to.eq(holder.address);
+    expect(proof.threshold).to.eq(3_000_000n);
+    expect(proof.revealed).to.eq(true);
+    expect(await verifier.lastProvenBlock(tokenAddress, holder.address, 3_000_000n)).to.eq(met.blockNumber);
+
+    const missed = await prove(3_000_001n);
+    expect(missed.held).to.eq(false);
+    expect(await verifier.lastProvenBlock(tokenAddress, holder.address, 3_000_001n)).to.eq(0n);
+
+    // Neither proof moved anything
+    const balance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(holder.address),
+      tokenAddress,
+      holder,
+    );
+    expect(balance).to.eq(3_000_000n);
+
+    await expect(verifier.revealProof(met.id, true, "0x"))
+      .to.be.revertedWithCustomError(verifier, "AlreadyRevealed")
+      .withArgs(met.id);
+  });
+
+  it("only lets the holder request proofs of their own balance", async function () {
+    const { holder, other, token, tokenAddress, verifier } = await deployFixture();
+
+    await expect(verifier.connect(holder).requestProof(tokenAddress, 0n)).to.be.revertedWithCustomError(
+      verifier,
+      "InvalidThreshold",
+    );
+    // Proofs always use the caller's balance, so another account cannot probe the holder's with thresholds
+    await expect(verifier.connect(other).requestProof(tokenAddress, 1n))
+      .to.be.revertedWithCustomError(token, "ERC7984UnauthorizedSpender")
+      .withArgs(other.address, await verifier.getAddress());
+    await expect(verifier.revealProof(ethers.ZeroHash, true, "0x"))
+      .to.be.revertedWithCustomError(verifier, "UnknownProof")
+      .withArgs(ethers.ZeroHash);
+  });
+});
@@ -0,0 +1,276 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  ConfidentialCreditVault,
+  ConfidentialERC7984Token,
+  ConfidentialSealedBidAuction,
+  ConfidentialTokenFactory,
+} from "../types";
+import { deployTokenFactory } from "./factoryFixture";
+
+const TOKEN_BASE = 1_000_000n;
+
+async function deployFixture() {
+  const [deployer, creator, ...bidders] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+
+  const { factory, creditVault } = await deployTokenFactory(deployer);
+
+  return { deployer, creator, bidders, factory, creditVault };
+}
+
+async function createAuction(
+  factory: ConfidentialTokenFactory,
+  creator: HardhatEthersSigner,
+  supply: bigint,
+  reservePricePerTokenWei: bigint,
+) {
+  const endTime = BigInt(await time.latest()) + 1_000n;
+  const [tokenAddress, auctionAddress] = await factory
+    .connect(creator)
+    .createAuction.staticCall("Auction Token", "AUC", supply, "", endTime, reservePricePerTokenWei);
+  await (
+    await factory.connect(creator).createAuction("Auction Token", "AUC", supply, "", endTime, reservePricePerTokenWei)
+  ).wait();
+
+  const token = (await ethers.getContractAt("ConfidentialERC7984Token", tokenAddress)) as ConfidentialERC7984Token;
+  const auction = (await ethers.getContractAt(
+    "ConfidentialSealedBidAuction",
+    auctionAddress,
+  )) as ConfidentialSealedBidAuction;
+  return { token, auction, auctionAddress, endTime };
+}
+
+async function placeBid(
+  auction: ConfidentialSealedBidAuction,
+  bidder: HardhatEthersSigner,
+  quantity: bigint,
+  maxPricePerTokenWei: bigint,
+  depositWei: bigint,
+) {
+  const input = await fhevm
+    .createEncryptedInput(await auction.getAddress(), bidder.address)
+    .add64(quantity)
+    .add64(maxPricePerTokenWei)
+    .encrypt();
+  await (
+    await auction.connect(bidder).bid(input.handles[0], input.handles[1], input.inputProof, { value: depositWei })
+  ).wait();
+}
+
+// Publicly decrypts one handle and returns the clear value with the KMS proof the contracts check.
+async function publicDecrypt(handle: string) {
+  const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  return { value: clearValues[handle as `0x${string}`] as bigint, decryptionProof };
+}
+
+// Runs every settlement step in small batches, as the per-transaction HCU limit requires on a real network.
+async function settle(auction: ConfidentialSealedBidAuction) {
+  while ((await auction.phase()) <= 1n) {
+    await (await auction.computeClearingPrice(10)).wait();
+  }
+  const clearingPrice = await publicDecrypt(await auction.clearingPriceHandle());
+  await (await auction.revealClearingPrice(clearingPrice.value, clearingPrice.decryptionProof)).wait();
+  while ((await auction.phase()) === 3n) {
+    await (await auction.allocate(10)).wait();
+  }
+}
+
+// Claims every bid, then decrypts the unspent deposits the claims credited to the bidders in the credit vault, in wei.
+async function claimAll(
+  auction: ConfidentialSealedBidAuction,
+  creditVault: ConfidentialCreditVault,
+  bidders: HardhatEthersSigner[],
+) {
+  const credits = [];
+  for (const bidder of bidders) {
+    await (await auction.claim(bidder.address)).wait();
+    const credit = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      await creditVault.creditOf(bidder.address),
+      await creditVault.getAddress(),
+      bidder,
+    );
+    credits.push(credit / TOKEN_BASE);
+  }
+  return credits;
+}
+
+describe("ConfidentialSealedBidAuction", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  it("clears an oversubscribed auction at a uniform price and credits unspent deposits", async function () {
+    const { deployer, creator, bidders, factory, creditVault } = await deployFixture();
+    const [alice, bob, carol, dave] = bidders;
+
+    const supply = 10n * TOKEN_BASE;
+    const { token, auction, auctionAddress, endTime } = await createAuction(
+      factory,
+      creator,
+      supply,
+      ethers.parseEther("0.001"),
+    );
+    expect(await token.distributor()).to.eq(auctionAddress);
+    expect(await token.remainingForSaleClear()).to.eq(0n);
+
+    await placeBid(auction, alice, 6n * TOKEN_BASE, ethers.parseEther("0.005"), ethers.parseEther("0.03"));
+    await placeBid(auction, bob, 5n * TOKEN_BASE, ethers.parseEther("0.004"), ethers.parseEther("0.025"));
+    await placeBid(auction, carol, 4n * TOKEN_BASE, ethers.parseEther("0.003"), ethers.parseEther("0.012"));
+    // Dave's deposit does not cover the bid, so it silently counts as zero
+    await placeBid(auction, dave, 3n * TOKEN_BASE, ethers.parseEther("0.01"), ethers.parseEther("0.01"));
+
+    await expect(auction.computeClearingPrice(10)).to.be.revertedWithCustomError(auction, "BiddingOpen");
+    await expect(
+      placeBid(auction, alice, TOKEN_BASE, ethers.parseEther("0.005"), ethers.parseEther("0.005")),
+    ).to.be.revertedWithCustomError(auction, "AlreadyBid");
+
+    // Bidders can decrypt their own bid, including whether it was zeroed
+    const aliceBid = await auction.bidOf(alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, aliceBid.quantity, auctionAddress, alice)).to.eq(
+      6n * TOKEN_BASE,
+    );
+    const daveBid = await auction.bidOf(dave.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, daveBid.quantity, auctionAddress, dave)).to.eq(0n);
+
+    await time.increaseTo(endTime);
+    await expect(
+      placeBid(auction, bidders[4], TOKEN_BASE, ethers.parseEther("0.005"), ethers.parseEther("0.005")),
+    ).to.be.revertedWithCustomError(auction, "BiddingClosed");
+
+    expect(await auction.stepsRemaining()).to.eq(16n);
+    await settle(auction);
+
+    // At 0.005 only Alice's 6 tokens are demanded; at 0.004 Alice and Bob want 11 of the 10 tokens
+    expect(await auction.clearingPricePerTokenWei()).to.eq(ethers.parseEther("0.004"));
+    expect(await auction.phase()).to.eq(4n); // Settled
+
+    const fills = new Map<string, bigint>();
+    for (const bidder of [alice, bob, carol, dave]) {
+      const { filled } = await auction.bidOf(bidder.address);
+      fills.set(bidder.address, await fhevm.userDecryptEuint(FhevmType.euint64, filled, auctionAddress, bidder));
+    }
+    expect([...fills.values()]).to.deep.eq([6n * TOKEN_BASE, 4n * TOKEN_BASE, 0n, 0n]);
+
+    const tokenAddress = await token.getAddress();
+    await expect(
+      creditVault.connect(alice).settleAuctionBid(tokenAddress, alice.address, ethers.ZeroHash, { value: 1n }),
+    ).to.be.revertedWithCustomError(creditVault, "Unauthorized");
+
+    // Claims move each deposit to the credit vault: the clearing price of the fill becomes the token's proceeds and
+    // the rest the bidder's credit, so no fill is publicly decryptable
+    await expect(auction.claim(alice.address))
+      .to.emit(creditVault, "AuctionBidSettled")
+      .withArgs(tokenAddress, alice.address, ethers.parseEther("0.03"));
+    await expect(fhevm.publicDecrypt([(await auction.bidOf(alice.address)).filled])).to.be.rejected;
+    expect(await claimAll(auction, creditVault, [bob, carol, dave])).to.deep.eq([
+      ethers.parseEther("0.009"),
+      ethers.parseEther("0.012"),
+      ethers.parseEther("0.01"),
+    ]);
+    expect(await ethers.provider.getBalance(auctionAddress)).to.eq(0n);
+    await expect(auction.claim(alice.address)).to.be.revertedWithCustomError(auction, "AlreadyClaimed");
+
+    const bobBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(bob.address),
+      tokenAddress,
+      bob,
+    );
+    expect(bobBalance).to.eq(4n * TOKEN_BASE);
+
+    // The seller releases the proceeds from the vault, less a 2.5% protocol fee, which bidders never pay
+    await (await factory.setFees(0n, 250n, deployer.address)).wait();
+    await (await creditVault.connect(creator).revealProceeds(tokenAddress)).wait();
+    const proceeds = await publicDecrypt(await creditVault.pendingProceedsOf(tokenAddress));
+    expect(proceeds.value).to.eq(ethers.parseEther("0.04") * TOKEN_BASE);
+    const release = creditVault
+      .connect(creator)
+      .releaseProceeds(tokenAddress, creator.address, proceeds.value, proceeds.decryptionProof);
+    await expect(release).to.changeEtherBalances(
+      [creator, deployer],
+      [ethers.parseEther("0.039"), ethers.parseEther("0.001")],
+    );
+  });
+
+  it("clears an undersubscribed auction at the reserve price and returns the unsold supply", async function () {
+    const { creator, bidders, factory, creditVault } = await deployFixture();
+    const [alice, bob] = bidders;
+
+    const reservePrice = ethers.parseEther("0.002");
+    const { token, auction, endTime } = await createAuction(factory, creator, 10n * TOKEN_BASE, reservePrice);
+
+    await expect(
+      token.connect(alice)["buy(uint64)"](TOKEN_BASE, { value: reservePrice }),
+    ).to.be.revertedWithCustomError(token, "SoldOut");
+    await expect(auction.initialize(await token.getAddress())).to.be.revertedWithCustomError(auction, "Unauthorized");
+
+    await placeBid(auction, alice, 3n * TOKEN_BASE, ethers.parseEther("0.005"), ethers.parseEther("0.015"));
+    // Below the reserve price, so it counts as zero
+    await placeBid(auction, bob, 2n * TOKEN_BASE, ethers.parseEther("0.001"), ethers.parseEther("0.002"));
+
+    await time.increaseTo(endTime);
+    await expect(auction.claim(alice.address)).to.be.revertedWithCustomError(auction, "WrongPhase");
+    await settle(auction);
+    expect(await auction.clearingPricePerTokenWei()).to.eq(reservePrice);
+
+    expect(await claimAll(auction, creditVault, [alice, bob])).to.deep.eq([
+      ethers.parseEther("0.009"),
+      ethers.parseEther("0.002"),
+    ]);
+
+    await (await auction.connect(creator).withdrawUnsold(creator.address)).wait();
+    await expect(auction.connect(creator).withdrawUnsold(creator.address)).to.be.revertedWithCustomError(
+      auction,
+      "UnsoldAlreadyWithdrawn",
+    );
+    const creatorBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(creator.address),
+      await token.getAddress(),
+      creator,
+    );
+    expect(creatorBalance).to.eq(7n * TOKEN_BASE);
+  });
+
+  it("caps bids at the supply so large quantities cannot overflow the demand", async function () {
+    const { creator, bidders, factory, creditVault } = await deployFixture();
+    const [alice, bob, carol] = bidders;
+    const maxQuantity = 2n ** 64n - 1n;
+
+    const { auction, auctionAddress, endTime } = await createAuction(factory, creator, 10n * TOKEN_BASE, 0n);
+
+    // Both huge bids count as bids for the 10 tokens of supply, so the deposits only have to cover those
+    await placeBid(auction, alice, maxQuantity, ethers.parseEther("0.004"), ethers.parseEther("0.04"));
+    await placeBid(auction, bob, 4n * TOKEN_BASE, ethers.parseEther("0.005"), ethers.parseEther("0.02"));
+    await placeBid(auction, carol, maxQuantity, ethers.parseEther("0.003"), ethers.parseEther("0.03"));
+    const aliceBid = await auction.bidOf(alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, aliceBid.quantity, auctionAddress, alice)).to.eq(
+      10n * TOKEN_BASE,
+    );
+
+    await time.increaseTo(endTime);
+    await settle(auction);
+
+    // Summed in 64 bits, the demand at 0.004 and at 0.003 would wrap below the supply
+    expect(await auction.clearingPricePerTokenWei()).to.eq(ethers.parseEther("0.004"));
+    const fills = [];
+    for (const bidder of [alice, bob, carol]) {
+      const { filled } = await auction.bidOf(bidder.address);
+      fills.push(await fhevm.userDecryptEuint(FhevmType.euint64, filled, auctionAddress, bidder));
+    }
+    expect(fills).to.deep.eq([6n * TOKEN_BASE, 4n * TOKEN_BASE, 0n]);
+
+    expect(await claimAll(auction, creditVault, [alice, bob, carol])).to.deep.eq([
+      ethers.parseEther("0.016"),
+      ethers.parseEther("0.004"),
+      ethers.parseEther("0.03"),
+    ]);
+  });
+});
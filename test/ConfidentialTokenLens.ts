@@ -0,0 +1,119 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialTokenLens } from "../types";
+import { deployTokenFactory } from "./factoryFixture";
+
+const OPEN_SALE = {
+  startTime: 0n,
+  endTime: 0n,
+  publicStartTime: 0n,
+  maxPerWallet: 0n,
+  allowlistRoot: ethers.ZeroHash,
+  softCapWei: 0n,
+  curve: 0, // Flat
+  endPricePerTokenWei: 0n,
+  paymentToken: ethers.ZeroAddress,
+};
+
+async function deployFixture() {
+  const [deployer, creator, buyer] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+
+  const { factory } = await deployTokenFactory(deployer);
+  const lens = (await (
+    await ethers.getContractFactory("ConfidentialTokenLens", deployer)
+  ).deploy()) as ConfidentialTokenLens;
+
+  const pricePerTokenWei = ethers.parseEther("0.001");
+  const tokens: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    const supply = BigInt(i + 1) * 1_000_000n;
+    const tokenAddress = await factory
+      .connect(creator)
+      .createToken.staticCall(`Token ${i}`, `TK${i}`, supply, pricePerTokenWei, "", OPEN_SALE);
+    await (
+      await factory.connect(creator).createToken(`Token ${i}`, `TK${i}`, supply, pricePerTokenWei, "", OPEN_SALE)
+    ).wait();
+    tokens.push(tokenAddress);
+  }
+
+  return { signers: { deployer, creator, buyer }, factory, lens, tokens, pricePerTokenWei };
+}
+
+describe("ConfidentialTokenLens", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  it("returns a page of token views in one call", async function () {
+    const { signers, factory, lens, tokens, pricePerTokenWei } = await deployFixture();
+
+    const [total, page] = await lens.getTokensPage(await factory.getAddress(), 1, 10, signers.buyer.address);
+    expect(total).to.eq(3n);
+    expect(page.length).to.eq(2);
+
+    expect(page[0].token).to.eq(tokens[1]);
+    expect(page[0].name).to.eq("Token 1");
+    expect(page[0].symbol).to.eq("TK1");
+    expect(page[0].owner).to.eq(signers.creator.address);
+    expect(page[0].totalSupplyClear).to.eq(2_000_000n);
+    expect(page[0].remainingForSaleClear).to.eq(2_000_000n);
+    expect(page[0].pricePerTokenWei).to.eq(pricePerTokenWei);
+    expect(page[0].encryptedBalance).to.eq(ethers.ZeroHash);
+    expect(page[0].contractURI).to.eq("");
+    expect(page[0].salePhase).to.eq(2n); // Public
+    expect(page[0].remainingAllowance).to.eq(2_000_000n);
+    expect(page[0].distributor).to.eq(ethers.ZeroAddress);
+
+    const [, outOfRange] = await lens.getTokensPage(await factory.getAddress(), 3, 10, signers.buyer.address);
+    expect(outOfRange.length).to.eq(0);
+  });
+
+  it("pages the factory's token lists", async function () {
+    const { signers, factory, tokens } = await deployFixture();
+
+    const [total, page] = await factory.getTokens(1, 1);
+    expect(total).to.eq(3n);
+    expect(page).to.deep.eq([tokens[1]]);
+    expect((await factory.getTokens(2, 10))[1]).to.deep.eq([tokens[2]]);
+    expect((await factory.getTokens(3, 10))[1]).to.deep.eq([]);
+    expect((await factory.getTokens(0, ethers.MaxUint256))[1]).to.deep.eq(tokens);
+    expect(await factory.isToken(tokens[0])).to.eq(true);
+    expect(await factory.isToken(signers.creator.address)).to.eq(false);
+
+    const [createdTotal, created] = await factory["getTokensByCreator(address,uint256,uint256)"](
+      signers.creator.address,
+      0,
+      2,
+    );
+    expect(createdTotal).to.eq(3n);
+    expect(created).to.deep.eq(tokens.slice(0, 2));
+    const [noneTotal, none] = await factory["getTokensByCreator(address,uint256,uint256)"](signers.buyer.address, 0, 2);
+    expect(noneTotal).to.eq(0n);
+    expect(none).to.deep.eq([]);
+  });
+
+  it("returns the caller's balance handle", async function () {
+    const { signers, lens, tokens } = await deployFixture();
+
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", tokens[2], signers.buyer);
+    const buyAmount = 500_000n;
+    await (await token["buy(uint64)"](buyAmount, { value: await token.quoteBuy(buyAmount) })).wait();
+
+    const [info] = await lens.getTokenInfos([tokens[2]], signers.buyer.address);
+    expect(info.remainingForSaleClear).to.eq(3_000_000n - buyAmount);
+    expect(info.encryptedBalance).to.eq(await token.confidentialBalanceOf(signers.buyer.address));
+
+    const clearBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      info.encryptedBalance,
+      tokens[2],
+      signers.buyer,
+    );
+    expect(clearBalance).to.eq(buyAmount);
+  });
+});
@@ -1,23 +1,38 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
-import { ConfidentialERC7984Token, ConfidentialTokenFactory } from "../types";
+import { ConfidentialERC7984Token, ConfidentialTokenFactory, ConfidentialUSDT } from "../types";
+import { buildAllowlist } from "../tasks/Allowlist";
+import { deployTokenFactory } from "./factoryFixture";
+
+const OPEN_SALE = {
+  startTime: 0n,
+  endTime: 0n,
+  publicStartTime: 0n,
+  maxPerWallet: 0n,
+  allowlistRoot: ethers.ZeroHash,
+  softCapWei: 0n,
+  curve: 0, // Flat
+  endPricePerTokenWei: 0n,
+  paymentToken: ethers.ZeroAddress,
+};
 
 type Signers = {
   deployer: HardhatEthersSigner;
   creator: HardhatEthersSigner;
   buyer: HardhatEthersSigner;
+  recipient: HardhatEthersSigner;
 };
 
 async function deployFixture() {
-  const [deployer, creator, buyer] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+  const [deployer, creator, buyer, recipient] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+  const signers: Signers = { deployer, creator, buyer, recipient };
 
-  const factoryFactory = await ethers.getContractFactory("ConfidentialTokenFactory", deployer);
-  const factory = (await factoryFactory.deploy()) as ConfidentialTokenFactory;
-  const factoryAddress = await factory.getAddress();
+  const { factory, factoryAddress, creditVault } = await deployTokenFactory(deployer);
 
-  return { signers: { deployer, creator, buyer }, factory, factoryAddress };
+  return { signers, factory, factoryAddress, creditVault };
 }
 
 describe("Confidential tokens (ERC7984)", function () {
@@ -36,9 +51,11 @@ describe("Confidential tokens (ERC7984)", function () {
 
     const tokenAddress = await factory
       .connect(signers.creator)
-      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei);
+      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
 
-    const tx = await factory.connect(signers.creator).createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei);
+    const tx = await factory
+      .connect(signers.creator)
+      .createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
     await tx.wait();
 
     const token = (await ethers.getContractAt(
@@ -56,7 +73,7 @@ describe("Confidential tokens (ERC7984)", function () {
     const requiredWei = await token.quoteBuy(buyAmount);
     expect(requiredWei).to.eq(ethers.parseEther("0.002"));
 
-    const buyTx = await token.connect(signers.buyer).buy(buyAmount, { value: requiredWei });
+    const buyTx = await token.connect(signers.buyer)["buy(uint64)"](buyAmount, { value: requiredWei });
     await buyTx.wait();
 
     expect(await token.remainingForSaleClear()).to.eq(totalSupplyClear - buyAmount);
@@ -90,8 +107,12 @@ describe("Confidential tokens (ERC7984)", function () {
 
     const tokenAddress = await factory
       .connect(signers.creator)
-      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei);
-    await (await factory.connect(signers.creator).createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei)).wait();
+      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
+    await (
+      await factory
+        .connect(signers.creator)
+        .createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE)
+    ).wait();
 
     const token = (await ethers.getContractAt(
       "ConfidentialERC7984Token",
@@ -100,6 +121,1023 @@ describe("Confidential tokens (ERC7984)", function () {
     )) as ConfidentialERC7984Token;
 
     const tooMuch = totalSupplyClear + 1n;
-    await expect(token.connect(signers.buyer).buy(tooMuch, { value: ethers.parseEther("1") })).to.be.reverted;
+    await expect(token.connect(signers.buyer)["buy(uint64)"](tooMuch, { value: ethers.parseEther("1") })).to.be
+      .reverted;
+  });
+
+  it("sends an encrypted amount to another holder", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const totalSupplyClear = 10_000_000n;
+    const pricePerTokenWei = ethers.parseEther("0.001");
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
+    await (
+      await factory
+        .connect(signers.creator)
+        .createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE)
+    ).wait();
+
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.buyer,
+    )) as ConfidentialERC7984Token;
+
+    const buyAmount = 3_000_000n;
+    await (
+      await token.connect(signers.buyer)["buy(uint64)"](buyAmount, { value: await token.quoteBuy(buyAmount) })
+    ).wait();
+
+    const sendAmount = 1_250_000n;
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(tokenAddress, signers.buyer.address)
+      .add64(sendAmount)
+      .encrypt();
+
+    const transferTx = await token
+      .connect(signers.buyer)
+      ["confidentialTransfer(address,bytes32,bytes)"](
+        signers.recipient.address,
+        encryptedAmount.handles[0],
+        encryptedAmount.inputProof,
+      );
+    await transferTx.wait();
+
+    const buyerBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(signers.buyer.address),
+      tokenAddress,
+      signers.buyer,
+    );
+    expect(buyerBalance).to.eq(buyAmount - sendAmount);
+
+    const recipientBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(signers.recipient.address),
+      tokenAddress,
+      signers.recipient,
+    );
+    expect(recipientBalance).to.eq(sendAmount);
+  });
+
+  it("lets a holder grant a viewer access to current and future balances", async function () {
+    const { signers, factory } = await deployFixture();
+    const { creator, buyer, recipient: auditor } = signers;
+
+    const tokenAddress = await factory
+      .connect(creator)
+      .createToken.staticCall("MyToken", "MTK", 10_000_000n, ethers.parseEther("0.001"), "", OPEN_SALE);
+    await (
+      await factory
+        .connect(creator)
+        .createToken("MyToken", "MTK", 10_000_000n, ethers.parseEther("0.001"), "", OPEN_SALE)
+    ).wait();
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      buyer,
+    )) as ConfidentialERC7984Token;
+
+    const buy = async (amount: bigint) =>
+      (await token.connect(buyer)["buy(uint64)"](amount, { value: await token.quoteBuy(amount) })).wait();
+    const auditorDecrypt = async (handle: string) => {
+      try {
+        return await fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, auditor);
+      } catch {
+        return null;
+      }
+    };
+
+    await buy(2_000_000n);
+    const firstBalance = await token.confidentialBalanceOf(buyer.address);
+    expect(await auditorDecrypt(firstBalance)).to.eq(null);
+
+    await expect(token.connect(auditor).setObserver(buyer.address, auditor.address)).to.be.revertedWithCustomError(
+      token,
+      "Unauthorized",
+    );
+    await expect(token.connect(buyer).setObserver(buyer.address, auditor.address))
+      .to.emit(token, "ERC7984ObserverAccessObserverSet")
+      .withArgs(buyer.address, ethers.ZeroAddress, auditor.address);
+    expect(await token.observer(buyer.address)).to.eq(auditor.address);
+
+    // The grant covers the balance held at the time and every balance after it
+    expect(await auditorDecrypt(firstBalance)).to.eq(2_000_000n);
+    await buy(1_000_000n);
+    const secondBalance = await token.confidentialBalanceOf(buyer.address);
+    expect(await auditorDecrypt(secondBalance)).to.eq(3_000_000n);
+
+    // Revoking stops access to later balances; handles already shared stay decryptable
+    await (await token.connect(buyer).setObserver(buyer.address, ethers.ZeroAddress)).wait();
+    await buy(500_000n);
+    expect(await auditorDecrypt(await token.confidentialBalanceOf(buyer.address))).to.eq(null);
+    expect(await auditorDecrypt(secondBalance)).to.eq(3_000_000n);
+  });
+
+  it("restricts price updates and withdrawals to the owner", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const totalSupplyClear = 10_000_000n;
+    const pricePerTokenWei = ethers.parseEther("0.001");
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
+    await (
+      await factory
+        .connect(signers.creator)
+        .createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE)
+    ).wait();
+
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.creator,
+    )) as ConfidentialERC7984Token;
+
+    const newPriceWei = ethers.parseEther("0.002");
+    await expect(token.connect(signers.buyer).setPricePerTokenWei(newPriceWei))
+      .to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount")
+      .withArgs(signers.buyer.address);
+    await expect(token.setPricePerTokenWei(newPriceWei))
+      .to.emit(token, "PriceUpdated")
+      .withArgs(pricePerTokenWei, newPriceWei);
+    expect(await token.quoteBuy(1_000_000n)).to.eq(newPriceWei);
+
+    await (await token.connect(signers.buyer)["buy(uint64)"](1_000_000n, { value: newPriceWei })).wait();
+
+    await expect(
+      token.connect(signers.buyer).withdraw(signers.buyer.address, newPriceWei),
+    ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+    await expect(token.withdraw(ethers.ZeroAddress, newPriceWei)).to.be.revertedWithCustomError(
+      token,
+      "InvalidWithdraw",
+    );
+    await expect(token.withdraw(signers.recipient.address, newPriceWei + 1n)).to.be.revertedWithCustomError(
+      token,
+      "InvalidWithdraw",
+    );
+
+    await expect(token.withdraw(signers.recipient.address, newPriceWei))
+      .to.emit(token, "Withdrawn")
+      .withArgs(signers.recipient.address, newPriceWei);
+    expect(await ethers.provider.getBalance(tokenAddress)).to.eq(0n);
+  });
+
+  it("protects buyers against price increases and stale transactions", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const totalSupplyClear = 10_000_000n;
+    const pricePerTokenWei = ethers.parseEther("0.001");
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
+    await (
+      await factory
+        .connect(signers.creator)
+        .createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE)
+    ).wait();
+
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.buyer,
+    )) as ConfidentialERC7984Token;
+
+    const buyAmount = 1_000_000n;
+    const quotedWei = await token.quoteBuy(buyAmount);
+    const maxWei = (quotedWei * 101n) / 100n;
+    const deadline = BigInt((await time.latest()) + 600);
+
+    // The owner front-runs the buyer with a price increase beyond the buyer's 1% tolerance
+    await (await token.connect(signers.creator).setPricePerTokenWei(ethers.parseEther("0.002"))).wait();
+    await expect(token["buy(uint64,uint256,uint256)"](buyAmount, maxWei, deadline, { value: maxWei }))
+      .to.be.revertedWithCustomError(token, "PriceAboveLimit")
+      .withArgs(ethers.parseEther("0.002"), maxWei);
+
+    await (await token.connect(signers.creator).setPricePerTokenWei(pricePerTokenWei)).wait();
+
+    await time.increaseTo(deadline + 1n);
+    await expect(token["buy(uint64,uint256,uint256)"](buyAmount, maxWei, deadline, { value: maxWei }))
+      .to.be.revertedWithCustomError(token, "DeadlineExpired")
+      .withArgs(deadline);
+
+    // Within limits only the quote is charged and the slippage allowance is refunded
+    const freshDeadline = BigInt((await time.latest()) + 600);
+    await expect(
+      token["buy(uint64,uint256,uint256)"](buyAmount, maxWei, freshDeadline, { value: maxWei }),
+    ).to.changeEtherBalances([signers.buyer, token], [-quotedWei, quotedWei]);
+    expect(await token.remainingForSaleClear()).to.eq(totalSupplyClear - buyAmount);
+  });
+
+  it("adds the protocol purchase fee to quotes and forwards it to the fee recipient", async function () {
+    const { signers, factory, factoryAddress } = await deployFixture();
+
+    const totalSupplyClear = 10_000_000n;
+    const pricePerTokenWei = ethers.parseEther("0.001");
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE);
+    await (
+      await factory
+        .connect(signers.creator)
+        .createToken("MyToken", "MTK", totalSupplyClear, pricePerTokenWei, "", OPEN_SALE)
+    ).wait();
+
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.buyer,
+    )) as ConfidentialERC7984Token;
+    expect(await token.factory()).to.eq(factoryAddress);
+
+    // 2.5% on top of the sale price, set after the token was launched
+    await (await factory.setFees(0n, 250n, signers.recipient.address)).wait();
+
+    const buyAmount = 2_000_000n;
+    const costWei = ethers.parseEther("0.002");
+    const feeWei = ethers.parseEther("0.00005");
+    const [quotedCost, quotedFee] = await token.quoteBuyWithFee(buyAmount);
+    expect(quotedCost).to.eq(costWei);
+    expect(quotedFee).to.eq(feeWei);
+    expect(await token.quoteBuy(buyAmount)).to.eq(costWei + feeWei);
+
+    await expect(token["buy(uint64)"](buyAmount, { value: costWei }))
+      .to.be.revertedWithCustomError(token, "InsufficientPayment")
+      .withArgs(costWei + feeWei, costWei);
+
+    // Only the price and the fee are charged; the rest of the payment is refunded
+    const buyTx = token["buy(uint64)"](buyAmount, { value: ethers.parseEther("0.01") });
+    await expect(buyTx).to.changeEtherBalances(
+      [signers.buyer, token, signers.recipient],
+      [-(costWei + feeWei), costWei, feeWei],
+    );
+    await expect(buyTx).to.emit(factory, "PurchaseFeePaid").withArgs(tokenAddress, signers.recipient.address, feeWei);
+    await expect(buyTx)
+      .to.emit(token, "TokenPurchased")
+      .withArgs(signers.buyer.address, buyAmount, costWei, ethers.parseEther("0.01"), pricePerTokenWei);
+    expect(await ethers.provider.getBalance(factoryAddress)).to.eq(0n);
+
+    // Only tokens launched by the factory can report a purchase fee
+    await expect(factory.connect(signers.buyer).payPurchaseFee({ value: feeWei }))
+      .to.be.revertedWithCustomError(factory, "NotFactoryToken")
+      .withArgs(signers.buyer.address);
+    await expect(token.forwardPurchaseFee({ value: feeWei })).to.be.revertedWithCustomError(token, "Unauthorized");
+  });
+
+  it("restricts protocol fees to the factory owner and collects creation fees", async function () {
+    const { signers, factory, factoryAddress } = await deployFixture();
+
+    const creationFeeWei = ethers.parseEther("0.01");
+    await expect(factory.connect(signers.creator).setFees(creationFeeWei, 100n, signers.creator.address))
+      .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount")
+      .withArgs(signers.creator.address);
+    await expect(factory.setFees(creationFeeWei, 501n, signers.recipient.address))
+      .to.be.revertedWithCustomError(factory, "PurchaseFeeTooHigh")
+      .withArgs(501n, 500n);
+    await expect(factory.setFees(creationFeeWei, 100n, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      factory,
+      "InvalidFeeRecipient",
+    );
+    await expect(factory.setFees(creationFeeWei, 500n, signers.recipient.address))
+      .to.emit(factory, "FeesUpdated")
+      .withArgs(creationFeeWei, 500n, signers.recipient.address);
+
+    const pricePerTokenWei = ethers.parseEther("0.001");
+    const createToken = (value: bigint) =>
+      factory
+        .connect(signers.creator)
+        .createToken("MyToken", "MTK", 1_000_000n, pricePerTokenWei, "", OPEN_SALE, { value });
+    await expect(createToken(0n))
+      .to.be.revertedWithCustomError(factory, "IncorrectCreationFee")
+      .withArgs(creationFeeWei, 0n);
+    await expect(createToken(creationFeeWei + 1n))
+      .to.be.revertedWithCustomError(factory, "IncorrectCreationFee")
+      .withArgs(creationFeeWei, creationFeeWei + 1n);
+    await expect(createToken(creationFeeWei)).to.changeEtherBalances(
+      [signers.creator, factory],
+      [-creationFeeWei, creationFeeWei],
+    );
+
+    // Anyone can send the collected fees on, but only to the fee recipient
+    const collectTx = factory.connect(signers.buyer).collectFees();
+    await expect(collectTx).to.changeEtherBalances([factory, signers.recipient], [-creationFeeWei, creationFeeWei]);
+    await expect(collectTx).to.emit(factory, "FeesCollected").withArgs(signers.recipient.address, creationFeeWei);
+    expect(await ethers.provider.getBalance(factoryAddress)).to.eq(0n);
+  });
+
+  it("stores metadata as contractURI and lets only the owner update it", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const metadata = { name: "MyToken", description: "A confidential token", external_link: "https://example.com" };
+    const contractURI = `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString("base64")}`;
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", 10_000_000n, 0n, contractURI, OPEN_SALE);
+    await (
+      await factory.connect(signers.creator).createToken("MyToken", "MTK", 10_000_000n, 0n, contractURI, OPEN_SALE)
+    ).wait();
+
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.creator,
+    )) as ConfidentialERC7984Token;
+    expect(await token.contractURI()).to.eq(contractURI);
+
+    await expect(token.connect(signers.buyer).setContractURI("ipfs://other"))
+      .to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount")
+      .withArgs(signers.buyer.address);
+
+    await expect(token.setContractURI("ipfs://updated")).to.emit(token, "ContractURIUpdated");
+    expect(await token.contractURI()).to.eq("ipfs://updated");
+
+    const maxLength = await token.MAX_CONTRACT_URI_LENGTH();
+    await expect(token.setContractURI("x".repeat(Number(maxLength) + 1)))
+      .to.be.revertedWithCustomError(token, "ContractURITooLong")
+      .withArgs(maxLength + 1n, maxLength);
+    await expect(
+      factory.createToken("MyToken", "MTK", 10_000_000n, 0n, "x".repeat(Number(maxLength) + 1), OPEN_SALE),
+    ).to.be.revertedWithCustomError(token, "ContractURITooLong");
+  });
+
+  it("enforces the sale window, allowlist phase and per-wallet cap", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const now = BigInt(await time.latest());
+    const allowlist = buildAllowlist([signers.buyer.address, signers.deployer.address, signers.creator.address]);
+    const saleConfig = {
+      startTime: now + 100n,
+      endTime: now + 1_000n,
+      publicStartTime: now + 500n,
+      maxPerWallet: 2_000_000n,
+      allowlistRoot: allowlist.root,
+      softCapWei: 0n,
+      curve: 0,
+      endPricePerTokenWei: 0n,
+      paymentToken: ethers.ZeroAddress,
+    };
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", 10_000_000n, 0n, "", saleConfig);
+    await (
+      await factory.connect(signers.creator).createToken("MyToken", "MTK", 10_000_000n, 0n, "", saleConfig)
+    ).wait();
+
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.buyer,
+    )) as ConfidentialERC7984Token;
+    const buyerProof = allowlist.proofs[signers.buyer.address];
+    const farDeadline = now + 10_000n;
+
+    expect(await token.salePhase()).to.eq(0n); // NotStarted
+    await expect(token["buy(uint64)"](1_000_000n))
+      .to.be.revertedWithCustomError(token, "SaleNotStarted")
+      .withArgs(saleConfig.startTime);
+
+    await time.increaseTo(saleConfig.startTime);
+    expect(await token.salePhase()).to.eq(1n); // Allowlist
+    const outsider = token.connect(signers.recipient);
+    await expect(outsider["buy(uint64)"](1_000_000n))
+      .to.be.revertedWithCustomError(token, "NotAllowlisted")
+      .withArgs(signers.recipient.address);
+    await expect(
+      outsider["buy(uint64,uint256,uint256,bytes32[])"](1_000_000n, 0n, farDeadline, buyerProof),
+    ).to.be.revertedWithCustomError(token, "NotAllowlisted");
+    expect(await token.isAllowlisted(signers.buyer.address, buyerProof)).to.eq(true);
+
+    await (await token["buy(uint64,uint256,uint256,bytes32[])"](1_500_000n, 0n, farDeadline, buyerProof)).wait();
+    expect(await token.purchasedClear(signers.buyer.address)).to.eq(1_500_000n);
+    expect(await token.remainingAllowance(signers.buyer.address)).to.eq(500_000n);
+    await expect(token["buy(uint64,uint256,uint256,bytes32[])"](600_000n, 0n, farDeadline, buyerProof))
+      .to.be.revertedWithCustomError(token, "WalletCapExceeded")
+      .withArgs(600_000n, 500_000n);
+
+    await time.increaseTo(saleConfig.publicStartTime);
+    expect(await token.salePhase()).to.eq(2n); // Public
+    await (await outsider["buy(uint64)"](2_000_000n)).wait();
+    expect(await token.remainingAllowance(signers.recipient.address)).to.eq(0n);
+
+    await time.increaseTo(saleConfig.endTime);
+    expect(await token.salePhase()).to.eq(3n); // Ended
+    await expect(token["buy(uint64)"](500_000n))
+      .to.be.revertedWithCustomError(token, "SaleEnded")
+      .withArgs(saleConfig.endTime);
+  });
+
+  it("rejects inconsistent sale configs", async function () {
+    const { factory } = await deployFixture();
+    const token = await ethers.getContractAt("ConfidentialERC7984Token", ethers.ZeroAddress);
+
+    const now = BigInt(await time.latest());
+    const invalidConfigs = [
+      { ...OPEN_SALE, startTime: now + 100n, endTime: now + 100n },
+      { ...OPEN_SALE, publicStartTime: now + 100n },
+      { ...OPEN_SALE, startTime: now + 100n, publicStartTime: now + 100n, allowlistRoot: ethers.id("root") },
+      { ...OPEN_SALE, endTime: now + 100n, publicStartTime: now + 200n, allowlistRoot: ethers.id("root") },
+      { ...OPEN_SALE, softCapWei: ethers.parseEther("1") },
+      { ...OPEN_SALE, endPricePerTokenWei: 1n },
+    ];
+    for (const saleConfig of invalidConfigs) {
+      await expect(
+        factory.createToken("MyToken", "MTK", 10_000_000n, 0n, "", saleConfig),
+      ).to.be.revertedWithCustomError(token, "InvalidSaleConfig");
+    }
+  });
+
+  it("prices purchases along a linear bonding curve with conservative rounding", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const supply = 10_000_000n;
+    const startPrice = ethers.parseEther("0.001");
+    const endPrice = ethers.parseEther("0.003");
+    const saleConfig = { ...OPEN_SALE, curve: 1, endPricePerTokenWei: endPrice }; // Linear
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", supply, startPrice, "", saleConfig);
+    await (
+      await factory.connect(signers.creator).createToken("MyToken", "MTK", supply, startPrice, "", saleConfig)
+    ).wait();
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.buyer,
+    )) as ConfidentialERC7984Token;
+
+    // The end price must not be below the start price
+    await expect(
+      factory.createToken("MyToken", "MTK", supply, endPrice + 1n, "", saleConfig),
+    ).to.be.revertedWithCustomError(token, "InvalidSaleConfig");
+
+    // Exact cost of `amount` base units after `sold`, as a rounded-up integer
+    const exactCost = (sold: bigint, amount: bigint) => {
+      const numerator = startPrice * amount * 2n * supply + (endPrice - startPrice) * amount * (2n * sold + amount);
+      const denominator = 2n * supply * 1_000_000n;
+      return (numerator + denominator - 1n) / denominator;
+    };
+
+    expect(await token.currentPricePerTokenWei()).to.eq(startPrice);
+    // Selling the whole supply costs the average of the start and end price
+    expect(await token.quoteBuy(supply)).to.eq(ethers.parseEther("0.02"));
+
+    for (const amount of [1n, 7n, 333_333n, 1_000_000n, 4_999_999n]) {
+      const quote = await token.quoteBuy(amount);
+      expect(quote).to.be.gte(exactCost(0n, amount));
+      expect(quote - exactCost(0n, amount)).to.be.lte(1n);
+    }
+
+    const firstAmount = 3_333_333n;
+    const firstQuote = await token.quoteBuy(firstAmount);
+    await expect(token["buy(uint64)"](firstAmount, { value: firstQuote }))
+      .to.emit(token, "TokenPurchased")
+      .withArgs(signers.buyer.address, firstAmount, firstQuote, firstQuote, (firstQuote * 1_000_000n) / firstAmount);
+    expect(await token.currentPricePerTokenWei()).to.eq(startPrice + ((endPrice - startPrice) * firstAmount) / supply);
+
+    // Splitting the rest of a purchase into smaller buys never costs less than buying it in one go
+    const secondAmount = 1_234_567n;
+    const secondQuote = await token.quoteBuy(secondAmount);
+    expect(secondQuote).to.be.gte(exactCost(firstAmount, secondAmount));
+    expect(firstQuote + secondQuote).to.be.gte(exactCost(0n, firstAmount + secondAmount));
+
+    await expect(token.connect(signers.creator).setPricePerTokenWei(1n)).to.be.revertedWithCustomError(
+      token,
+      "PriceSetByCurve",
+    );
+  });
+
+  it("runs a Dutch auction whose price decays over the sale window", async function () {
+    const { signers, factory } = await deployFixture();
+
+    const supply = 10_000_000n;
+    const startPrice = ethers.parseEther("0.01");
+    const floorPrice = ethers.parseEther("0.002");
+    const startTime = BigInt(await time.latest()) + 100n;
+    const endTime = startTime + 1_000n;
+    const saleConfig = { ...OPEN_SALE, startTime, endTime, curve: 2, endPricePerTokenWei: floorPrice }; // Dutch
+
+    const tokenAddress = await factory
+      .connect(signers.creator)
+      .createToken.staticCall("MyToken", "MTK", supply, startPrice, "", saleConfig);
+    await (
+      await factory.connect(signers.creator).createToken("MyToken", "MTK", supply, startPrice, "", saleConfig)
+    ).wait();
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      signers.buyer,
+    )) as ConfidentialERC7984Token;
+
+    // The floor must not exceed the start price, and the auction needs both ends of its window
+    for (const invalid of [
+      { ...saleConfig, endPricePerTokenWei: startPrice + 1n },
+      { ...saleConfig, startTime: 0n },
+      { ...saleConfig, endTime: 0n },
+    ]) {
+      await expect(
+        factory.createToken("MyToken", "MTK", supply, startPrice, "", invalid),
+      ).to.be.revertedWithCustomError(token, "InvalidSaleConfig");
+    }
+
+    const priceAt = (timestamp: bigint) =>
+      startPrice - ((startPrice - floorPrice) * (timestamp - startTime)) / (endTime - startTime);
+
+    expect(await token.currentPricePerTokenWei()).to.eq(startPrice);
+
+    await time.increaseTo(startTime + 250n);
+    expect(await token.currentPricePerTokenWei()).to.eq(priceAt(startTime + 250n));
+    expect(await token.quoteBuy(1_000_000n)).to.eq(ethers.parseEther("0.008"));
+
+    // Overpaying at the start price is refunded down to the price of the block the purchase lands in
+    const amount = 2_500_000n;
+    const paid = (amount * startPrice) / 1_000_000n;
+    const charged = (amount * priceAt(startTime + 500n)) / 1_000_000n;
+    expect(charged).to.eq(ethers.parseEther("0.015"));
+    await time.setNextBlockTimestamp(startTime + 500n);
+    const buyTx = await token["buy(uint64)"](amount, { value: paid });
+    await expect(buyTx)
+      .to.emit(token, "TokenPurchased")
+      .withArgs(signers.buyer.address, amount, charged, paid, priceAt(startTime + 500n));
+    await expect(buyTx).to.changeEtherBalances([signers.buyer, token], [-charged, charged]);
+
+    await time.increaseTo(startTime + 999n);
+    expect(await token.currentPricePerTokenWei()).to.eq(priceAt(startTime + 999n));
+
+    await time.increaseTo(endTime);
+    expect(await token.currentPricePerTokenWei()).to.eq(floorPrice);
+    await expect(token["buy(uint64)"](1_000_000n, { value: startPrice })).to.be.revertedWithCustomError(
+      token,
+      "SaleEnded",
+    );
+  });
+
+  it("sells privately from an encrypted ETH credit without revealing amounts", async function () {
+    const { signers, factory, creditVault } = await deployFixture();
+    const { creator, buyer, recipient } = signers;
+    const vaultAddress = await creditVault.getAddress();
+
+    const price = ethers.parseEther("0.001");
+    const tokenAddress = await factory
+      .connect(creator)
+      .createToken.staticCall("MyToken", "MTK", 10_000_000n, price, "", OPEN_SALE);
+    await (await factory.connect(creator).createToken("MyToken", "MTK", 10_000_000n, price, "", OPEN_SALE)).wait();
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      buyer,
+    )) as ConfidentialERC7984Token;
+    expect(await token.creditVault()).to.eq(vaultAddress);
+
+    const buyPrivate = async (signer: HardhatEthersSigner, amount: bigint) => {
+      const input = await fhevm.createEncryptedInput(vaultAddress, signer.address).add64(amount).encrypt();
+      const tx = await creditVault.connect(signer).buy(tokenAddress, input.handles[0], input.inputProof);
+      await expect(tx).not.to.emit(token, "TokenPurchased");
+      await tx.wait();
+    };
+    const decryptBalance = async (signer: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await token.confidentialBalanceOf(signer.address),
+        tokenAddress,
+        signer,
+      );
+    const decryptCredit = async (signer: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(FhevmType.euint128, await creditVault.creditOf(signer.address), vaultAddress, signer);
+    const publicDecrypt = async (handle: string) => {
+      const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+      return { value: clearValues[handle as `0x${string}`] as bigint, decryptionProof };
+    };
+
+    await (await creditVault.connect(buyer).deposit({ value: ethers.parseEther("0.003") })).wait();
+    await expect(buyPrivate(buyer, 1_000_000n)).to.be.revertedWithCustomError(token, "SoldOut");
+    await expect(token.sellPrivate(buyer.address, ethers.ZeroHash)).to.be.revertedWithCustomError(
+      token,
+      "Unauthorized",
+    );
+    await expect(token.allocatePrivateSupply(4_000_000n)).to.be.revertedWithCustomError(
+      token,
+      "OwnableUnauthorizedAccount",
+    );
+    await (await token.connect(creator).allocatePrivateSupply(4_000_000n)).wait();
+    expect(await token.remainingForSaleClear()).to.eq(6_000_000n);
+    expect(await token.privateSupplyClear()).to.eq(4_000_000n);
+
+    await buyPrivate(buyer, 2_000_000n);
+    expect(await decryptBalance(buyer)).to.eq(2_000_000n);
+    // Credit is kept in wei * TOKEN_BASE
+    expect(await decryptCredit(buyer)).to.eq(ethers.parseEther("0.001") * 1_000_000n);
+
+    // Purchases the credit or the private pool cannot cover transfer nothing and charge nothing
+    await buyPrivate(buyer, 2_000_000n);
+    await buyPrivate(recipient, 1_000_000n);
+    await (await creditVault.connect(buyer).deposit({ value: ethers.parseEther("0.005") })).wait();
+    await buyPrivate(buyer, 3_000_000n);
+    expect(await decryptBalance(buyer)).to.eq(2_000_000n);
+    expect(await decryptBalance(recipient)).to.eq(0n);
+    expect(await decryptCredit(buyer)).to.eq(ethers.parseEther("0.006") * 1_000_000n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, await token.privateInventory(), tokenAddress, creator),
+    ).to.eq(2_000_000n);
+
+    await (await creditVault.connect(buyer).requestWithdrawal()).wait();
+    await expect(creditVault.connect(buyer).requestWithdrawal()).to.be.revertedWithCustomError(
+      creditVault,
+      "DecryptionPending",
+    );
+    const credit = await publicDecrypt(await creditVault.pendingWithdrawalOf(buyer.address));
+    await expect(creditVault.connect(buyer).withdraw(credit.value, credit.decryptionProof)).to.changeEtherBalance(
+      buyer,
+      ethers.parseEther("0.006"),
+    );
+    await expect(
+      creditVault.connect(buyer).withdraw(credit.value, credit.decryptionProof),
+    ).to.be.revertedWithCustomError(creditVault, "NothingToDecrypt");
+
+    await expect(creditVault.connect(buyer).revealProceeds(tokenAddress)).to.be.revertedWithCustomError(
+      creditVault,
+      "Unauthorized",
+    );
+    await (await creditVault.connect(creator).revealProceeds(tokenAddress)).wait();
+    const proceeds = await publicDecrypt(await creditVault.pendingProceedsOf(tokenAddress));
+    // The 2.5% protocol fee is deducted from the released proceeds and paid through the token
+    await (await factory.setFees(0n, 250n, signers.deployer.address)).wait();
+    await expect(token.forwardPurchaseFee({ value: 1n })).to.be.revertedWithCustomError(token, "Unauthorized");
+    const releaseTx = await creditVault
+      .connect(creator)
+      .releaseProceeds(tokenAddress, creator.address, proceeds.value, proceeds.decryptionProof);
+    await expect(releaseTx)
+      .to.emit(creditVault, "ProceedsReleased")
+      .withArgs(tokenAddress, creator.address, ethers.parseEther("0.00195"));
+    await expect(releaseTx)
+      .to.emit(factory, "PurchaseFeePaid")
+      .withArgs(tokenAddress, signers.deployer.address, ethers.parseEther("0.00005"));
+    await expect(releaseTx).to.changeEtherBalances(
+      [creator, signers.deployer],
+      [ethers.parseEther("0.00195"), ethers.parseEther("0.00005")],
+    );
+
+    // Per-wallet caps, soft caps and bonding curves need clear purchase amounts
+    const cappedSale = { ...OPEN_SALE, maxPerWallet: 1_000_000n };
+    const cappedAddress = await factory
+      .connect(creator)
+      .createToken.staticCall("Capped", "CAP", 10_000_000n, price, "", cappedSale);
+    await (await factory.connect(creator).createToken("Capped", "CAP", 10_000_000n, price, "", cappedSale)).wait();
+    const capped = await ethers.getContractAt("ConfidentialERC7984Token", cappedAddress, creator);
+    await expect(capped.allocatePrivateSupply(1_000_000n)).to.be.revertedWithCustomError(
+      capped,
+      "PrivateSaleUnsupported",
+    );
+  });
+
+  it("sells for a confidential payment token through an operator-approved transfer", async function () {
+    const { signers, factory, creditVault } = await deployFixture();
+    const { creator, buyer } = signers;
+    const vaultAddress = await creditVault.getAddress();
+
+    const cusdt = (await (
+      await ethers.getContractFactory("ConfidentialUSDT", signers.deployer)
+    ).deploy(100_000_000n, 86_400n, 1_000_000_000n)) as ConfidentialUSDT;
+    const cusdtAddress = await cusdt.getAddress();
+    await (await cusdt.mint(buyer.address, 20_000_000n)).wait();
+
+    const price = 2_000_000n; // 2 cUSDT per token
+    const saleConfig = { ...OPEN_SALE, paymentToken: cusdtAddress };
+    const tokenAddress = await factory
+      .connect(creator)
+      .createToken.staticCall("MyToken", "MTK", 5_000_000n, price, "", saleConfig);
+    await (await factory.connect(creator).createToken("MyToken", "MTK", 5_000_000n, price, "", saleConfig)).wait();
+    const token = (await ethers.getContractAt(
+      "ConfidentialERC7984Token",
+      tokenAddress,
+      buyer,
+    )) as ConfidentialERC7984Token;
+
+    await expect(
+      factory.createToken("MyToken", "MTK", 5_000_000n, price, "", { ...saleConfig, maxPerWallet: 1n }),
+    ).to.be.revertedWithCustomError(token, "InvalidSaleConfig");
+
+    // The whole supply is sold from the private pool, so ETH purchases and ETH credit are refused
+    expect(await token.remainingForSaleClear()).to.eq(0n);
+    expect(await token.privateSupplyClear()).to.eq(5_000_000n);
+    await expect(token["buy(uint64)"](1_000_000n)).to.be.revertedWithCustomError(token, "SoldOut");
+    const ethInput = await fhevm.createEncryptedInput(vaultAddress, buyer.address).add64(1_000_000n).encrypt();
+    await expect(
+      creditVault.connect(buyer).buy(tokenAddress, ethInput.handles[0], ethInput.inputProof),
+    ).to.be.revertedWithCustomError(creditVault, "UnsupportedPayment");
+
+    const buyWithCusdt = async (amount: bigint) => {
+      const input = await fhevm.createEncryptedInput(vaultAddress, buyer.address).add64(amount).encrypt();
+      await (
+        await creditVault.connect(buyer).buyWithPaymentToken(tokenAddress, input.handles[0], input.inputProof)
+      ).wait();
+    };
+    const decrypt = async (contract: ConfidentialERC7984Token | ConfidentialUSDT, signer: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await contract.confidentialBalanceOf(signer.address),
+        await contract.getAddress(),
+        signer,
+      );
+
+    await expect(buyWithCusdt(1_000_000n)).to.be.revertedWithCustomError(cusdt, "ERC7984UnauthorizedSpender");
+    await (await cusdt.connect(buyer).setOperator(vaultAddress, (await time.latest()) + 3_600)).wait();
+
+    await buyWithCusdt(3_000_000n);
+    expect(await decrypt(token, buyer)).to.eq(3_000_000n);
+    expect(await decrypt(cusdt, buyer)).to.eq(14_000_000n);
+    expect(await decrypt(cusdt, creator)).to.eq(6_000_000n);
+
+    // A purchase the pool cannot cover is refunded; one the balance cannot cover is never charged
+    await buyWithCusdt(3_000_000n);
+    await buyWithCusdt(500_000_000n);
+    expect(await decrypt(token, buyer)).to.eq(3_000_000n);
+    expect(await decrypt(cusdt, buyer)).to.eq(14_000_000n);
+
+    // Fractions of a token are charged rounded up to the payment token's base unit; the 2.5% protocol fee is kept
+    // in cUSDT out of the seller's share, rounded down, until anyone sends it to the fee recipient
+    await (await factory.setFees(0n, 250n, signers.recipient.address)).wait();
+    await buyWithCusdt(1_999_999n);
+    expect(await decrypt(token, buyer)).to.eq(4_999_999n);
+    expect(await decrypt(cusdt, buyer)).to.eq(10_000_002n);
+    expect(await decrypt(cusdt, creator)).to.eq(9_899_999n);
+    await expect(creditVault.connect(buyer).collectPaymentTokenFees(tokenAddress)).to.emit(
+      creditVault,
+      "PaymentTokenFeesCollected",
+    );
+    expect(await decrypt(cusdt, signers.recipient)).to.eq(99_999n);
+    await expect(creditVault.collectPaymentTokenFees(tokenAddress)).to.be.revertedWithCustomError(
+      creditVault,
+      "NothingToCollect",
+    );
+  });
+
+  it("serves only the tokens of its own factory from the credit vault", async function () {
+    const { signers, factoryAddress, creditVault } = await deployFixture();
+    const { creator, buyer } = signers;
+    const vaultAddress = await creditVault.getAddress();
+
+    await expect(creditVault.connect(creator).setFactory(creator.address)).to.be.revertedWithCustomError(
+      creditVault,
+      "Unauthorized",
+    );
+    await expect(creditVault.setFactory(factoryAddress)).to.be.revertedWithCustomError(
+      creditVault,
+      "FactoryAlreadySet",
+    );
+    expect(await creditVault.factory()).to.eq(factoryAddress);
+
+    // A token outside the factory would claim a delivered purchase at any price and drain other deposits
+    await (await creditVault.connect(buyer).deposit({ value: ethers.parseEther("1") })).wait();
+    const fake = await (await ethers.getContractFactory("MaliciousSaleToken", creator)).deploy(ethers.parseEther("10"));
+    const fakeAddress = await fake.getAddress();
+
+    await (await creditVault.connect(creator).deposit({ value: ethers.parseEther("1") })).wait();
+    const input = await fhevm.createEncryptedInput(vaultAddress, creator.address).add64(1_000_000n).encrypt();
+    await expect(creditVault.connect(creator).buy(fakeAddress, input.handles[0], input.inputProof))
+      .to.be.revertedWithCustomError(creditVault, "NotFactoryToken")
+      .withArgs(fakeAddress);
+    await expect(
+      creditVault.connect(creator).buyWithPaymentToken(fakeAddress, input.handles[0], input.inputProof),
+    ).to.be.revertedWithCustomError(creditVault, "NotFactoryToken");
+    await expect(creditVault.connect(creator).revealProceeds(fakeAddress)).to.be.revertedWithCustomError(
+      creditVault,
+      "NotFactoryToken",
+    );
+    await expect(
+      creditVault.connect(creator).releaseProceeds(fakeAddress, creator.address, 0n, "0x"),
+    ).to.be.revertedWithCustomError(creditVault, "NotFactoryToken");
+    await expect(creditVault.collectPaymentTokenFees(fakeAddress)).to.be.revertedWithCustomError(
+      creditVault,
+      "NotFactoryToken",
+    );
+
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await creditVault.creditOf(creator.address),
+        vaultAddress,
+        creator,
+      ),
+    ).to.eq(ethers.parseEther("1") * 1_000_000n);
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(ethers.parseEther("2"));
+  });
+
+  describe("soft-cap crowdsale", function () {
+    const pricePerTokenWei = ethers.parseEther("0.001");
+    const softCapWei = ethers.parseEther("0.005"); // 5 tokens
+
+    async function deployCrowdsale() {
+      const fixture = await deployFixture();
+      const { signers, factory } = fixture;
+
+      const endTime = BigInt(await time.latest()) + 1_000n;
+      const saleConfig = { ...OPEN_SALE, endTime, softCapWei };
+      const tokenAddress = await factory
+        .connect(signers.creator)
+        .createToken.staticCall("MyToken", "MTK", 10_000_000n, pricePerTokenWei, "", saleConfig);
+      await (
+        await factory
+          .connect(signers.creator)
+          .createToken("MyToken", "MTK", 10_000_000n, pricePerTokenWei, "", saleConfig)
+      ).wait();
+
+      const token = (await ethers.getContractAt(
+        "ConfidentialERC7984Token",
+        tokenAddress,
+        signers.buyer,
+      )) as ConfidentialERC7984Token;
+      return { ...fixture, token, tokenAddress, endTime };
+    }
+
+    async function buyTokens(token: ConfidentialERC7984Token, buyer: HardhatEthersSigner, amount: bigint) {
+      await (await token.connect(buyer)["buy(uint64)"](amount, { value: await token.quoteBuy(amount) })).wait();
+    }
+
+    it("releases escrowed proceeds and unlocks transfers once the soft cap is met", async function () {
+      const { signers, token, tokenAddress, endTime } = await deployCrowdsale();
+
+      expect(await token.crowdsaleState()).to.eq(1n); // Active
+      await buyTokens(token, signers.buyer, 3_000_000n);
+      await buyTokens(token, signers.recipient, 2_000_000n);
+      expect(await token.totalRaisedWei()).to.eq(softCapWei);
+      expect(await token.contributedWei(signers.buyer.address)).to.eq(ethers.parseEther("0.003"));
+
+      await expect(token.connect(signers.creator).withdraw(signers.creator.address, 1n)).to.be.revertedWithCustomError(
+        token,
+        "ProceedsInEscrow",
+      );
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(tokenAddress, signers.buyer.address)
+        .add64(1_000_000n)
+        .encrypt();
+      await expect(
+        token["confidentialTransfer(address,bytes32,bytes)"](
+          signers.recipient.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(token, "TransfersLocked");
+
+      await expect(token.finalizeSale()).to.be.revertedWithCustomError(token, "SaleNotFinalizable");
+      await time.increaseTo(endTime);
+      await expect(token.finalizeSale()).to.emit(token, "SaleFinalized").withArgs(true, softCapWei);
+      expect(await token.crowdsaleState()).to.eq(2n); // Succeeded
+      await expect(token.claimRefund()).to.be.revertedWithCustomError(token, "RefundUnavailable");
+
+      await expect(token.connect(signers.creator).withdraw(signers.creator.address, softCapWei)).to.changeEtherBalances(
+        [signers.creator, token],
+        [softCapWei, -softCapWei],
+      );
+      await (
+        await token["confidentialTransfer(address,bytes32,bytes)"](
+          signers.recipient.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        )
+      ).wait();
+      const recipientBalance = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await token.confidentialBalanceOf(signers.recipient.address),
+        tokenAddress,
+        signers.recipient,
+      );
+      expect(recipientBalance).to.eq(3_000_000n);
+    });
+
+    it("refunds buyers and restores inventory when the soft cap is missed", async function () {
+      const { signers, token, tokenAddress, endTime } = await deployCrowdsale();
+
+      await buyTokens(token, signers.buyer, 3_000_000n);
+      const paidWei = ethers.parseEther("0.003");
+      await expect(token.claimRefund()).to.be.revertedWithCustomError(token, "RefundUnavailable");
+
+      await time.increaseTo(endTime);
+      await expect(token.finalizeSale()).to.emit(token, "SaleFinalized").withArgs(false, paidWei);
+      expect(await token.crowdsaleState()).to.eq(3n); // Failed
+      expect(await token.salePhase()).to.eq(3n); // Ended
+      await expect(token.finalizeSale()).to.be.revertedWithCustomError(token, "SaleNotFinalizable");
+      await expect(
+        token.connect(signers.creator).withdraw(signers.creator.address, paidWei),
+      ).to.be.revertedWithCustomError(token, "ProceedsInEscrow");
+
+      const refundTx = await token.claimRefund();
+      await expect(refundTx).to.emit(token, "Refunded").withArgs(signers.buyer.address, 3_000_000n, paidWei);
+      await expect(refundTx).to.changeEtherBalances([signers.buyer, token], [paidWei, -paidWei]);
+      expect(await token.remainingForSaleClear()).to.eq(10_000_000n);
+      expect(await token.contributedWei(signers.buyer.address)).to.eq(0n);
+      await expect(token.claimRefund()).to.be.revertedWithCustomError(token, "RefundUnavailable");
+
+      const buyerBalance = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await token.confidentialBalanceOf(signers.buyer.address),
+        tokenAddress,
+        signers.buyer,
+      );
+      expect(buyerBalance).to.eq(0n);
+    });
+
+    it("holds the protocol fee until the soft cap is met", async function () {
+      const { signers, factory, token, tokenAddress, endTime } = await deployCrowdsale();
+      await (await factory.setFees(0n, 100n, signers.deployer.address)).wait();
+
+      const feeWei = ethers.parseEther("0.00005");
+      await expect(
+        token["buy(uint64)"](5_000_000n, { value: await token.quoteBuy(5_000_000n) }),
+      ).to.changeEtherBalances(
+        [signers.buyer, token, signers.deployer],
+        [-(softCapWei + feeWei), softCapWei + feeWei, 0n],
+      );
+      expect(await token.totalRaisedWei()).to.eq(softCapWei);
+      expect(await token.escrowedFeeWei()).to.eq(feeWei);
+
+      await time.increaseTo(endTime);
+      const finalizeTx = token.finalizeSale();
+      await expect(finalizeTx).to.changeEtherBalances([token, signers.deployer], [-feeWei, feeWei]);
+      await expect(finalizeTx)
+        .to.emit(factory, "PurchaseFeePaid")
+        .withArgs(tokenAddress, signers.deployer.address, feeWei);
+      expect(await token.escrowedFeeWei()).to.eq(0n);
+      expect(await ethers.provider.getBalance(tokenAddress)).to.eq(softCapWei);
+    });
+
+    it("counts only the sale price towards the soft cap and refunds the fee with it", async function () {
+      const { signers, factory, token, endTime } = await deployCrowdsale();
+      await (await factory.setFees(0n, 100n, signers.deployer.address)).wait();
+
+      const costWei = ethers.parseEther("0.003");
+      const feeWei = ethers.parseEther("0.00003");
+      await expect(
+        token["buy(uint64)"](3_000_000n, { value: await token.quoteBuy(3_000_000n) }),
+      ).to.changeEtherBalances([signers.buyer, token, signers.deployer], [-(costWei + feeWei), costWei + feeWei, 0n]);
+      expect(await token.totalRaisedWei()).to.eq(costWei);
+      expect(await token.contributedWei(signers.buyer.address)).to.eq(costWei + feeWei);
+
+      // A failed sale never pays the fee out, so the buyer gets back everything they paid
+      await time.increaseTo(endTime);
+      await expect(token.finalizeSale()).to.changeEtherBalances([token, signers.deployer], [0n, 0n]);
+      const refundTx = token.claimRefund();
+      await expect(refundTx).to.changeEtherBalances([signers.buyer, token], [costWei + feeWei, -(costWei + feeWei)]);
+      await expect(refundTx)
+        .to.emit(token, "Refunded")
+        .withArgs(signers.buyer.address, 3_000_000n, costWei + feeWei);
+    });
+  });
+
+  describe("minimal-proxy deployment", function () {
+    const launch = (factory: ConfidentialTokenFactory, creator: HardhatEthersSigner) =>
+      factory.connect(creator).createToken("MyToken", "MTK", 10_000_000n, ethers.parseEther("0.001"), "", OPEN_SALE);
+
+    it("launches tokens as EIP-1167 clones for a fraction of a full token deployment", async function () {
+      const { signers, factory } = await deployFixture();
+      const implementation = await factory.tokenImplementation();
+
+      // The full token bytecode, without even the initialization every launch also pays for
+      const fullDeployment = await (
+        await ethers.getContractFactory("ConfidentialERC7984Token", signers.deployer)
+      ).deploy(ethers.ZeroAddress);
+      const fullGas = (await fullDeployment.deploymentTransaction()!.wait())!.gasUsed;
+      const cloneGas = (await (await launch(factory, signers.creator)).wait())!.gasUsed;
+      expect(cloneGas * 2n).to.be.lessThan(fullGas);
+
+      const [tokenAddress] = await factory.getAllTokens();
+      expect(await ethers.provider.getCode(tokenAddress)).to.eq(
+        `0x363d3d373d3d3d363d73${implementation.slice(2).toLowerCase()}5af43d82803e903d91602b57fd5bf3`,
+      );
+    });
+
+    it("initializes each clone once and never the implementation", async function () {
+      const { signers, factory } = await deployFixture();
+      await (await launch(factory, signers.creator)).wait();
+      const [tokenAddress] = await factory.getAllTokens();
+      const token = (await ethers.getContractAt("ConfidentialERC7984Token", tokenAddress)) as ConfidentialERC7984Token;
+      const implementation = (await ethers.getContractAt(
+        "ConfidentialERC7984Token",
+        await factory.tokenImplementation(),
+      )) as ConfidentialERC7984Token;
+
+      expect(await token.name()).to.eq("MyToken");
+      expect(await token.symbol()).to.eq("MTK");
+      expect(await token.owner()).to.eq(signers.creator.address);
+      expect(await token.factory()).to.eq(await factory.getAddress());
+      expect(await token.creditVault()).to.eq(await implementation.creditVault());
+
+      const reinitialize = (target: ConfidentialERC7984Token) =>
+        target
+          .connect(signers.buyer)
+          .initialize("Takeover", "TKO", 1n, 0n, "", OPEN_SALE, signers.buyer.address, signers.buyer.address);
+      await expect(reinitialize(token)).to.be.revertedWithCustomError(token, "InvalidInitialization");
+      await expect(reinitialize(implementation)).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+      expect(await token.owner()).to.eq(signers.creator.address);
+      expect(await token.totalSupplyClear()).to.eq(10_000_000n);
+    });
   });
 });
@@ -0,0 +1,88 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialUSDT } from "../types";
+
+const FAUCET_AMOUNT = 100_000_000n; // 100 cUSDT
+const FAUCET_COOLDOWN = 86_400n;
+const FAUCET_CAP = 250_000_000n;
+
+async function deployFixture() {
+  const [deployer, user] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+  const cusdt = (await (
+    await ethers.getContractFactory("ConfidentialUSDT", deployer)
+  ).deploy(FAUCET_AMOUNT, FAUCET_COOLDOWN, FAUCET_CAP)) as ConfidentialUSDT;
+  return { deployer, user, cusdt, cusdtAddress: await cusdt.getAddress() };
+}
+
+describe("ConfidentialUSDT faucet", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  it("rate-limits claims per address and stops at the cap", async function () {
+    const { user, cusdt, cusdtAddress } = await deployFixture();
+    const decryptBalance = async () =>
+      fhevm.userDecryptEuint(FhevmType.euint64, await cusdt.confidentialBalanceOf(user.address), cusdtAddress, user);
+
+    expect(await cusdt.nextClaimAt(user.address)).to.eq(0n);
+    await expect(cusdt.connect(user).faucet()).to.emit(cusdt, "FaucetClaimed").withArgs(user.address, FAUCET_AMOUNT);
+    expect(await decryptBalance()).to.eq(FAUCET_AMOUNT);
+
+    const nextClaimAt = (await cusdt.lastClaimAt(user.address)) + FAUCET_COOLDOWN;
+    expect(await cusdt.nextClaimAt(user.address)).to.eq(nextClaimAt);
+    await expect(cusdt.connect(user).faucet())
+      .to.be.revertedWithCustomError(cusdt, "FaucetCooldown")
+      .withArgs(nextClaimAt);
+
+    await time.increaseTo(nextClaimAt);
+    await (await cusdt.connect(user).faucet()).wait();
+    await time.increase(FAUCET_COOLDOWN);
+    // Only what is left of the cap is minted on the last claim
+    await expect(cusdt.connect(user).faucet()).to.emit(cusdt, "FaucetClaimed").withArgs(user.address, 50_000_000n);
+    expect(await cusdt.claimedClear(user.address)).to.eq(FAUCET_CAP);
+    expect(await decryptBalance()).to.eq(FAUCET_CAP);
+
+    await time.increase(FAUCET_COOLDOWN);
+    await expect(cusdt.connect(user).faucet())
+      .to.be.revertedWithCustomError(cusdt, "FaucetCapReached")
+      .withArgs(FAUCET_CAP);
+  });
+
+  it("restricts minting and faucet settings to the owner", async function () {
+    const { deployer, user, cusdt, cusdtAddress } = await deployFixture();
+
+    await expect(cusdt.connect(user).mint(user.address, 1n)).to.be.revertedWithCustomError(
+      cusdt,
+      "OwnableUnauthorizedAccount",
+    );
+    await expect(cusdt.connect(user).setFaucetConfig(1n, 0n, 1n)).to.be.revertedWithCustomError(
+      cusdt,
+      "OwnableUnauthorizedAccount",
+    );
+    await expect(cusdt.setFaucetConfig(2n, 0n, 1n)).to.be.revertedWithCustomError(cusdt, "InvalidFaucetConfig");
+    await expect(cusdt.setFaucetConfig(0n, 0n, 1n)).to.be.revertedWithCustomError(cusdt, "InvalidFaucetConfig");
+
+    await (await cusdt.mint(deployer.address, 5_000_000_000n)).wait();
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await cusdt.confidentialBalanceOf(deployer.address),
+        cusdtAddress,
+        deployer,
+      ),
+    ).to.eq(5_000_000_000n);
+
+    await expect(cusdt.setFaucetConfig(1_000_000n, 0n, 2_000_000n))
+      .to.emit(cusdt, "FaucetConfigUpdated")
+      .withArgs(1_000_000n, 0n, 2_000_000n);
+    await (await cusdt.connect(user).faucet()).wait();
+    await (await cusdt.connect(user).faucet()).wait();
+    expect(await cusdt.claimedClear(user.address)).to.eq(2_000_000n);
+  });
+});
@@ -0,0 +1,192 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+import { Indexer } from "../indexer/indexer";
+import { createIndexerServer } from "../indexer/server";
+import { IndexerStore } from "../indexer/store";
+import { ConfidentialERC7984Token, ConfidentialTokenFactory } from "../types";
+import { deployTokenFactory } from "./factoryFixture";
+
+const OPEN_SALE = {
+  startTime: 0n,
+  endTime: 0n,
+  publicStartTime: 0n,
+  maxPerWallet: 0n,
+  allowlistRoot: ethers.ZeroHash,
+  softCapWei: 0n,
+  curve: 0, // Flat
+  endPricePerTokenWei: 0n,
+  paymentToken: ethers.ZeroAddress,
+};
+
+async function deployFixture() {
+  const [deployer, creator, buyer] = (await ethers.getSigners()) as unknown as HardhatEthersSigner[];
+
+  const { factory, factoryAddress } = await deployTokenFactory(deployer);
+  const startBlock = await ethers.provider.getBlockNumber();
+
+  // Collects what the indexer logs instead of printing it into the test output
+  const logged: string[] = [];
+  const logger = { warn: (message: string) => logged.push(message), error: (message: string) => logged.push(message) };
+
+  const store = new IndexerStore(":memory:");
+  const indexer = new Indexer(ethers.provider, store, {
+    factoryAddress,
+    startBlock,
+    batchSize: 5,
+    confirmations: 0,
+    pollIntervalMs: 1000,
+    logger,
+  });
+  await indexer.init();
+
+  return { signers: { deployer, creator, buyer }, factory, factoryAddress, store, indexer, logger, logged };
+}
+
+async function createToken(factory: ConfidentialTokenFactory, creator: HardhatEthersSigner, symbol: string) {
+  const price = ethers.parseEther("0.001");
+  const tokenAddress = await factory
+    .connect(creator)
+    .createToken.staticCall(symbol, symbol, 10_000_000n, price, "", OPEN_SALE);
+  await (await factory.connect(creator).createToken(symbol, symbol, 10_000_000n, price, "", OPEN_SALE)).wait();
+  return (await ethers.getContractAt("ConfidentialERC7984Token", tokenAddress)) as ConfidentialERC7984Token;
+}
+
+async function buy(token: ConfidentialERC7984Token, buyer: HardhatEthersSigner, amount: bigint) {
+  await (await token.connect(buyer)["buy(uint64)"](amount, { value: await token.quoteBuy(amount) })).wait();
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function getJson(url: string): Promise<any> {
+  return (await fetch(url)).json();
+}
+
+describe("Indexer", function () {
+  let store: IndexerStore | undefined;
+
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+  });
+
+  afterEach(function () {
+    store?.close();
+    store = undefined;
+  });
+
+  it("indexes tokens, sales, price updates and withdrawals", async function () {
+    const fixture = await deployFixture();
+    const { signers, factory, indexer } = fixture;
+    store = fixture.store;
+
+    const token = await createToken(factory, signers.creator, "AAA");
+    const tokenAddress = await token.getAddress();
+    await buy(token, signers.buyer, 1_000_000n);
+    await (await token.connect(signers.creator).setPricePerTokenWei(ethers.parseEther("0.002"))).wait();
+    await buy(token, signers.buyer, 500_000n);
+    await (await token.connect(signers.creator).withdraw(signers.creator.address, ethers.parseEther("0.001"))).wait();
+
+    const lastBlock = await indexer.syncOnce();
+    expect(lastBlock).to.eq(await ethers.provider.getBlockNumber());
+
+    expect(store.listTokens(signers.creator.address).map((t) => t.address)).to.deep.eq([tokenAddress]);
+    const sales = store.listPurchases(tokenAddress, 10, 0);
+    expect(sales.map((s) => s.amount)).to.deep.eq([500_000n, 1_000_000n]);
+    expect(sales[0].requiredWei).to.eq(ethers.parseEther("0.001"));
+    expect(store.listPriceUpdates(tokenAddress)[0].newPricePerTokenWei).to.eq(ethers.parseEther("0.002"));
+    expect(store.listWithdrawals(tokenAddress)[0].amountWei).to.eq(ethers.parseEther("0.001"));
+
+    // A second sync is a no-op and a later token is picked up incrementally
+    await indexer.syncOnce();
+    expect(store.listPurchases(tokenAddress, 10, 0).length).to.eq(2);
+    await createToken(factory, signers.creator, "BBB");
+    await indexer.syncOnce();
+    expect(store.listTokens().length).to.eq(2);
+  });
+
+  it("rolls back events from blocks that were reorged out", async function () {
+    const fixture = await deployFixture();
+    const { signers, factory, indexer, logged } = fixture;
+    store = fixture.store;
+
+    const token = await createToken(factory, signers.creator, "AAA");
+    const tokenAddress = await token.getAddress();
+    await buy(token, signers.buyer, 1_000_000n);
+    const cursor = await indexer.syncOnce();
+
+    const snapshotId = await network.provider.send("evm_snapshot");
+    await buy(token, signers.buyer, 2_000_000n);
+    await indexer.syncOnce();
+    expect(store.listPurchases(tokenAddress, 10, 0).length).to.eq(2);
+
+    // Replace the block holding the second purchase with a different one at the same height. The FHEVM mock
+    // coprocessor prints "HANDLE REVERT HERE!! <block>" on every evm_revert; that line comes from @fhevm/mock-utils.
+    await network.provider.send("evm_revert", [snapshotId]);
+    await buy(token, signers.buyer, 3_000_000n);
+    await indexer.syncOnce();
+
+    expect(store.listPurchases(tokenAddress, 10, 0).map((s) => s.amount)).to.deep.eq([3_000_000n, 1_000_000n]);
+    expect(logged).to.deep.eq([`Reorg detected, rolling back to block ${cursor}`]);
+  });
+
+  it("resumes from the stored cursor and serves the REST API", async function () {
+    const fixture = await deployFixture();
+    const { signers, factory, factoryAddress, indexer, logger } = fixture;
+    store = fixture.store;
+
+    // Symbols with letters outside hex digits, so searching for them cannot match a token address
+    await createToken(factory, signers.deployer, "TWO");
+    const token = await createToken(factory, signers.creator, "ONE");
+    const tokenAddress = await token.getAddress();
+    await buy(token, signers.buyer, 1_000_000n);
+    const cursor = await indexer.syncOnce();
+
+    // A fresh indexer over the same store continues where the previous one stopped
+    const restarted = new Indexer(ethers.provider, store, {
+      factoryAddress,
+      startBlock: 0,
+      batchSize: 5,
+      confirmations: 0,
+      pollIntervalMs: 1000,
+      logger,
+    });
+    await restarted.init();
+    await buy(token, signers.buyer, 2_000_000n);
+    expect(await restarted.syncOnce()).to.be.greaterThan(cursor);
+    expect(store.listPurchases(tokenAddress, 10, 0).length).to.eq(2);
+
+    const server = createIndexerServer(store, { chainId: 31337n, factoryAddress });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const tokens = await getJson(`${baseUrl}/tokens`);
+      expect(tokens.tokens[0].address).to.eq(tokenAddress);
+      expect(tokens.tokens[0].soldAmount).to.eq("3000000");
+      expect(tokens.total).to.eq(2);
+
+      const secondPage = await getJson(`${baseUrl}/tokens?limit=1&offset=1`);
+      expect(secondPage.total).to.eq(2);
+      expect(secondPage.tokens.map((t: { symbol: string }) => t.symbol)).to.deep.eq(["TWO"]);
+
+      const found = await getJson(`${baseUrl}/tokens?search=on&limit=10`);
+      expect(found.total).to.eq(1);
+      expect(found.tokens[0].address).to.eq(tokenAddress);
+
+      const sales = await getJson(`${baseUrl}/tokens/${tokenAddress}/sales?limit=1`);
+      expect(sales.sales.length).to.eq(1);
+      expect(sales.sales[0].amount).to.eq("2000000");
+
+      const stats = await getJson(`${baseUrl}/creators/${signers.creator.address}/stats`);
+      expect(stats.tokenCount).to.eq(1);
+      expect(stats.raisedWei).to.eq(ethers.parseEther("0.003").toString());
+
+      expect((await fetch(`${baseUrl}/tokens/0x1234`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/tokens/${ethers.ZeroAddress}`)).status).to.eq(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
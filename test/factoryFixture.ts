@@ -0,0 +1,25 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { ConfidentialCreditVault, ConfidentialTokenFactory } from "../types";
+
+// Deploys a ConfidentialTokenFactory the way deploy/deployTokenFactory.ts does, owned by `deployer`.
+export async function deployTokenFactory(deployer: HardhatEthersSigner) {
+  const creditVault = (await (
+    await ethers.getContractFactory("ConfidentialCreditVault", deployer)
+  ).deploy()) as ConfidentialCreditVault;
+  const tokenImplementation = await (
+    await ethers.getContractFactory("ConfidentialERC7984Token", deployer)
+  ).deploy(await creditVault.getAddress());
+  const auctionDeployer = await (await ethers.getContractFactory("ConfidentialAuctionDeployer", deployer)).deploy();
+  const wrapperDeployer = await (await ethers.getContractFactory("ConfidentialWrapperDeployer", deployer)).deploy();
+  const factory = (await (
+    await ethers.getContractFactory("ConfidentialTokenFactory", deployer)
+  ).deploy(
+    await tokenImplementation.getAddress(),
+    await auctionDeployer.getAddress(),
+    await wrapperDeployer.getAddress(),
+  )) as ConfidentialTokenFactory;
+  await (await creditVault.setFactory(await factory.getAddress())).wait();
+
+  return { factory, factoryAddress: await factory.getAddress(), creditVault };
+}